@@ -1,12 +1,21 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { useNoteStore } from './store/noteStore';
 import { InputSection } from './components/InputSection';
 import { ChatPanel } from './components/ChatPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { GraphPanel } from './components/GraphPanel';
 import { Sidebar } from './components/Sidebar';
 import { SettingsModal } from './components/SettingsModal';
+import { TemplateManagerModal } from './components/TemplateManagerModal';
 import { DeleteConfirmModal } from './components/DeleteConfirmModal';
+import { UnlockScreen } from './components/UnlockScreen';
+import { ExternalConflictModal } from './components/ExternalConflictModal';
+import { ExportMenu } from './components/ExportMenu';
+import { isFolderVaultConfigured, resetStorageBackend } from './services/storageService';
+import { countTags } from './utils/tags';
+import { findBacklinks } from './utils/noteLinks';
 import { 
-  Menu, X, Loader2, CheckCircle2, MessageCircleQuestion 
+  Menu, X, Loader2, CheckCircle2, MessageCircleQuestion, AlertTriangle, History, Network
 } from 'lucide-react';
 
 const App: React.FC = () => {
@@ -15,14 +24,15 @@ const App: React.FC = () => {
   // Destructure state
   const { 
     notes, activeNoteId, isSidebarOpen, isChatOpen, isChatLoading, chatDraft,
-    isStorageInitialized, searchQuery
+    isStorageInitialized, storageError, isVaultLocked, searchQuery, isHistoryOpen, revisions, isGraphOpen
   } = store;
 
   // Destructure actions
   const { 
     init, setSidebarOpen, setChatOpen, setChatDraft, saveNotes, 
     updateActiveNote, generateNoteContent, sendChatMessage, clearChatHistory,
-    addFilesToActiveNote, removeFileFromActiveNote, generateWeeklySummary 
+    addFilesToActiveNote, removeFileFromActiveNote, generateWeeklySummary,
+    setHistoryOpen, restoreRevision, setActiveNoteId, setGraphOpen
   } = store;
 
   // 1. Initial Load
@@ -63,6 +73,51 @@ const App: React.FC = () => {
 
   // Handle active note derived state
   const activeNote = notes.find(n => n.id === activeNoteId);
+  const backlinks = useMemo(
+    () => activeNoteId ? findBacklinks(notes, activeNoteId) : [],
+    [notes, activeNoteId]
+  );
+  const allTags = useMemo(() => countTags(notes).map(({ tag }) => tag), [notes]);
+  const linkableNotes = useMemo(() => notes.filter(n => n.id !== activeNoteId), [notes, activeNoteId]);
+
+  // Storage could not be opened or migrated
+  if (storageError) {
+    return (
+      <div className="h-screen w-screen flex items-center justify-center bg-slate-50 p-6">
+        <div className="bg-white rounded-2xl shadow-xl border border-red-100 max-w-md w-full p-6 flex flex-col items-center text-center gap-3">
+           <div className="w-12 h-12 bg-red-100 text-red-500 rounded-full flex items-center justify-center">
+              <AlertTriangle size={24} />
+           </div>
+           <h3 className="text-lg font-bold text-slate-900">Could not open your notes</h3>
+           <p className="text-sm text-slate-500">
+             Your notes have not been modified. Please restart the app; if the problem persists, keep this message for support.
+           </p>
+           <pre className="w-full text-left text-xs bg-slate-50 border border-slate-200 rounded-lg p-3 text-red-600 whitespace-pre-wrap break-words">{storageError}</pre>
+           <div className="flex gap-2">
+             <button 
+               onClick={() => window.location.reload()}
+               className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg font-medium transition-colors shadow-sm"
+             >
+               Retry
+             </button>
+             {isFolderVaultConfigured() && (
+               <button 
+                 onClick={() => { resetStorageBackend(); window.location.reload(); }}
+                 className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg font-medium transition-colors"
+               >
+                 Use built-in storage
+               </button>
+             )}
+           </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Encrypted workspace: ask for the passphrase instead of loading
+  if (isVaultLocked) {
+    return <UnlockScreen />;
+  }
 
   // Loading Screen
   if (!isStorageInitialized) {
@@ -86,6 +141,11 @@ const App: React.FC = () => {
     setChatDraft(`> ${text}\n\n`);
   };
 
+  const handleOpenNote = (id: string) => {
+    if (notes.some(n => n.id === id)) setActiveNoteId(id);
+    else alert("The linked note no longer exists. It may have been moved to the Trash.");
+  };
+
   return (
     <div className="h-screen bg-slate-50 text-slate-900 font-sans flex overflow-hidden">
       
@@ -113,6 +173,21 @@ const App: React.FC = () => {
             </span>
           </div>
           <div className="flex items-center gap-1">
+             <ExportMenu note={activeNote} />
+             <button 
+                onClick={() => setGraphOpen(!isGraphOpen)}
+                className={`p-2 rounded-lg transition-colors ${isGraphOpen ? 'text-blue-600 bg-blue-50' : 'text-slate-500 hover:text-slate-700'}`}
+                title="Graph View"
+             >
+                <Network size={22} />
+             </button>
+             <button 
+                onClick={() => setHistoryOpen(!isHistoryOpen)}
+                className={`p-2 rounded-lg transition-colors ${isHistoryOpen ? 'text-blue-600 bg-blue-50' : 'text-slate-500 hover:text-slate-700'}`}
+                title="Version History"
+             >
+                <History size={22} />
+             </button>
              <button 
                 onClick={() => setChatOpen(!isChatOpen)}
                 className={`p-2 rounded-lg transition-colors ${isChatOpen ? 'text-blue-600 bg-blue-50' : 'text-slate-500 hover:text-slate-700'}`}
@@ -140,7 +215,10 @@ const App: React.FC = () => {
                  status={activeNote.status}
                  searchQuery={searchQuery}
                  role={activeNote.role}
+                 tags={activeNote.tags || []}
+                 allTags={allTags}
                  onChangeTitle={(t) => updateActiveNote({ title: t })}
+                 onChangeTags={(tags) => updateActiveNote({ tags })}
                  onChangeText={(t) => updateActiveNote({ inputText: t })}
                  onRoleChange={(r) => updateActiveNote({ role: r })}
                  onAddFiles={addFilesToActiveNote}
@@ -148,6 +226,9 @@ const App: React.FC = () => {
                  onGenerate={generateNoteContent}
                  onSave={() => saveNotes()}
                  onChatSelection={handleChatWithSelection}
+                 linkableNotes={linkableNotes}
+                 backlinks={backlinks}
+                 onOpenNote={handleOpenNote}
                />
                
                {activeNote.error && (
@@ -176,11 +257,37 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {/* Version History Panel (Right Sidebar) */}
+          {isHistoryOpen && (
+            <div className="absolute right-0 top-0 bottom-0 z-50 lg:static lg:z-auto h-full animate-in slide-in-from-right-10 duration-200">
+               <HistoryPanel 
+                 revisions={revisions}
+                 currentHtml={activeNote.inputText}
+                 onRestore={restoreRevision}
+                 onClose={() => setHistoryOpen(false)}
+               />
+            </div>
+          )}
+
+          {/* Graph View (Right Sidebar) */}
+          {isGraphOpen && (
+            <div className="absolute right-0 top-0 bottom-0 z-50 lg:static lg:z-auto h-full animate-in slide-in-from-right-10 duration-200">
+               <GraphPanel 
+                 notes={notes}
+                 activeNoteId={activeNoteId}
+                 onOpenNote={handleOpenNote}
+                 onClose={() => setGraphOpen(false)}
+               />
+            </div>
+          )}
+
         </main>
       </div>
 
       <DeleteConfirmModal />
+      <ExternalConflictModal />
       <SettingsModal />
+      <TemplateManagerModal />
     </div>
   );
 };
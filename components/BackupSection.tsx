@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { useNoteStore } from '../store/noteStore';
+import { exportWorkspace, readWorkspaceArchive, WorkspaceImport } from '../services/backupService';
+import { downloadBlob, todayStamp } from '../utils/download';
+
+export const BackupSection: React.FC = () => {
+  const { notes, trashedNotes, folders, customTemplates, importNotes } = useNoteStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [pendingImport, setPendingImport] = useState<WorkspaceImport | null>(null);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const blob = await exportWorkspace([...notes, ...trashedNotes], folders, customTemplates);
+      downloadBlob(blob, `smart-note-workspace-${todayStamp()}.zip`);
+    } catch (err: any) {
+      console.error("Workspace export failed", err);
+      setMessage({ type: 'error', text: `Export failed: ${err.message}` });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      setPendingImport(await readWorkspaceArchive(file));
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async (mode: 'merge' | 'replace') => {
+    if (!pendingImport) return;
+    if (mode === 'replace' && !confirm("Replace ALL current notes (including the Trash), folders and templates with the backup? Notes not in the backup will be permanently deleted.")) {
+      return;
+    }
+
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const { added, skipped } = await importNotes(pendingImport.notes, mode, pendingImport.folders, pendingImport.templates);
+      setMessage({
+        type: 'success',
+        text: `Imported ${added} note${added === 1 ? '' : 's'}` + (skipped > 0 ? `, skipped ${skipped} already in this workspace.` : '.')
+      });
+    } catch (err: any) {
+      console.error("Workspace import failed", err);
+      setMessage({ type: 'error', text: err.message });
+    } finally {
+      setIsBusy(false);
+      setPendingImport(null);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-slate-700 mb-1">Workspace Backup</label>
+      <div className="flex gap-2">
+        <button
+          onClick={handleExport}
+          disabled={isBusy}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-600 hover:text-blue-600 hover:border-blue-300 rounded-lg text-sm font-medium transition-all shadow-sm disabled:opacity-50"
+        >
+          {isBusy ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+          Export workspace
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-600 hover:text-blue-600 hover:border-blue-300 rounded-lg text-sm font-medium transition-all shadow-sm disabled:opacity-50"
+        >
+          <Upload size={14} />
+          Import workspace
+        </button>
+        <input type="file" ref={fileInputRef} className="hidden" accept=".zip" onChange={handleFileChange} />
+      </div>
+      <p className="text-xs text-slate-500 mt-2">
+        A single .zip with all notes, chat histories and attachments. Keep a copy outside this app.
+      </p>
+
+      {pendingImport && (
+        <div className="mt-3 p-3 rounded-lg border border-blue-100 bg-blue-50/50 text-sm">
+          <div className="text-slate-700">
+            Backup from <b>{new Date(pendingImport.exportedAt).toLocaleString()}</b> contains <b>{pendingImport.notes.length}</b> notes.
+          </div>
+          {pendingImport.errors.length > 0 && (
+            <ul className="mt-2 text-xs text-red-600 list-disc pl-4 max-h-24 overflow-y-auto">
+              {pendingImport.errors.map((err, i) => <li key={i}>{err}</li>)}
+            </ul>
+          )}
+          <div className="flex gap-2 mt-3">
+            <button onClick={() => handleImport('merge')} disabled={isBusy} className="px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-xs font-medium transition-colors shadow-sm">
+              Merge
+            </button>
+            <button onClick={() => handleImport('replace')} disabled={isBusy} className="px-3 py-1.5 bg-red-500 text-white hover:bg-red-600 rounded-lg text-xs font-medium transition-colors shadow-sm">
+              Replace current
+            </button>
+            <button onClick={() => setPendingImport(null)} disabled={isBusy} className="px-3 py-1.5 text-slate-600 hover:bg-slate-100 rounded-lg text-xs font-medium transition-colors ml-auto">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div className={`mt-2 flex items-start gap-1.5 text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>
+          {message.type === 'error' ? <AlertCircle size={14} className="flex-shrink-0" /> : <CheckCircle2 size={14} className="flex-shrink-0" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+    </div>
+  );
+};
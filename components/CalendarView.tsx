@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, CalendarPlus, CalendarCheck } from 'lucide-react';
+import { NoteSession } from '../types';
+import { dayKey, formatDayHeading, monthGrid, noteDayKey, parseDayKey } from '../utils/dates';
+
+interface CalendarViewProps {
+  notes: NoteSession[];
+  renderNote: (note: NoteSession) => React.ReactNode;
+  onOpenDailyNote: (date: string) => void;
+}
+
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+
+// Month grid with the number of notes of each day (see noteDayKey); picking a day lists its notes
+export const CalendarView: React.FC<CalendarViewProps> = ({ notes, renderNote, onOpenDailyNote }) => {
+  const today = dayKey(new Date());
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() };
+  });
+  const [selectedDay, setSelectedDay] = useState(today);
+
+  const notesByDay = new Map<string, NoteSession[]>();
+  for (const note of notes) {
+    const key = noteDayKey(note);
+    const dayNotes = notesByDay.get(key);
+    if (dayNotes) dayNotes.push(note);
+    else notesByDay.set(key, [note]);
+  }
+  const dailyDays = new Set(notes.filter(n => n.dailyDate).map(n => n.dailyDate!));
+  const dayNotes = notesByDay.get(selectedDay) || [];
+  const hasDailyNote = dailyDays.has(selectedDay);
+
+  const shiftMonth = (delta: number) => {
+    const first = new Date(month.year, month.month + delta, 1);
+    setMonth({ year: first.getFullYear(), month: first.getMonth() });
+  };
+
+  const goToToday = () => {
+    const now = new Date();
+    setMonth({ year: now.getFullYear(), month: now.getMonth() });
+    setSelectedDay(today);
+  };
+
+  return (
+    <div className="px-1 pb-3">
+      <div className="flex items-center justify-between px-1 pb-2">
+        <button onClick={() => shiftMonth(-1)} className="p-1 rounded-md text-slate-400 hover:text-slate-700 hover:bg-slate-100" title="Previous month">
+          <ChevronLeft size={16} />
+        </button>
+        <button onClick={goToToday} className="text-sm font-semibold text-slate-700 hover:text-blue-600" title="Go to today">
+          {new Date(month.year, month.month, 1).toLocaleDateString([], { year: 'numeric', month: 'long' })}
+        </button>
+        <button onClick={() => shiftMonth(1)} className="p-1 rounded-md text-slate-400 hover:text-slate-700 hover:bg-slate-100" title="Next month">
+          <ChevronRight size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-0.5 text-center">
+        {WEEKDAYS.map(day => (
+          <div key={day} className="text-[10px] font-semibold uppercase text-slate-400 pb-1">{day}</div>
+        ))}
+        {monthGrid(month.year, month.month).map(date => {
+          const key = dayKey(date);
+          const count = notesByDay.get(key)?.length || 0;
+          const isOtherMonth = date.getMonth() !== month.month;
+          const isSelected = key === selectedDay;
+          return (
+            <button
+              key={key}
+              onClick={() => setSelectedDay(key)}
+              title={count > 0 ? `${count} note${count === 1 ? '' : 's'}` : undefined}
+              className={`aspect-square rounded-lg flex flex-col items-center justify-center text-xs transition-colors ${
+                isSelected
+                  ? 'bg-blue-600 text-white'
+                  : key === today
+                  ? 'bg-blue-50 text-blue-700 font-semibold hover:bg-blue-100'
+                  : isOtherMonth
+                  ? 'text-slate-300 hover:bg-slate-50'
+                  : 'text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              <span>{date.getDate()}</span>
+              <span className={`text-[9px] leading-none h-2.5 font-semibold ${isSelected ? 'text-blue-100' : dailyDays.has(key) ? 'text-indigo-500' : 'text-slate-400'}`}>
+                {count > 0 ? count : ''}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-1 pt-4 pb-2">
+        <span className="text-[11px] font-semibold uppercase tracking-wide text-slate-400 truncate">
+          {formatDayHeading(parseDayKey(selectedDay))}
+        </span>
+        <button
+          onClick={() => onOpenDailyNote(selectedDay)}
+          className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 flex-shrink-0"
+          title={hasDailyNote ? "Open the daily note of this day" : "Create a daily note for this day"}
+        >
+          {hasDailyNote ? <CalendarCheck size={13} /> : <CalendarPlus size={13} />}
+          Daily note
+        </button>
+      </div>
+      <div className="space-y-1">
+        {dayNotes.length === 0 && (
+          <div className="text-center text-slate-400 text-sm py-6">No notes on this day</div>
+        )}
+        {dayNotes.map(note => renderNote(note))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FileText, FileDown, FileCode, Loader2 } from 'lucide-react';
+import { NoteSession } from '../types';
+import { exportNoteToDocx } from '../services/docxExport';
+import { exportNotesToPdf } from '../services/pdfExport';
+import { exportNoteToHtml } from '../services/htmlNoteExport';
+import { downloadBlob, sanitizeFileName } from '../utils/download';
+
+interface ExportMenuProps {
+  note: NoteSession;
+}
+
+// Header menu for saving the active note in formats other apps open
+export const ExportMenu: React.FC<ExportMenuProps> = ({ note }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!(event.target as HTMLElement).closest('.export-menu-trigger')) setIsOpen(false);
+    };
+    document.addEventListener('click', handleClickOutside);
+    return () => document.removeEventListener('click', handleClickOutside);
+  }, []);
+
+  const runExport = async (format: string, exportNote: () => Promise<void>) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      await exportNote();
+    } catch (err: any) {
+      console.error(`${format} export failed`, err);
+      alert(`Export failed: ${err?.message || err}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const fileName = (ext: string) => `${sanitizeFileName(note.title, 'note')}.${ext}`;
+
+  const handleDocx = () => runExport('DOCX', async () => downloadBlob(await exportNoteToDocx(note), fileName('docx')));
+  const handlePdf = () => runExport('PDF', async () => { await exportNotesToPdf([note]); });
+  const handleHtml = () => runExport('HTML', async () => downloadBlob(await exportNoteToHtml(note), fileName('html')));
+
+  const itemClass = "w-full flex items-center gap-2 text-left px-3 py-2 text-sm text-slate-700 hover:bg-slate-50 rounded-md";
+
+  return (
+    <div className="relative export-menu-trigger">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting}
+        className={`p-2 rounded-lg transition-colors ${isOpen ? 'text-blue-600 bg-blue-50' : 'text-slate-500 hover:text-slate-700'}`}
+        title="Export Note"
+      >
+        {isExporting ? <Loader2 size={22} className="animate-spin" /> : <Download size={22} />}
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 bg-white border border-slate-200 shadow-xl rounded-lg p-1 w-52 animate-fade-in z-50">
+          <button onClick={handleDocx} className={itemClass}>
+            <FileText size={16} className="text-blue-600" />
+            Word document (.docx)
+          </button>
+          <button onClick={handlePdf} className={itemClass}>
+            <FileDown size={16} className="text-red-500" />
+            PDF
+          </button>
+          <button onClick={handleHtml} className={itemClass} title="One file with images, attachments and chat; can be imported again">
+            <FileCode size={16} className="text-emerald-600" />
+            Web page (.html)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
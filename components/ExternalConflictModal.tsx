@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { FileWarning } from 'lucide-react';
+import { useNoteStore } from '../store/noteStore';
+
+export const ExternalConflictModal: React.FC = () => {
+  const { externalConflict, resolveExternalConflict } = useNoteStore();
+  const [isResolving, setIsResolving] = useState(false);
+
+  if (!externalConflict) return null;
+
+  const isDeleted = externalConflict.change.kind === 'delete';
+
+  const resolve = async (keep: 'mine' | 'theirs') => {
+    setIsResolving(true);
+    try {
+      await resolveExternalConflict(keep);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/30 backdrop-blur-sm animate-in fade-in duration-200">
+       <div className="bg-white rounded-2xl shadow-2xl max-w-sm w-full p-6 transform transition-all scale-100 animate-in zoom-in-95 duration-200 border border-slate-100">
+          <div className="flex flex-col items-center text-center">
+             <div className="w-12 h-12 bg-amber-100 text-amber-500 rounded-full flex items-center justify-center mb-4">
+                <FileWarning size={24} />
+             </div>
+             <h3 className="text-lg font-bold text-slate-900 mb-2">Note changed elsewhere</h3>
+             <p className="text-slate-500 text-sm mb-6">
+               "{externalConflict.title}" was {isDeleted ? 'deleted' : 'modified'} in another window or by another program while you had unsaved changes.
+               {isDeleted
+                 ? ' Keep your version to write it back, or accept the deletion.'
+                 : ' Keep your version to overwrite theirs, or load theirs; yours stays in the version history.'}
+             </p>
+             <div className="flex w-full gap-3">
+                <button 
+                  onClick={() => resolve('theirs')}
+                  disabled={isResolving}
+                  className="flex-1 px-4 py-2.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl font-medium transition-colors disabled:opacity-50"
+                >
+                  {isDeleted ? 'Delete note' : 'Load theirs'}
+                </button>
+                <button 
+                  onClick={() => resolve('mine')}
+                  disabled={isResolving}
+                  className="flex-1 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-medium transition-colors shadow-sm disabled:opacity-50"
+                >
+                  Keep mine
+                </button>
+             </div>
+          </div>
+       </div>
+    </div>
+  );
+};
@@ -0,0 +1,368 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Network, ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { NoteRole, NoteSession } from '../types';
+import { ROLE_LABELS } from '../services/noteDocument';
+import { GraphEdgeKind, GraphNode, NoteGraph, buildNoteGraph, graphInputKey, stepLayout } from '../utils/noteGraph';
+
+interface GraphPanelProps {
+  notes: NoteSession[];
+  activeNoteId: string | null;
+  onOpenNote: (id: string) => void;
+  onClose: () => void;
+}
+
+const ROLE_COLORS: Record<NoteRole, string> = {
+  autosar: '#3b82f6',
+  notebooklm: '#10b981',
+  general: '#64748b',
+  weekly: '#6366f1'
+};
+
+const EDGE_KINDS: { kind: GraphEdgeKind; label: string; color: string }[] = [
+  { kind: 'link', label: 'Links', color: 'rgba(99, 102, 241, 0.6)' },
+  { kind: 'tag', label: 'Shared tags', color: 'rgba(245, 158, 11, 0.4)' },
+  { kind: 'attachment', label: 'Shared attachments', color: 'rgba(16, 185, 129, 0.4)' }
+];
+
+// Layout work per animation frame, so the panel stays responsive with thousands of notes
+const FRAME_BUDGET_MS = 10;
+const ALPHA_DECAY = 0.985;
+const ALPHA_MIN = 0.02;
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 8;
+// Titles are drawn for every visible node above this zoom, if there are not too many of them
+const LABEL_ZOOM = 1.4;
+const MAX_LABELS = 250;
+
+const nodeRadius = (node: GraphNode) => 3 + Math.min(6, Math.sqrt(node.degree));
+
+// Start and end of the days picked in the date inputs; open ends when empty
+const dayStart = (date: string) => date ? new Date(`${date}T00:00:00`).getTime() : -Infinity;
+const dayEnd = (date: string) => date ? new Date(`${date}T23:59:59.999`).getTime() : Infinity;
+
+// Edges and node membership; changes to it restart the layout
+const graphSignature = ({ nodes, edges }: NoteGraph) =>
+  nodes.map(node => node.id).join() + '|' + edges.map(edge => `${edge.source}-${edge.target}`).join();
+
+export const GraphPanel: React.FC<GraphPanelProps> = ({ notes, activeNoteId, onOpenNote, onClose }) => {
+  const [kinds, setKinds] = useState<GraphEdgeKind[]>(['link', 'tag', 'attachment']);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [stats, setStats] = useState({ nodes: 0, edges: 0 });
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const graphRef = useRef<NoteGraph>({ nodes: [], edges: [] });
+  const signatureRef = useRef('');
+  const alphaRef = useRef(1);
+  // Pan offset (screen pixels from the centre) and zoom factor
+  const viewRef = useRef({ x: 0, y: 0, k: 1 });
+  const hoveredRef = useRef<GraphNode | null>(null);
+  const activeIdRef = useRef(activeNoteId);
+  // Fit the graph into view once the first layout settles, unless the user moved it already
+  const needsFitRef = useRef(true);
+  const dragRef = useRef<{ startX: number; startY: number; viewX: number; viewY: number; moved: boolean } | null>(null);
+
+  const canvasSize = () => {
+    const canvas = canvasRef.current!;
+    const dpr = window.devicePixelRatio || 1;
+    return { width: canvas.width / dpr, height: canvas.height / dpr, dpr };
+  };
+
+  const toWorld = (sx: number, sy: number) => {
+    const { width, height } = canvasSize();
+    const { x, y, k } = viewRef.current;
+    return { wx: (sx - width / 2 - x) / k, wy: (sy - height / 2 - y) / k };
+  };
+
+  const draw = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d')!;
+    const { width, height, dpr } = canvasSize();
+    const { x, y, k } = viewRef.current;
+    const { nodes, edges } = graphRef.current;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(dpr * k, 0, 0, dpr * k, dpr * (width / 2 + x), dpr * (height / 2 + y));
+
+    ctx.lineWidth = 1 / k;
+    for (const { kind, color } of EDGE_KINDS) {
+      ctx.beginPath();
+      for (const edge of edges) {
+        if (edge.kind !== kind) continue;
+        const a = nodes[edge.source];
+        const b = nodes[edge.target];
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+      }
+      ctx.strokeStyle = color;
+      ctx.stroke();
+    }
+
+    // One path per role keeps the number of fill calls constant
+    for (const role of Object.keys(ROLE_COLORS) as NoteRole[]) {
+      ctx.beginPath();
+      for (const node of nodes) {
+        if (node.role !== role) continue;
+        const r = nodeRadius(node);
+        ctx.moveTo(node.x + r, node.y);
+        ctx.arc(node.x, node.y, r, 0, Math.PI * 2);
+      }
+      ctx.fillStyle = ROLE_COLORS[role];
+      ctx.fill();
+    }
+
+    const active = nodes.find(node => node.id === activeIdRef.current);
+    const hovered = hoveredRef.current;
+    ctx.lineWidth = 2 / k;
+    for (const node of [active, hovered]) {
+      if (!node) continue;
+      ctx.beginPath();
+      ctx.arc(node.x, node.y, nodeRadius(node) + 3 / k, 0, Math.PI * 2);
+      ctx.strokeStyle = node === active ? '#f59e0b' : '#0f172a';
+      ctx.stroke();
+    }
+
+    const { wx: left, wy: top } = toWorld(0, 0);
+    const { wx: right, wy: bottom } = toWorld(width, height);
+    const visible = k >= LABEL_ZOOM
+      ? nodes.filter(node => node.x >= left && node.x <= right && node.y >= top && node.y <= bottom)
+      : [];
+    const labelled = new Set([...(visible.length <= MAX_LABELS ? visible : []), active, hovered]);
+    ctx.font = `${11 / k}px Inter, ui-sans-serif, system-ui, sans-serif`;
+    ctx.fillStyle = '#334155';
+    ctx.textBaseline = 'middle';
+    labelled.forEach(node => {
+      if (node) ctx.fillText(node.title, node.x + nodeRadius(node) + 4 / k, node.y);
+    });
+  };
+
+  const fitToView = () => {
+    const { nodes } = graphRef.current;
+    if (!canvasRef.current || nodes.length === 0) return;
+    const { width, height } = canvasSize();
+    const xs = nodes.map(node => node.x);
+    const ys = nodes.map(node => node.y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.min(width / (maxX - minX + 80), height / (maxY - minY + 80))));
+    viewRef.current = { k, x: -((minX + maxX) / 2) * k, y: -((minY + maxY) / 2) * k };
+    draw();
+  };
+
+  const zoomAt = (sx: number, sy: number, factor: number) => {
+    const { wx, wy } = toWorld(sx, sy);
+    const { width, height } = canvasSize();
+    const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, viewRef.current.k * factor));
+    // Keep the point under the cursor where it is
+    viewRef.current = { k, x: sx - width / 2 - wx * k, y: sy - height / 2 - wy * k };
+    needsFitRef.current = false;
+    draw();
+  };
+
+  const nodeAt = (sx: number, sy: number): GraphNode | null => {
+    const { wx, wy } = toWorld(sx, sy);
+    const k = viewRef.current.k;
+    let best: GraphNode | null = null;
+    let bestDistance = Infinity;
+    for (const node of graphRef.current.nodes) {
+      const distance = Math.hypot(node.x - wx, node.y - wy);
+      if (distance < nodeRadius(node) + 4 / k && distance < bestDistance) {
+        best = node;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+
+  const notesKey = useMemo(() => graphInputKey(notes), [notes]);
+
+  // Rebuild when what the graph shows of the notes or the filters change; positions carry
+  // over, the layout only restarts if nodes or edges differ
+  useEffect(() => {
+    const from = dayStart(fromDate);
+    const to = dayEnd(toDate);
+    const shown = notes.filter(note => note.createdAt >= from && note.createdAt <= to);
+    const previous = new Map(graphRef.current.nodes.map(node => [node.id, { x: node.x, y: node.y }]));
+    const graph = buildNoteGraph(shown, kinds, previous);
+    const signature = graphSignature(graph);
+    graphRef.current = graph;
+    if (signature !== signatureRef.current) {
+      alphaRef.current = Math.max(alphaRef.current, signatureRef.current ? 0.5 : 1);
+      signatureRef.current = signature;
+    }
+    hoveredRef.current = null;
+    setStats({ nodes: graph.nodes.length, edges: graph.edges.length });
+    draw();
+  }, [notesKey, kinds, fromDate, toDate]);
+
+  useEffect(() => {
+    activeIdRef.current = activeNoteId;
+    draw();
+  }, [activeNoteId]);
+
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      if (alphaRef.current > ALPHA_MIN) {
+        const start = performance.now();
+        do {
+          stepLayout(graphRef.current, alphaRef.current);
+          alphaRef.current *= ALPHA_DECAY;
+        } while (alphaRef.current > ALPHA_MIN && performance.now() - start < FRAME_BUDGET_MS);
+        if (alphaRef.current <= ALPHA_MIN && needsFitRef.current) {
+          needsFitRef.current = false;
+          fitToView();
+        } else {
+          draw();
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  // Canvas follows the panel size at device resolution
+  useEffect(() => {
+    const container = containerRef.current!;
+    const observer = new ResizeObserver(() => {
+      const canvas = canvasRef.current!;
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.max(1, Math.round(container.clientWidth * dpr));
+      canvas.height = Math.max(1, Math.round(container.clientHeight * dpr));
+      draw();
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // React's wheel listener is passive, so the page would scroll along
+  useEffect(() => {
+    const canvas = canvasRef.current!;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      zoomAt(e.clientX - rect.left, e.clientY - rect.top, Math.exp(-e.deltaY * 0.0015));
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    dragRef.current = { startX: e.clientX, startY: e.clientY, viewX: viewRef.current.x, viewY: viewRef.current.y, moved: false };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (drag) {
+      const dx = e.clientX - drag.startX;
+      const dy = e.clientY - drag.startY;
+      if (!drag.moved && Math.hypot(dx, dy) < 4) return;
+      drag.moved = true;
+      needsFitRef.current = false;
+      viewRef.current = { ...viewRef.current, x: drag.viewX + dx, y: drag.viewY + dy };
+      draw();
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    const node = nodeAt(e.clientX - rect.left, e.clientY - rect.top);
+    if (node !== hoveredRef.current) {
+      hoveredRef.current = node;
+      e.currentTarget.style.cursor = node ? 'pointer' : 'grab';
+      draw();
+    }
+  };
+
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.moved) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const node = nodeAt(e.clientX - rect.left, e.clientY - rect.top);
+    if (node) onOpenNote(node.id);
+  };
+
+  const toggleKind = (kind: GraphEdgeKind) =>
+    setKinds(kinds.includes(kind) ? kinds.filter(k => k !== kind) : [...kinds, kind]);
+
+  const zoomCentre = (factor: number) => {
+    const { width, height } = canvasSize();
+    zoomAt(width / 2, height / 2, factor);
+  };
+
+  return (
+    <div className="w-[32rem] max-w-[100vw] bg-white border-l border-slate-200 flex flex-col h-full shadow-2xl relative z-40 transition-all">
+      {/* Header */}
+      <div className="p-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
+        <div className="flex items-center gap-2 text-slate-700 font-semibold">
+          <Network size={20} className="text-blue-600" />
+          <span>Graph</span>
+          <span className="text-xs font-normal text-slate-400">{stats.nodes} notes · {stats.edges} connections</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-slate-400 hover:text-slate-600 rounded-lg hover:bg-white transition-colors"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="px-4 py-3 border-b border-slate-100 flex flex-col gap-2 text-xs">
+        <div className="flex items-center gap-2 text-slate-500">
+          <span className="font-medium">Created</span>
+          <input type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} className="px-2 py-1 border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20" aria-label="From date" />
+          <span>–</span>
+          <input type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} className="px-2 py-1 border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20" aria-label="To date" />
+          {(fromDate || toDate) && (
+            <button onClick={() => { setFromDate(''); setToDate(''); }} className="p-1 text-slate-400 hover:text-slate-700" title="Show all dates">
+              <X size={12} />
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-3 flex-wrap text-slate-600">
+          {EDGE_KINDS.map(({ kind, label, color }) => (
+            <label key={kind} className="flex items-center gap-1.5 cursor-pointer">
+              <input type="checkbox" checked={kinds.includes(kind)} onChange={() => toggleKind(kind)} className="rounded border-slate-300" />
+              <span className="w-3 h-0.5 rounded" style={{ background: color }} />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Canvas */}
+      <div ref={containerRef} className="flex-1 relative overflow-hidden bg-slate-50/50">
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 w-full h-full"
+          style={{ cursor: 'grab' }}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => { dragRef.current = null; hoveredRef.current = null; draw(); }}
+        />
+        {stats.nodes === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-400 pointer-events-none">
+            No notes in this date range
+          </div>
+        )}
+        <div className="absolute top-3 right-3 flex flex-col gap-1 bg-white border border-slate-200 rounded-lg shadow-sm p-1">
+          <button onClick={() => zoomCentre(1.4)} className="p-1.5 rounded text-slate-500 hover:bg-slate-100" title="Zoom In"><ZoomIn size={16} /></button>
+          <button onClick={() => zoomCentre(1 / 1.4)} className="p-1.5 rounded text-slate-500 hover:bg-slate-100" title="Zoom Out"><ZoomOut size={16} /></button>
+          <button onClick={fitToView} className="p-1.5 rounded text-slate-500 hover:bg-slate-100" title="Fit to View"><Maximize2 size={16} /></button>
+        </div>
+        <div className="absolute bottom-3 left-3 flex flex-wrap gap-x-3 gap-y-1 bg-white/90 border border-slate-200 rounded-lg px-2.5 py-1.5 text-[11px] text-slate-600">
+          {(Object.keys(ROLE_COLORS) as NoteRole[]).map(role => (
+            <span key={role} className="flex items-center gap-1">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ background: ROLE_COLORS[role] }} />
+              {ROLE_LABELS[role]}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
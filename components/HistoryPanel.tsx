@@ -0,0 +1,128 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { X, History, RotateCcw, Sparkles, Clock, Type, UserCog, Undo2, RefreshCw } from 'lucide-react';
+import { NoteRevision, RevisionReason } from '../types';
+import { htmlDiff } from '../utils/diff';
+
+interface HistoryPanelProps {
+  revisions: NoteRevision[];
+  currentHtml: string;
+  onRestore: (revision: NoteRevision) => void;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<RevisionReason, { label: string; icon: React.ReactNode; className: string }> = {
+  ai: { label: 'Before AI generation', icon: <Sparkles size={12} />, className: 'bg-indigo-50 text-indigo-600 border-indigo-100' },
+  idle: { label: 'Autosnapshot', icon: <Clock size={12} />, className: 'bg-slate-50 text-slate-500 border-slate-200' },
+  title: { label: 'Before rename', icon: <Type size={12} />, className: 'bg-amber-50 text-amber-600 border-amber-100' },
+  role: { label: 'Before role change', icon: <UserCog size={12} />, className: 'bg-blue-50 text-blue-600 border-blue-100' },
+  restore: { label: 'Before restore', icon: <Undo2 size={12} />, className: 'bg-green-50 text-green-600 border-green-100' },
+  external: { label: 'Before external edit', icon: <RefreshCw size={12} />, className: 'bg-purple-50 text-purple-600 border-purple-100' },
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  revisions,
+  currentHtml,
+  onRestore,
+  onClose
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Drop the selection if the revision disappears (note switched, pruned)
+  useEffect(() => {
+    if (selectedId && !revisions.some(r => r.id === selectedId)) setSelectedId(null);
+  }, [revisions, selectedId]);
+
+  const selected = revisions.find(r => r.id === selectedId) || null;
+
+  const diffHtml = useMemo(
+    () => (selected ? htmlDiff(selected.inputText, currentHtml) : ''),
+    [selected, currentHtml]
+  );
+
+  const handleRestore = () => {
+    if (!selected) return;
+    if (confirm(`Restore the version from ${new Date(selected.createdAt).toLocaleString()}? The current content will be kept in history.`)) {
+      onRestore(selected);
+      setSelectedId(null);
+    }
+  };
+
+  return (
+    <div className="w-96 bg-white border-l border-slate-200 flex flex-col h-full shadow-2xl relative z-40 transition-all">
+      {/* Header */}
+      <div className="p-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
+        <div className="flex items-center gap-2 text-slate-700 font-semibold">
+          <History size={20} className="text-blue-600" />
+          <span>Version History</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-slate-400 hover:text-slate-600 rounded-lg hover:bg-white transition-colors"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      {/* Revision List */}
+      <div className={`overflow-y-auto p-3 space-y-1 bg-slate-50/30 ${selected ? 'max-h-64 border-b border-slate-100' : 'flex-1'}`}>
+        {revisions.length === 0 && (
+          <div className="text-center text-slate-400 mt-10 text-sm px-4">
+            <History size={32} className="mx-auto mb-3 text-slate-300" />
+            <p>No saved versions yet.</p>
+            <p className="text-xs mt-2">Snapshots are taken before AI generation, on renames and role changes, and after you pause typing.</p>
+          </div>
+        )}
+
+        {revisions.map(rev => {
+          const reason = REASON_LABELS[rev.reason];
+          return (
+            <button
+              key={rev.id}
+              onClick={() => setSelectedId(rev.id === selectedId ? null : rev.id)}
+              className={`w-full text-left p-3 rounded-xl text-sm border transition-all ${
+                rev.id === selectedId
+                  ? 'bg-blue-50/50 border-blue-100 shadow-sm'
+                  : 'border-transparent hover:bg-slate-50'
+              }`}
+            >
+              <div className="font-semibold text-slate-700">
+                {new Date(rev.createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+              </div>
+              <div className="flex items-center gap-2 mt-1">
+                <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-medium ${reason.className}`}>
+                  {reason.icon}
+                  {reason.label}
+                </span>
+                <span className="text-xs text-slate-400 truncate">{rev.title || 'Untitled Note'}</span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Diff View */}
+      {selected && (
+        <>
+          <div className="px-4 py-2 flex items-center justify-between text-xs text-slate-500 bg-white">
+            <span>
+              <del className="bg-red-100 text-red-700 px-1">removed</del> / <ins className="bg-green-100 text-green-800 no-underline px-1">added</ins> since this version
+            </span>
+          </div>
+          <div
+            className="flex-1 overflow-y-auto px-4 pb-4 text-sm leading-relaxed text-slate-700 break-words"
+            dangerouslySetInnerHTML={{ __html: diffHtml || '<span class="text-slate-400">No differences.</span>' }}
+          />
+          <div className="p-4 border-t border-slate-100 bg-white">
+            <button
+              onClick={handleRestore}
+              className="w-full py-2.5 px-4 bg-slate-900 hover:bg-slate-800 text-white rounded-xl font-medium flex items-center justify-center gap-2 transition-all shadow-sm active:scale-95 text-sm"
+            >
+              <RotateCcw size={16} />
+              Restore this version
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
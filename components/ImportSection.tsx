@@ -0,0 +1,176 @@
+import React, { useRef, useState } from 'react';
+import { FolderInput, FileArchive, FileText, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { useNoteStore } from '../store/noteStore';
+import { readImportFiles, NoteImport } from '../services/importSource';
+import { importMarkdownFiles } from '../services/markdownImport';
+import { importOneNoteFiles } from '../services/oneNoteImport';
+import { importEnexFiles } from '../services/enexImport';
+import { importHtmlNoteFiles } from '../services/htmlNoteExport';
+import { generateId } from '../utils/constants';
+
+type ImportFormat = 'markdown' | 'onenote' | 'evernote' | 'shared';
+
+// Formats with `files` are picked as single files, the others as a folder or a ZIP of one
+const FORMATS: Record<ImportFormat, { label: string; hint: string; empty: string; files?: { accept: string; label: string } }> = {
+  markdown: {
+    label: 'Markdown',
+    hint: "Every .md file becomes a note. Front matter title, tags and date are kept, and linked images are stored with the note.",
+    empty: "No Markdown (.md) files found."
+  },
+  onenote: {
+    label: 'OneNote',
+    hint: "Pick the folder (or ZIP) OneNote exported as HTML. Every page becomes a note; its images and attached files come along.",
+    empty: "No HTML pages found."
+  },
+  evernote: {
+    label: 'Evernote',
+    hint: "Pick one or more .enex files exported from Evernote. Creation dates, tags, images and attachments are kept.",
+    empty: "The export contains no notes.",
+    files: { accept: '.enex', label: 'Evernote export (.enex)' }
+  },
+  shared: {
+    label: 'Shared note',
+    hint: "Pick .html files exported from Smart Note (Export → Web page). Attachments and chat come back with the note.",
+    empty: "No notes found.",
+    files: { accept: '.html,.htm', label: 'Shared note (.html)' }
+  }
+};
+
+const convert = async (format: ImportFormat, files: File[]): Promise<NoteImport> => {
+  if (format === 'evernote') return importEnexFiles(files);
+  if (format === 'shared') return importHtmlNoteFiles(files);
+  const importFiles = await readImportFiles(files);
+  return format === 'markdown' ? importMarkdownFiles(importFiles) : importOneNoteFiles(importFiles);
+};
+
+// Brings in notes written elsewhere: Markdown folders (e.g. an Obsidian vault), OneNote HTML exports,
+// Evernote .enex files and notes shared as .html by another Smart Note user
+export const ImportSection: React.FC = () => {
+  const { notes, trashedNotes, importNotes } = useNoteStore();
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [format, setFormat] = useState<ImportFormat>('markdown');
+  const [isBusy, setIsBusy] = useState(false);
+  const [pendingImport, setPendingImport] = useState<NoteImport | null>(null);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const result = await convert(format, files);
+      if (result.notes.length === 0 && result.failed.length === 0) {
+        setMessage({ type: 'error', text: FORMATS[format].empty });
+      } else {
+        setPendingImport(result);
+      }
+    } catch (err: any) {
+      console.error(`${FORMATS[format].label} import failed`, err);
+      setMessage({ type: 'error', text: err?.message || String(err) });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pendingImport) return;
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      // A shared note may come back to the workspace it was exported from; import it as a copy
+      const existingIds = new Set([...notes, ...trashedNotes].map(n => n.id));
+      const incoming = pendingImport.notes.map(n => existingIds.has(n.id) ? { ...n, id: generateId() } : n);
+      const { added } = await importNotes(incoming, 'merge');
+      setMessage({ type: 'success', text: `Imported ${added} note${added === 1 ? '' : 's'}.` });
+    } catch (err: any) {
+      console.error(`${FORMATS[format].label} import failed`, err);
+      setMessage({ type: 'error', text: err?.message || String(err) });
+    } finally {
+      setIsBusy(false);
+      setPendingImport(null);
+    }
+  };
+
+  const tabClass = (active: boolean) => `flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${active ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`;
+  const buttonClass = "flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-600 hover:text-blue-600 hover:border-blue-300 rounded-lg text-sm font-medium transition-all shadow-sm disabled:opacity-50";
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-slate-700 mb-1">Import Notes</label>
+      <div className="flex gap-1 p-1 bg-slate-100 rounded-lg mb-2">
+        {(Object.keys(FORMATS) as ImportFormat[]).map(key => (
+          <button key={key} onClick={() => { setFormat(key); setPendingImport(null); setMessage(null); }} disabled={isBusy} className={tabClass(format === key)}>
+            {FORMATS[key].label}
+          </button>
+        ))}
+      </div>
+      {FORMATS[format].files ? (
+        <button onClick={() => fileInputRef.current?.click()} disabled={isBusy} className={`w-full ${buttonClass}`}>
+          {isBusy ? <Loader2 size={14} className="animate-spin" /> : <FileText size={14} />}
+          {FORMATS[format].files!.label}
+        </button>
+      ) : (
+        <div className="flex gap-2">
+          <button onClick={() => folderInputRef.current?.click()} disabled={isBusy} className={buttonClass}>
+            {isBusy ? <Loader2 size={14} className="animate-spin" /> : <FolderInput size={14} />}
+            Folder
+          </button>
+          <button onClick={() => zipInputRef.current?.click()} disabled={isBusy} className={buttonClass}>
+            <FileArchive size={14} />
+            ZIP
+          </button>
+        </div>
+      )}
+      <input type="file" ref={el => { folderInputRef.current = el; el?.setAttribute('webkitdirectory', ''); }} className="hidden" multiple onChange={handleFiles} />
+      <input type="file" ref={zipInputRef} className="hidden" accept=".zip" onChange={handleFiles} />
+      <input type="file" ref={fileInputRef} className="hidden" accept={FORMATS[format].files?.accept} multiple onChange={handleFiles} />
+      <p className="text-xs text-slate-500 mt-2">
+        {FORMATS[format].hint}
+      </p>
+
+      {pendingImport && (
+        <div className="mt-3 p-3 rounded-lg border border-blue-100 bg-blue-50/50 text-sm">
+          <div className="text-slate-700">
+            Found <b>{pendingImport.notes.length}</b> note{pendingImport.notes.length === 1 ? '' : 's'} to import.
+          </div>
+          {pendingImport.failed.length > 0 && (
+            <>
+              <div className="mt-2 text-xs font-medium text-red-600">Problems ({pendingImport.failed.length})</div>
+              <ul className="text-xs text-red-600 list-disc pl-4 max-h-24 overflow-y-auto">
+                {pendingImport.failed.map((issue, i) => <li key={i}><span className="font-mono">{issue.path}</span>: {issue.reason}</li>)}
+              </ul>
+            </>
+          )}
+          {pendingImport.skipped.length > 0 && (
+            <>
+              <div className="mt-2 text-xs font-medium text-slate-500">Skipped ({pendingImport.skipped.length})</div>
+              <ul className="text-xs text-slate-500 list-disc pl-4 max-h-24 overflow-y-auto">
+                {pendingImport.skipped.map((issue, i) => <li key={i}><span className="font-mono">{issue.path}</span>: {issue.reason}</li>)}
+              </ul>
+            </>
+          )}
+          <div className="flex gap-2 mt-3">
+            <button onClick={handleImport} disabled={isBusy || pendingImport.notes.length === 0} className="px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-xs font-medium transition-colors shadow-sm disabled:opacity-50">
+              Import
+            </button>
+            <button onClick={() => setPendingImport(null)} disabled={isBusy} className="px-3 py-1.5 text-slate-600 hover:bg-slate-100 rounded-lg text-xs font-medium transition-colors ml-auto">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div className={`mt-2 flex items-start gap-1.5 text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>
+          {message.type === 'error' ? <AlertCircle size={14} className="flex-shrink-0" /> : <CheckCircle2 size={14} className="flex-shrink-0" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+    </div>
+  );
+};
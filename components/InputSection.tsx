@@ -1,12 +1,20 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useMemo } from 'react';
 import { 
   X, Image as ImageIcon, Loader2, Sparkles, 
   Paperclip, File as FileIcon, Bold, Italic, Underline, 
   Save, Palette, Highlighter, ChevronDown,
-  Type, ALargeSmall, Link as LinkIcon, UserCog, MessageCircleQuestion, Music, FileText, FileSpreadsheet, Presentation
+  Type, ALargeSmall, Link as LinkIcon, UserCog, MessageCircleQuestion, Music, FileText, FileSpreadsheet, Presentation,
+  FileSymlink, CornerUpLeft
 } from 'lucide-react';
-import { ImagePreview, AppStatus, NoteRole } from '../types';
+import { ImagePreview, AppStatus, NoteRole, NoteSession } from '../types';
 import { AudioRecorder } from './AudioRecorder';
+import { TagEditor } from './TagEditor';
+import { storeInlineImage, hydrateInlineImages } from '../services/blobStore';
+import { dehydrateInlineImages } from '../utils/inlineImages';
+import { NOTE_LINK_ATTR, noteLinkHtml, hydrateNoteLinks } from '../utils/noteLinks';
+import { estimateStorage, exceedsQuota } from '../services/storageUsage';
+import { getAttachmentWarningMb } from '../utils/constants';
+import { formatBytes } from '../utils/format';
 
 interface InputSectionProps {
   title: string;
@@ -15,7 +23,10 @@ interface InputSectionProps {
   status: AppStatus;
   searchQuery?: string; // New prop for search highlighting
   role: NoteRole;
+  tags: string[];
+  allTags: string[]; // Every tag in the workspace, for autocomplete
   onChangeTitle: (title: string) => void;
+  onChangeTags: (tags: string[]) => void;
   onChangeText: (html: string) => void;
   onRoleChange: (role: NoteRole) => void;
   onAddFiles: (files: File[]) => void;
@@ -23,8 +34,13 @@ interface InputSectionProps {
   onGenerate: () => void;
   onSave: () => void;
   onChatSelection?: (text: string) => void; // New prop for chat with selection
+  linkableNotes: Pick<NoteSession, 'id' | 'title'>[]; // Targets for [[links]]
+  backlinks: Pick<NoteSession, 'id' | 'title'>[]; // Notes linking to this one
+  onOpenNote: (id: string) => void;
 }
 
+const MAX_LINK_SUGGESTIONS = 8;
+
 // Predefined colors for Text and Highlights
 const TEXT_COLORS = [
   { label: 'Default', value: 'inherit', class: 'bg-slate-900 border-slate-200' },
@@ -95,14 +111,20 @@ export const InputSection: React.FC<InputSectionProps> = ({
   status, 
   searchQuery,
   role,
+  tags,
+  allTags,
   onChangeTitle,
+  onChangeTags,
   onChangeText,
   onRoleChange,
   onAddFiles,
   onRemoveFile,
   onGenerate,
   onSave,
-  onChatSelection
+  onChatSelection,
+  linkableNotes,
+  backlinks,
+  onOpenNote
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const imageInsertRef = useRef<HTMLInputElement>(null);
@@ -125,10 +147,32 @@ export const InputSection: React.FC<InputSectionProps> = ({
   // State for Selection Popover
   const [selectionPopover, setSelectionPopover] = useState<{x: number, y: number, text: string} | null>(null);
 
+  // State for [[note link]] autocomplete
+  const [linkPopover, setLinkPopover] = useState<{x: number, y: number, query: string} | null>(null);
+  const [linkIndex, setLinkIndex] = useState(0);
+
+  const noteTitles = useMemo(() => new Map(linkableNotes.map(note => [note.id, note.title])), [linkableNotes]);
+  const hydrateEditor = (root: HTMLElement) => {
+    hydrateInlineImages(root);
+    hydrateNoteLinks(root, id => noteTitles.get(id));
+  };
+
   const removeHighlights = (html: string) => {
     return html.replace(/<span class="search-highlight [^"]*">(.*?)<\/span>/g, '$1');
   };
 
+  // Editor HTML as stored: no search highlights, no session-specific object URLs
+  const getStoredHtml = (html: string) => dehydrateInlineImages(removeHighlights(html));
+
+  // What the editor shows for `html`, minus object URLs: note links carry the current titles and
+  // the markup is serialized the way the editor would. Parsed in an inert document (nothing loads).
+  const getDisplayedHtml = (html: string) => {
+    const doc = document.implementation.createHTMLDocument('');
+    doc.body.innerHTML = dehydrateInlineImages(html);
+    hydrateNoteLinks(doc.body, id => noteTitles.get(id));
+    return doc.body.innerHTML;
+  };
+
   const applyHighlights = (html: string, query: string) => {
     if (!query || query.trim().length < 2) return html;
     
@@ -203,6 +247,7 @@ export const InputSection: React.FC<InputSectionProps> = ({
     if (editorRef.current) {
        const content = searchQuery ? applyHighlights(text, searchQuery) : text;
        editorRef.current.innerHTML = content;
+       hydrateEditor(editorRef.current);
        
        if (searchQuery) {
          setTimeout(() => {
@@ -218,7 +263,7 @@ export const InputSection: React.FC<InputSectionProps> = ({
   useEffect(() => {
     if (editorRef.current) {
         const currentEditorHtml = editorRef.current.innerHTML;
-        const currentClean = removeHighlights(currentEditorHtml);
+        const currentClean = getStoredHtml(currentEditorHtml);
         const incomingClean = removeHighlights(text);
 
         const isSearchUpdate = searchQuery !== undefined;
@@ -227,8 +272,11 @@ export const InputSection: React.FC<InputSectionProps> = ({
         if (textChanged || isSearchUpdate) {
             const newContent = searchQuery ? applyHighlights(incomingClean, searchQuery) : incomingClean;
             
-            if (editorRef.current.innerHTML !== newContent) {
+            // Compared without object URLs and with link titles applied, or every keystroke in a note
+            // with images or links would reset the editor and move the caret
+            if (getDisplayedHtml(editorRef.current.innerHTML) !== getDisplayedHtml(newContent)) {
                  editorRef.current.innerHTML = newContent;
+                 hydrateEditor(editorRef.current);
                  
                  if (searchQuery) {
                     setTimeout(() => {
@@ -297,10 +345,106 @@ export const InputSection: React.FC<InputSectionProps> = ({
   const handleInput = () => {
     if (editorRef.current) {
       const rawHtml = editorRef.current.innerHTML;
-      const cleanHtml = removeHighlights(rawHtml);
+      const cleanHtml = getStoredHtml(rawHtml);
       onChangeText(cleanHtml);
       checkFormats();
+      updateLinkPopover();
+    }
+  };
+
+  // The "[[query" (or a finished "[[title]]") typed right before the caret, if any
+  const findLinkTrigger = () => {
+    const selection = window.getSelection();
+    if (!selection || !selection.isCollapsed || selection.rangeCount === 0) return null;
+    const node = selection.anchorNode;
+    if (!node || node.nodeType !== Node.TEXT_NODE || !editorRef.current?.contains(node)) return null;
+    const before = (node.textContent || '').slice(0, selection.anchorOffset);
+    const match = before.match(/\[\[([^[\]\n]{0,100})(\]\])?$/);
+    if (!match) return null;
+    return { node, start: selection.anchorOffset - match[0].length, end: selection.anchorOffset, query: match[1], isClosed: !!match[2] };
+  };
+
+  const linkSuggestions = (query: string) => {
+    const q = query.trim().toLowerCase();
+    const titleOf = (note: Pick<NoteSession, 'title'>) => (note.title || 'Untitled Note').toLowerCase();
+    return linkableNotes
+      .filter(note => titleOf(note).includes(q))
+      .sort((a, b) => Number(titleOf(b).startsWith(q)) - Number(titleOf(a).startsWith(q)))
+      .slice(0, MAX_LINK_SUGGESTIONS);
+  };
+
+  const updateLinkPopover = () => {
+    const trigger = findLinkTrigger();
+    if (!trigger) {
+      setLinkPopover(null);
+      return;
     }
+    if (trigger.isClosed) {
+      // "[[Exact title]]" typed out in full becomes a link right away
+      const target = linkableNotes.find(note => note.title.trim().toLowerCase() === trigger.query.trim().toLowerCase());
+      if (target) insertNoteLink(target);
+      else setLinkPopover(null);
+      return;
+    }
+    const range = window.getSelection()!.getRangeAt(0);
+    const rect = range.getClientRects()[0] || (trigger.node.parentElement as HTMLElement).getBoundingClientRect();
+    setLinkPopover({ x: rect.left, y: rect.bottom + 4, query: trigger.query });
+    setLinkIndex(0);
+  };
+
+  // Replaces the "[[query" before the caret with a link to the note
+  const insertNoteLink = (note: Pick<NoteSession, 'id' | 'title'>) => {
+    const trigger = findLinkTrigger();
+    const selection = window.getSelection();
+    setLinkPopover(null);
+    if (!trigger || !selection) return;
+    const range = document.createRange();
+    range.setStart(trigger.node, trigger.start);
+    range.setEnd(trigger.node, trigger.end);
+    selection.removeAllRanges();
+    selection.addRange(range);
+    document.execCommand('insertHTML', false, `${noteLinkHtml(note.id, note.title)}&nbsp;`);
+    handleInput();
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const suggestions = linkPopover ? linkSuggestions(linkPopover.query) : [];
+    if (linkPopover && suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : suggestions.length - 1;
+        setLinkIndex((linkIndex + step) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertNoteLink(suggestions[Math.min(linkIndex, suggestions.length - 1)]);
+        return;
+      }
+    }
+    if (linkPopover && e.key === 'Escape') {
+      setLinkPopover(null);
+      return;
+    }
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      document.execCommand('insertHTML', false, '&nbsp;&nbsp;&nbsp;&nbsp;');
+    }
+  };
+
+  const handleEditorClick = (e: React.MouseEvent) => {
+    const link = (e.target as HTMLElement).closest(`a[${NOTE_LINK_ATTR}]`);
+    if (link) {
+      e.preventDefault();
+      onOpenNote(link.getAttribute(NOTE_LINK_ATTR)!);
+    }
+  };
+
+  // Toolbar button: starts a link the same way as typing "[["
+  const startNoteLink = () => {
+    editorRef.current?.focus();
+    document.execCommand('insertText', false, '[[');
+    handleInput();
   };
 
   const checkFormats = () => {
@@ -317,10 +461,11 @@ export const InputSection: React.FC<InputSectionProps> = ({
     checkFormats();
   };
 
-  const insertImageAtCursor = (base64: string) => {
+  const insertImageAtCursor = async (file: Blob) => {
     if (editorRef.current) {
+      const html = await storeInlineImage(file);
       editorRef.current.focus();
-      document.execCommand('insertImage', false, base64);
+      document.execCommand('insertHTML', false, html);
       handleInput();
     }
   };
@@ -414,8 +559,7 @@ export const InputSection: React.FC<InputSectionProps> = ({
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       const file = e.target.files[0];
-      const base64 = await fileToBase64(file);
-      insertImageAtCursor(base64);
+      await insertImageAtCursor(file);
     }
     if (imageInsertRef.current) imageInsertRef.current.value = '';
   };
@@ -428,8 +572,7 @@ export const InputSection: React.FC<InputSectionProps> = ({
       e.preventDefault();
       const file = imageItem.getAsFile();
       if (file) {
-        const base64 = await fileToBase64(file);
-        insertImageAtCursor(base64);
+        await insertImageAtCursor(file);
       }
       return;
     }
@@ -453,9 +596,32 @@ export const InputSection: React.FC<InputSectionProps> = ({
     }
   };
 
-  const handleAttachmentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Asks before adding files above the configured size or beyond the remaining storage.
+  // Declined files are dropped, the rest are returned.
+  const confirmLargeFiles = async (files: File[]): Promise<File[]> => {
+    const warningMb = getAttachmentWarningMb();
+    const large = warningMb > 0 ? files.filter(f => f.size > warningMb * 1024 * 1024) : [];
+    const totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+    const noSpace = exceedsQuota(await estimateStorage(), totalBytes);
+    if (large.length === 0 && !noSpace) return files;
+
+    const lines = large.map(f => `• ${f.name} (${formatBytes(f.size)})`);
+    const message = noSpace
+      ? `These files (${formatBytes(totalBytes)}) may not fit into the remaining storage, and saving could fail.\n\nAdd them anyway?`
+      : `The following attachments are larger than ${warningMb} MB:\n${lines.join('\n')}\n\nLarge attachments use up storage quickly. Add them anyway?`;
+    if (confirm(message)) return files;
+    return noSpace ? [] : files.filter(f => !large.includes(f));
+  };
+
+  const handleRecordingComplete = async (file: File) => {
+    const accepted = await confirmLargeFiles([file]);
+    if (accepted.length > 0) onAddFiles(accepted);
+  };
+
+  const handleAttachmentChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       const files = Array.from(e.target.files) as File[];
+      if (fileInputRef.current) fileInputRef.current.value = '';
       
       // Validate extensions
       const validFiles = files.filter(f => {
@@ -467,9 +633,10 @@ export const InputSection: React.FC<InputSectionProps> = ({
          alert("Some files have unsupported formats and were skipped.");
       }
 
-      if (validFiles.length > 0) {
-        onAddFiles(validFiles);
-        validFiles.forEach(file => {
+      const acceptedFiles = validFiles.length > 0 ? await confirmLargeFiles(validFiles) : [];
+      if (acceptedFiles.length > 0) {
+        onAddFiles(acceptedFiles);
+        acceptedFiles.forEach(file => {
           // Insert placeholders for Docs, PDFs, Text files
           // Skip for images (handled separately/inline) and Audio (handled via Preview only usually, but we can add chips too if desired. Let's stick to Preview for Audio as requested in previous turns)
           const ext = file.name.split('.').pop()?.toLowerCase();
@@ -543,6 +710,10 @@ export const InputSection: React.FC<InputSectionProps> = ({
         </button>
       </div>
 
+      <div className="px-6 pb-2 relative z-30">
+        <TagEditor tags={tags} allTags={allTags} onChange={onChangeTags} disabled={isProcessing} />
+      </div>
+
       <div className="px-6 py-2 border-b border-slate-100 flex items-center gap-1 flex-wrap relative z-20">
         <button onClick={() => execCmd('bold')} className={`p-1.5 rounded hover:bg-slate-100 transition-colors ${activeFormats.includes('bold') ? 'bg-slate-200 text-blue-600' : 'text-slate-500'}`} title="Bold"><Bold size={18} /></button>
         <button onClick={() => execCmd('italic')} className={`p-1.5 rounded hover:bg-slate-100 transition-colors ${activeFormats.includes('italic') ? 'bg-slate-200 text-blue-600' : 'text-slate-500'}`} title="Italic"><Italic size={18} /></button>
@@ -602,6 +773,7 @@ export const InputSection: React.FC<InputSectionProps> = ({
         <div className="w-px h-5 bg-slate-200 mx-2" />
         
         <button onMouseDown={(e) => { e.preventDefault(); insertLink(); }} className="p-1.5 rounded hover:bg-slate-100 text-slate-500 transition-colors" title="Insert Link"><LinkIcon size={18} /></button>
+        <button onMouseDown={(e) => { e.preventDefault(); startNoteLink(); }} className="p-1.5 rounded hover:bg-slate-100 text-slate-500 transition-colors" title="Link to Note ([[)"><FileSymlink size={18} /></button>
 
         <button onClick={() => imageInsertRef.current?.click()} className="p-1.5 rounded hover:bg-slate-100 text-slate-500 transition-colors" title="Insert Image"><ImageIcon size={18} /></button>
         <input type="file" ref={imageInsertRef} className="hidden" accept="image/*" onChange={handleImageUpload} />
@@ -631,12 +803,9 @@ export const InputSection: React.FC<InputSectionProps> = ({
             '--tw-prose-td-borders': '#e2e8f0',
           } as React.CSSProperties}
           onInput={handleInput}
-          onKeyDown={(e) => {
-            if (e.key === 'Tab') {
-              e.preventDefault();
-              document.execCommand('insertHTML', false, '&nbsp;&nbsp;&nbsp;&nbsp;');
-            }
-          }}
+          onKeyDown={handleEditorKeyDown}
+          onClick={handleEditorClick}
+          onBlur={() => setLinkPopover(null)}
           onPaste={handlePaste}
           onMouseUp={checkFormats}
           onKeyUp={checkFormats}
@@ -649,6 +818,24 @@ export const InputSection: React.FC<InputSectionProps> = ({
       </div>
 
       <div className="p-4 border-t border-slate-100 bg-slate-50 flex flex-col gap-4 z-10">
+        {backlinks.length > 0 && (
+          <div className="flex items-center flex-wrap gap-1.5 text-xs">
+            <span className="flex items-center gap-1 font-medium text-slate-500 mr-1">
+              <CornerUpLeft size={14} />
+              Linked from
+            </span>
+            {backlinks.map(note => (
+              <button
+                key={note.id}
+                onClick={() => onOpenNote(note.id)}
+                className="px-2 py-1 bg-white border border-slate-200 rounded-lg text-indigo-600 hover:border-indigo-300 hover:bg-indigo-50 transition-colors max-w-[220px] truncate"
+              >
+                {note.title || 'Untitled Note'}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Attachments List */}
         {previews.length > 0 && (
           <div className="flex flex-wrap gap-3">
@@ -718,7 +905,7 @@ export const InputSection: React.FC<InputSectionProps> = ({
             />
             
             <AudioRecorder 
-               onRecordingComplete={(file) => onAddFiles([file])} 
+               onRecordingComplete={handleRecordingComplete}
                disabled={isProcessing}
             />
 
@@ -794,6 +981,26 @@ export const InputSection: React.FC<InputSectionProps> = ({
         </div>
       )}
 
+      {linkPopover && linkSuggestions(linkPopover.query).length > 0 && (
+        <div
+          className="fixed z-50 bg-white border border-slate-200 shadow-xl rounded-lg p-1 w-64 animate-fade-in"
+          style={{ left: linkPopover.x, top: linkPopover.y }}
+        >
+          <div className="px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-400">Link to note</div>
+          {linkSuggestions(linkPopover.query).map((note, i) => (
+            <button
+              key={note.id}
+              // Keep the editor focused so the caret stays after the "[["
+              onMouseDown={(e) => { e.preventDefault(); insertNoteLink(note); }}
+              className={`w-full flex items-center gap-2 text-left px-2 py-1.5 text-sm rounded-md ${i === linkIndex ? 'bg-indigo-50 text-indigo-700' : 'text-slate-700 hover:bg-slate-50'}`}
+            >
+              <FileText size={14} className="flex-shrink-0 text-slate-400" />
+              <span className="truncate">{note.title || 'Untitled Note'}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
       <div onMouseDown={(e) => handleMouseDownResize(e, 'left')} className="absolute left-0 top-0 bottom-0 w-4 cursor-ew-resize flex items-center justify-center hover:bg-slate-50 transition-colors z-30 group" style={{ transform: 'translateX(-50%)' }}>
         <div className={`w-1 h-12 rounded-full bg-slate-200 group-hover:bg-blue-400 transition-colors ${resizingSide === 'left' ? 'bg-blue-500' : ''}`} />
       </div>
@@ -803,12 +1010,3 @@ export const InputSection: React.FC<InputSectionProps> = ({
     </div>
   );
 };
-
-function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = error => reject(error);
-  });
-}
\ No newline at end of file
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, ChevronDown, Settings2 } from 'lucide-react';
+import { useNoteStore } from '../store/noteStore';
+import { NoteTemplate } from '../types';
+import { BUILT_IN_TEMPLATES } from '../utils/templates';
+import { ROLE_LABELS } from '../services/noteDocument';
+
+// "New Note" with a menu next to it for starting from a template
+export const NewNoteButton: React.FC = () => {
+  const { addNote, customTemplates, setShowTemplateManager } = useNoteStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!(event.target as HTMLElement).closest('.new-note-menu-trigger')) setIsOpen(false);
+    };
+    document.addEventListener('click', handleClickOutside);
+    return () => document.removeEventListener('click', handleClickOutside);
+  }, []);
+
+  const handlePick = (template: NoteTemplate) => {
+    setIsOpen(false);
+    addNote(template);
+  };
+
+  const renderItem = (template: NoteTemplate) => (
+    <button
+      key={template.id}
+      onClick={() => handlePick(template)}
+      className="w-full flex flex-col text-left px-3 py-2 rounded-md hover:bg-slate-50"
+    >
+      <span className="text-sm text-slate-700 truncate">{template.name || 'Untitled template'}</span>
+      <span className="text-[11px] text-slate-400">{ROLE_LABELS[template.role]}</span>
+    </button>
+  );
+
+  return (
+    <div className="relative new-note-menu-trigger flex w-full shadow-sm rounded-xl">
+      <button
+        onClick={() => addNote()}
+        className="flex-1 py-3 px-4 bg-slate-900 hover:bg-slate-800 text-white rounded-l-xl font-medium flex items-center justify-center gap-2 transition-all active:scale-95 group"
+      >
+        <Plus size={20} className="group-hover:rotate-90 transition-transform duration-300" />
+        New Note
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-3 text-white rounded-r-xl border-l border-slate-700 transition-colors ${isOpen ? 'bg-slate-700' : 'bg-slate-900 hover:bg-slate-800'}`}
+        title="New Note from Template"
+      >
+        <ChevronDown size={18} />
+      </button>
+      {isOpen && (
+        <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-slate-200 shadow-xl rounded-lg p-1 animate-fade-in z-50 max-h-96 overflow-y-auto">
+          <div className="px-3 pt-1.5 pb-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400">Templates</div>
+          {BUILT_IN_TEMPLATES.map(renderItem)}
+          {customTemplates.length > 0 && (
+            <>
+              <div className="mx-2 my-1 border-t border-slate-100" />
+              {customTemplates.map(renderItem)}
+            </>
+          )}
+          <div className="mx-2 my-1 border-t border-slate-100" />
+          <button
+            onClick={() => { setIsOpen(false); setShowTemplateManager(true); }}
+            className="w-full flex items-center gap-2 text-left px-3 py-2 text-sm text-slate-600 hover:bg-slate-50 rounded-md"
+          >
+            <Settings2 size={15} className="text-slate-400" />
+            Manage templates…
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React from 'react';
 import ReactMarkdown from 'react-markdown';
 import { Copy, Check, Download, RefreshCw } from 'lucide-react';
 import { NoteResult } from '../types';
+import { downloadBlob, todayStamp } from '../utils/download';
 
 interface NoteDisplayProps {
   result: NoteResult | null;
@@ -21,14 +22,7 @@ export const NoteDisplay: React.FC<NoteDisplayProps> = ({ result, onReset }) =>
 
   const handleDownload = () => {
     const blob = new Blob([result.markdown], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `smart-note-${new Date().toISOString().slice(0,10)}.md`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `smart-note-${todayStamp()}.md`);
   };
 
   return (
@@ -1,20 +1,42 @@
 import React, { useState, useEffect } from 'react';
 import { Settings } from 'lucide-react';
 import { useNoteStore } from '../store/noteStore';
+import { TRASH_RETENTION_KEY, getTrashRetentionDays, ATTACHMENT_WARNING_KEY, getAttachmentWarningMb } from '../utils/constants';
+import { BackupSection } from './BackupSection';
+import { StorageSection } from './StorageSection';
+import { VaultSection } from './VaultSection';
+import { StorageLocationSection } from './StorageLocationSection';
+import { SyncSection } from './SyncSection';
+import { ImportSection } from './ImportSection';
 
 export const SettingsModal: React.FC = () => {
-  const { showSettings, setShowSettings } = useNoteStore();
+  const { showSettings, setShowSettings, purgeExpiredTrash } = useNoteStore();
   const [apiKeyInput, setApiKeyInput] = useState('');
+  const [retentionInput, setRetentionInput] = useState('');
+  const [attachmentWarningInput, setAttachmentWarningInput] = useState('');
 
   useEffect(() => {
     if (showSettings) {
       const storedKey = localStorage.getItem('gemini_api_key');
       if (storedKey) setApiKeyInput(storedKey);
+      setRetentionInput(String(getTrashRetentionDays()));
+      setAttachmentWarningInput(String(getAttachmentWarningMb()));
     }
   }, [showSettings]);
 
   const handleSave = () => {
     localStorage.setItem('gemini_api_key', apiKeyInput.trim());
+
+    const retentionDays = parseInt(retentionInput, 10);
+    if (Number.isFinite(retentionDays) && retentionDays >= 0) {
+      localStorage.setItem(TRASH_RETENTION_KEY, String(retentionDays));
+      purgeExpiredTrash();
+    }
+
+    const warningMb = parseFloat(attachmentWarningInput);
+    if (Number.isFinite(warningMb) && warningMb >= 0) {
+      localStorage.setItem(ATTACHMENT_WARNING_KEY, String(warningMb));
+    }
     setShowSettings(false);
   };
 
@@ -22,7 +44,7 @@ export const SettingsModal: React.FC = () => {
 
   return (
     <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in">
-      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 animate-in zoom-in-95">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 animate-in zoom-in-95 max-h-[90vh] overflow-y-auto">
          <h3 className="text-xl font-bold text-slate-900 mb-4 flex items-center gap-2">
            <Settings className="text-blue-600" />
            Settings
@@ -44,6 +66,46 @@ export const SettingsModal: React.FC = () => {
            </p>
          </div>
 
+         <div className="mb-4">
+           <label className="block text-sm font-medium text-slate-700 mb-1">Keep deleted notes in Trash for (days)</label>
+           <input 
+             type="number" 
+             min={0}
+             value={retentionInput}
+             onChange={(e) => setRetentionInput(e.target.value)}
+             className="w-32 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+           />
+           <p className="text-xs text-slate-500 mt-2">
+             Older notes in the Trash are permanently deleted. Use 0 to keep them until you empty the Trash.
+           </p>
+         </div>
+
+         <div className="mb-4">
+           <label className="block text-sm font-medium text-slate-700 mb-1">Warn before adding attachments larger than (MB)</label>
+           <input 
+             type="number" 
+             min={0}
+             value={attachmentWarningInput}
+             onChange={(e) => setAttachmentWarningInput(e.target.value)}
+             className="w-32 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+           />
+           <p className="text-xs text-slate-500 mt-2">
+             Use 0 to only warn when an attachment would not fit into the remaining storage.
+           </p>
+         </div>
+
+         <StorageLocationSection />
+
+         <SyncSection />
+
+         <StorageSection />
+
+         <VaultSection />
+
+         <ImportSection />
+
+         <BackupSection />
+
          <div className="flex justify-end gap-3">
            <button 
              onClick={() => setShowSettings(false)}
@@ -1,9 +1,37 @@
 import React, { useRef, useState, useCallback, useEffect } from 'react';
 import { 
-  BrainCircuit, Plus, FileText, X, Loader2, CheckCircle2, AlertCircle, 
-  Trash2, Search, Copy, Settings, CalendarClock 
+  BrainCircuit, FileText, X, Loader2, CheckCircle2, AlertCircle, 
+  Trash2, Search, Copy, Settings, CalendarClock, ArchiveRestore, ArrowLeft, FileDown,
+  FolderClosed, FolderOpen, FolderPlus, ChevronRight, ChevronDown, Pencil, Hash, Merge, CalendarDays, CalendarCheck,
+  Pin, PinOff, Star, ArrowUpDown
 } from 'lucide-react';
 import { useNoteStore } from '../store/noteStore';
+import { NoteSession, Folder } from '../types';
+import { getTrashRetentionDays } from '../utils/constants';
+import { childFolders, folderPath, folderSubtreeIds } from '../utils/folders';
+import { countTags, findTag, matchesTagFilter, normalizeTag } from '../utils/tags';
+import { formatNoteDate } from '../utils/dates';
+import { NOTE_SORT_LABELS, NoteSortMode, sortNotes } from '../utils/sorting';
+import { exportNotesToPdf } from '../services/pdfExport';
+import { NewNoteButton } from './NewNoteButton';
+import { CalendarView } from './CalendarView';
+
+// Drag payloads: a JSON list of note IDs, or one folder ID
+const NOTE_DRAG_TYPE = 'application/x-smart-note-ids';
+const FOLDER_DRAG_TYPE = 'application/x-smart-note-folder';
+// Drop target ID for "out of every folder"
+const ROOT_DROP_TARGET = '';
+
+const COLLAPSED_FOLDERS_KEY = 'collapsed_folders';
+
+const loadCollapsedFolders = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(COLLAPSED_FOLDERS_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
 
 interface SidebarProps {
   onResizeStart?: () => void;
@@ -11,17 +39,34 @@ interface SidebarProps {
 
 export const Sidebar: React.FC<SidebarProps> = () => {
   const { 
-    notes, activeNoteId, isSidebarOpen, searchQuery, saveStatus,
-    setSidebarOpen, setActiveNoteId, setSearchQuery, setShowSettings,
-    addNote, duplicateNote, setDeleteTargetId, generateWeeklySummary
+    notes, trashedNotes, folders, activeFolderId, sidebarView, activeNoteId, isSidebarOpen, searchQuery, saveStatus, saveError,
+    tagFilter, tagFilterMode, toggleTagFilter, clearTagFilter, setTagFilterMode, renameTag, mergeTags,
+    showFavoritesOnly, setShowFavoritesOnly, sortMode, setSortMode, togglePinned, toggleFavorite,
+    setSidebarOpen, setActiveNoteId, setSearchQuery, setShowSettings, setSidebarView, setActiveFolderId,
+    duplicateNote, setDeleteTargetId, generateWeeklySummary, openDailyNote,
+    restoreNote, purgeNote, emptyTrash,
+    createFolder, renameFolder, deleteFolder, moveFolder, moveNotesToFolder
   } = useNoteStore();
 
   const [sidebarWidth, setSidebarWidth] = useState(288);
   const [isResizing, setIsResizing] = useState(false);
+  // Notes picked with Ctrl/Cmd-click for exporting together
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [collapsedIds, setCollapsedIds] = useState<string[]>(loadCollapsedFolders);
+  const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [isTagListOpen, setIsTagListOpen] = useState(true);
   const sidebarRef = useRef<HTMLDivElement>(null);
 
+  const isTrashView = sidebarView === 'trash';
+  const isCalendarView = sidebarView === 'calendar';
+
   // Filter notes
-  const filteredNotes = notes.filter(note => {
+  const matchingNotes = (isTrashView ? trashedNotes : notes).filter(note => {
+    if (!isTrashView && !matchesTagFilter(note, tagFilter, tagFilterMode)) return false;
+    // The calendar shows every day's notes, favourite or not
+    if (!isTrashView && !isCalendarView && showFavoritesOnly && !note.favorite) return false;
     const query = searchQuery.toLowerCase().trim();
     if (!query) return true;
     
@@ -29,21 +74,320 @@ export const Sidebar: React.FC<SidebarProps> = () => {
     const title = (note.title || '').toLowerCase();
     const content = (note.inputText || '').toLowerCase();
     const generated = (note.result?.markdown || '').toLowerCase();
+    const tags = (note.tags || []).map(tag => `#${tag.toLowerCase()}`);
     
     return keywords.every(keyword => 
       title.includes(keyword) || 
       content.includes(keyword) || 
-      generated.includes(keyword)
+      generated.includes(keyword) ||
+      tags.some(tag => tag.includes(keyword))
     );
   });
+  const filteredNotes = isTrashView ? matchingNotes : sortNotes(matchingNotes, sortMode);
+
+  const tagCounts = countTags(notes);
+
+  const handleRenameTag = (tag: string) => {
+    const newName = normalizeTag(prompt(`Rename the tag "${tag}" on every note to:`, tag) || '');
+    if (!newName || newName === tag) return;
+    const existing = findTag(tagCounts.map(t => t.tag).filter(t => t !== tag), newName);
+    if (existing && !confirm(`The tag "${existing}" already exists. Merge "${tag}" into it?`)) return;
+    renameTag(tag, newName);
+  };
+
+  const handleMergeTags = () => {
+    const into = normalizeTag(prompt(`Merge ${tagFilter.map(t => `"${t}"`).join(', ')} into one tag named:`, tagFilter[0]) || '');
+    if (into) mergeTags(tagFilter, into);
+  };
+
+  const handlePurge = (id: string) => {
+    if (confirm("Permanently delete this note and its attachments? This cannot be undone.")) {
+      purgeNote(id);
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (confirm(`Permanently delete all ${trashedNotes.length} notes in the Trash? This cannot be undone.`)) {
+      emptyTrash();
+    }
+  };
+
+  const retentionDays = getTrashRetentionDays();
+
+  // --- Folder tree (not shown while searching) ---
+
+  const isTreeView = sidebarView === 'notes' && !searchQuery.trim() && tagFilter.length === 0 && !showFavoritesOnly;
+  const activeFolder = folders.find(f => f.id === activeFolderId);
+
+  // Notes filed in a folder that no longer exists (e.g. deleted on another device) are unfiled
+  const notesByFolder = new Map<string | null, NoteSession[]>();
+  const knownFolderIds = new Set(folders.map(f => f.id));
+  filteredNotes.forEach(note => {
+    const key = note.folderId && knownFolderIds.has(note.folderId) ? note.folderId : null;
+    notesByFolder.set(key, [...(notesByFolder.get(key) || []), note]);
+  });
+
+  const countNotesIn = (folderId: string) => {
+    const ids = folderSubtreeIds(folders, folderId);
+    return notes.filter(note => note.folderId && ids.has(note.folderId)).length;
+  };
+
+  const setCollapsed = (id: string, collapsed: boolean) => {
+    const next = collapsed ? [...collapsedIds.filter(x => x !== id), id] : collapsedIds.filter(x => x !== id);
+    setCollapsedIds(next);
+    localStorage.setItem(COLLAPSED_FOLDERS_KEY, JSON.stringify(next));
+  };
+
+  // New folders go into the selected folder and start out being renamed
+  const handleCreateFolder = () => {
+    const folder = createFolder('New folder', activeFolderId);
+    if (activeFolderId) setCollapsed(activeFolderId, false);
+    setEditingFolderId(folder.id);
+  };
+
+  const handleCreateSubfolder = (parentId: string) => {
+    const folder = createFolder('New folder', parentId);
+    setCollapsed(parentId, false);
+    setEditingFolderId(folder.id);
+  };
+
+  const commitRename = (id: string, name: string) => {
+    if (name.trim()) renameFolder(id, name.trim());
+    setEditingFolderId(null);
+  };
+
+  const handleDeleteFolder = (id: string) => {
+    const folder = folders.find(f => f.id === id);
+    if (!folder) return;
+    const parent = folders.find(f => f.id === folder.parentId);
+    if (confirm(`Delete the folder "${folder.name}"? Its notes and subfolders move to ${parent ? `"${parent.name}"` : 'the top level'}.`)) {
+      deleteFolder(id);
+    }
+  };
+
+  // Dragging one of the selected notes moves the whole selection
+  const handleNoteDragStart = (id: string, e: React.DragEvent) => {
+    const ids = selectedIds.includes(id) ? selectedIds : [id];
+    e.dataTransfer.setData(NOTE_DRAG_TYPE, JSON.stringify(ids));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleFolderDragStart = (id: string, e: React.DragEvent) => {
+    e.stopPropagation();
+    e.dataTransfer.setData(FOLDER_DRAG_TYPE, id);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  // Props that make an element accept dropped notes and folders; null is the top level
+  const dropTargetProps = (folderId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      const types = Array.from(e.dataTransfer.types);
+      if (!types.includes(NOTE_DRAG_TYPE) && !types.includes(FOLDER_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTargetId(folderId ?? ROOT_DROP_TARGET);
+    },
+    onDragLeave: () => setDropTargetId(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTargetId(null);
+      const noteIds = e.dataTransfer.getData(NOTE_DRAG_TYPE);
+      const draggedFolderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+      if (noteIds) {
+        moveNotesToFolder(JSON.parse(noteIds), folderId);
+        setSelectedIds([]);
+      } else if (draggedFolderId && draggedFolderId !== folderId) {
+        moveFolder(draggedFolderId, folderId);
+      }
+      if (folderId) setCollapsed(folderId, false);
+    }
+  });
 
-  const handleSwitchNote = (id: string) => {
+  const handleSwitchNote = (id: string, e: React.MouseEvent) => {
+    if (e.ctrlKey || e.metaKey) {
+      const current = selectedIds.length > 0 ? selectedIds : [activeNoteId].filter(Boolean) as string[];
+      setSelectedIds(current.includes(id) ? current.filter(x => x !== id) : [...current, id]);
+      return;
+    }
+    setSelectedIds([]);
     setActiveNoteId(id);
     if (window.innerWidth < 1024) {
       setSidebarOpen(false);
     }
   };
 
+  const handleExportSelection = async () => {
+    // Keep the order of the list rather than the order of clicking
+    const selected = notes.filter(note => selectedIds.includes(note.id));
+    setIsExporting(true);
+    try {
+      await exportNotesToPdf(selected);
+      setSelectedIds([]);
+    } catch (err: any) {
+      console.error("PDF export failed", err);
+      alert(`Export failed: ${err?.message || err}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderNote = (note: NoteSession, depth: number) => (
+    <div
+      key={note.id}
+      draggable
+      onDragStart={(e) => handleNoteDragStart(note.id, e)}
+      onDragEnd={() => setDropTargetId(null)}
+      onClick={(e) => handleSwitchNote(note.id, e)}
+      style={depth > 0 ? { marginLeft: depth * 12 } : undefined}
+      className={`group text-left p-3.5 rounded-xl text-sm flex items-start gap-3 transition-all duration-200 border cursor-pointer relative ${
+        selectedIds.includes(note.id)
+          ? 'bg-blue-50 text-blue-700 border-blue-300 shadow-sm'
+          : activeNoteId === note.id 
+          ? 'bg-blue-50/50 text-blue-700 border-blue-100 shadow-sm' 
+          : 'hover:bg-slate-50 text-slate-600 border-transparent'
+      }`}
+    >
+      {note.title === 'Weekly Summary' ? (
+          <CalendarClock size={18} className={`mt-0.5 flex-shrink-0 ${activeNoteId === note.id ? 'text-indigo-500' : 'text-indigo-400'}`} />
+      ) : note.dailyDate ? (
+          <CalendarDays size={18} className={`mt-0.5 flex-shrink-0 ${activeNoteId === note.id ? 'text-indigo-500' : 'text-indigo-400'}`} />
+      ) : (
+          <FileText size={18} className={`mt-0.5 flex-shrink-0 ${activeNoteId === note.id ? 'text-blue-500' : 'text-slate-400'}`} />
+      )}
+      
+      <div className="flex-1 min-w-0 pr-14">
+        <div className={`font-semibold truncate flex items-center gap-1 ${activeNoteId === note.id ? 'text-slate-900' : 'text-slate-700'}`}>
+          {note.pinned && <Pin size={12} className="flex-shrink-0 text-blue-500" />}
+          {note.favorite && <Star size={12} className="flex-shrink-0 text-amber-400" fill="currentColor" />}
+          <span className="truncate">{note.title || "Untitled Note"}</span>
+        </div>
+        <div className="text-xs text-slate-400 mt-1 truncate font-medium">
+          {formatNoteDate(note.createdAt)}
+          {note.tags?.length ? <span className="text-slate-400/80"> · {note.tags.map(tag => `#${tag}`).join(' ')}</span> : null}
+        </div>
+      </div>
+      
+      <div className={`
+          absolute right-2 top-1/2 -translate-y-1/2 grid grid-cols-2 gap-0.5
+          transition-opacity duration-200 z-20
+          ${activeNoteId === note.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}
+      `}>
+        <button
+          onClick={(e) => { e.stopPropagation(); togglePinned(note.id); }}
+          className={`p-1 rounded-lg hover:bg-blue-50 transition-colors bg-white/50 backdrop-blur-sm ${note.pinned ? 'text-blue-500' : 'text-slate-400 hover:text-blue-600'}`}
+          title={note.pinned ? "Unpin Note" : "Pin to Top"}
+        >
+          {note.pinned ? <PinOff size={13} /> : <Pin size={13} />}
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); toggleFavorite(note.id); }}
+          className={`p-1 rounded-lg hover:bg-amber-50 transition-colors bg-white/50 backdrop-blur-sm ${note.favorite ? 'text-amber-400' : 'text-slate-400 hover:text-amber-500'}`}
+          title={note.favorite ? "Remove from Favorites" : "Add to Favorites"}
+        >
+          <Star size={13} fill={note.favorite ? 'currentColor' : 'none'} />
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); duplicateNote(note.id); }}
+          className="p-1 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors bg-white/50 backdrop-blur-sm"
+          title="Duplicate Note"
+        >
+          <Copy size={13} />
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); setDeleteTargetId(note.id); }}
+          className="p-1 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors bg-white/50 backdrop-blur-sm"
+          title="Delete Note"
+        >
+          <Trash2 size={13} />
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderFolder = (folder: Folder, depth: number): React.ReactNode => {
+    const isCollapsed = collapsedIds.includes(folder.id);
+    const isSelected = activeFolderId === folder.id;
+    return (
+      <div key={folder.id}>
+        <div
+          draggable={editingFolderId !== folder.id}
+          onDragStart={(e) => handleFolderDragStart(folder.id, e)}
+          onDragEnd={() => setDropTargetId(null)}
+          {...dropTargetProps(folder.id)}
+          onClick={() => setActiveFolderId(isSelected ? null : folder.id)}
+          style={{ paddingLeft: 4 + depth * 12 }}
+          className={`group flex items-center gap-1.5 pr-2 py-2 rounded-lg text-sm cursor-pointer border transition-colors ${
+            dropTargetId === folder.id
+              ? 'bg-blue-50 border-blue-300'
+              : isSelected
+              ? 'bg-amber-50 border-amber-200 text-slate-900'
+              : 'hover:bg-slate-50 text-slate-600 border-transparent'
+          }`}
+          title={isSelected ? "New notes and the weekly summary go into this folder" : undefined}
+        >
+          <button
+            onClick={(e) => { e.stopPropagation(); setCollapsed(folder.id, !isCollapsed); }}
+            className="p-0.5 rounded text-slate-400 hover:text-slate-700"
+            title={isCollapsed ? "Expand" : "Collapse"}
+          >
+            {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+          </button>
+          {isCollapsed
+            ? <FolderClosed size={16} className="flex-shrink-0 text-amber-500" />
+            : <FolderOpen size={16} className="flex-shrink-0 text-amber-500" />}
+          {editingFolderId === folder.id ? (
+            <input
+              autoFocus
+              defaultValue={folder.name}
+              onFocus={(e) => e.target.select()}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={(e) => commitRename(folder.id, e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename(folder.id, e.currentTarget.value);
+                if (e.key === 'Escape') setEditingFolderId(null);
+              }}
+              className="flex-1 min-w-0 px-1.5 py-0.5 text-sm border border-blue-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            />
+          ) : (
+            <span className="flex-1 min-w-0 truncate font-medium">{folder.name}</span>
+          )}
+          <span className="text-[11px] text-slate-400 group-hover:hidden">{countNotesIn(folder.id) || ''}</span>
+          <div className="hidden group-hover:flex items-center gap-0.5">
+            <button
+              onClick={(e) => { e.stopPropagation(); handleCreateSubfolder(folder.id); }}
+              className="p-1 rounded-md text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+              title="New Subfolder"
+            >
+              <FolderPlus size={13} />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); setEditingFolderId(folder.id); }}
+              className="p-1 rounded-md text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+              title="Rename Folder"
+            >
+              <Pencil size={13} />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); handleDeleteFolder(folder.id); }}
+              className="p-1 rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+              title="Delete Folder"
+            >
+              <Trash2 size={13} />
+            </button>
+          </div>
+        </div>
+        {!isCollapsed && (
+          <div className="space-y-1 mt-1" {...dropTargetProps(folder.id)}>
+            {childFolders(folders, folder.id).map(child => renderFolder(child, depth + 1))}
+            {(notesByFolder.get(folder.id) || []).map(note => renderNote(note, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   // Resize Logic
   const startResizing = useCallback(() => setIsResizing(true), []);
   const stopResizing = useCallback(() => setIsResizing(false), []);
@@ -110,80 +454,269 @@ export const Sidebar: React.FC<SidebarProps> = () => {
             />
           </div>
 
-          <button 
-            onClick={addNote}
-            className="w-full py-3 px-4 bg-slate-900 hover:bg-slate-800 text-white rounded-xl font-medium flex items-center justify-center gap-2 transition-all shadow-sm active:scale-95 group"
-          >
-            <Plus size={20} className="group-hover:rotate-90 transition-transform duration-300" />
-            New Note
-          </button>
+          {isTrashView ? (
+            <div className="flex items-center justify-between gap-2">
+              <button 
+                onClick={() => setSidebarView('notes')}
+                className="flex items-center gap-1.5 text-sm font-medium text-slate-600 hover:text-blue-600 transition-colors"
+              >
+                <ArrowLeft size={16} />
+                Back to notes
+              </button>
+              <button 
+                onClick={handleEmptyTrash}
+                disabled={trashedNotes.length === 0}
+                className="text-xs font-medium px-2.5 py-1.5 rounded-lg text-red-500 hover:bg-red-50 disabled:text-slate-300 disabled:hover:bg-transparent transition-colors"
+              >
+                Empty Trash
+              </button>
+            </div>
+          ) : (
+            <>
+              <NewNoteButton />
 
-          <button 
-            onClick={() => generateWeeklySummary(false)}
-            className="w-full py-2.5 px-4 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border border-indigo-200 rounded-xl font-medium flex items-center justify-center gap-2 transition-all shadow-sm active:scale-95 text-sm"
-            title="Generate summary for this week's notes"
-          >
-            <CalendarClock size={16} />
-            Weekly Summary
-          </button>
+              <button 
+                onClick={() => generateWeeklySummary(false, activeFolderId)}
+                className="w-full py-2.5 px-4 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border border-indigo-200 rounded-xl font-medium flex items-center justify-center gap-2 transition-all shadow-sm active:scale-95 text-sm"
+                title={activeFolder
+                  ? `Generate summary for this week's notes in "${folderPath(folders, activeFolder.id)}"`
+                  : "Generate summary for this week's notes"}
+              >
+                <CalendarClock size={16} className="flex-shrink-0" />
+                <span className="truncate">Weekly Summary{activeFolder ? ` · ${activeFolder.name}` : ''}</span>
+              </button>
+
+              <div className="grid grid-cols-2 gap-2">
+                <button 
+                  onClick={() => openDailyNote()}
+                  className="py-2 px-3 bg-white border border-slate-200 text-slate-600 hover:text-indigo-600 hover:border-indigo-200 rounded-xl font-medium flex items-center justify-center gap-1.5 transition-all text-xs shadow-sm"
+                  title="Open today's daily note, creating it if needed"
+                >
+                  <CalendarCheck size={14} />
+                  Today
+                </button>
+                <button 
+                  onClick={() => setSidebarView(isCalendarView ? 'notes' : 'calendar')}
+                  className={`py-2 px-3 border rounded-xl font-medium flex items-center justify-center gap-1.5 transition-all text-xs shadow-sm ${
+                    isCalendarView
+                      ? 'bg-blue-50 border-blue-200 text-blue-600'
+                      : 'bg-white border-slate-200 text-slate-600 hover:text-blue-600 hover:border-blue-200'
+                  }`}
+                >
+                  <CalendarDays size={14} />
+                  Calendar
+                </button>
+              </div>
+            </>
+          )}
         </div>
 
-        <div className="flex-1 overflow-y-auto px-3 space-y-1 mt-2">
-          {filteredNotes.length === 0 && searchQuery && (
+        {!isTrashView && tagCounts.length > 0 && (
+          <div className="mx-5 mt-1">
+            <button
+              onClick={() => setIsTagListOpen(!isTagListOpen)}
+              className="w-full flex items-center gap-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400 hover:text-slate-600"
+            >
+              {isTagListOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              Tags
+              {tagFilter.length > 0 && <span className="ml-auto normal-case font-medium text-blue-600">{tagFilter.length} active</span>}
+            </button>
+            {isTagListOpen && (
+              <div className="mt-2 flex flex-wrap gap-1.5 max-h-32 overflow-y-auto">
+                {tagCounts.map(({ tag, count }) => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTagFilter(tag)}
+                    onDoubleClick={() => handleRenameTag(tag)}
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border transition-colors ${
+                      tagFilter.includes(tag)
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white border-slate-200 text-slate-600 hover:border-blue-300 hover:text-blue-600'
+                    }`}
+                    title="Click to filter, double-click to rename"
+                  >
+                    <Hash size={10} />
+                    {tag}
+                    <span className={tagFilter.includes(tag) ? 'text-blue-100' : 'text-slate-400'}>{count}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {tagFilter.length > 0 && (
+              <div className="mt-2 flex items-center gap-1.5 text-xs">
+                {tagFilter.length > 1 && (
+                  <div className="flex gap-0.5 p-0.5 bg-slate-100 rounded-md">
+                    {(['and', 'or'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setTagFilterMode(mode)}
+                        className={`px-2 py-0.5 rounded font-medium uppercase text-[10px] transition-colors ${tagFilterMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                        title={mode === 'and' ? "Notes with all of the selected tags" : "Notes with any of the selected tags"}
+                      >
+                        {mode}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {tagFilter.length === 1 ? (
+                  <button onClick={() => handleRenameTag(tagFilter[0])} className="flex items-center gap-1 px-1.5 py-0.5 rounded text-slate-500 hover:text-blue-600 hover:bg-blue-50" title="Rename this tag on every note">
+                    <Pencil size={11} />
+                    Rename
+                  </button>
+                ) : (
+                  <button onClick={handleMergeTags} className="flex items-center gap-1 px-1.5 py-0.5 rounded text-slate-500 hover:text-blue-600 hover:bg-blue-50" title="Replace the selected tags with one tag on every note">
+                    <Merge size={11} />
+                    Merge
+                  </button>
+                )}
+                <button onClick={clearTagFilter} className="ml-auto p-1 text-slate-400 hover:text-slate-700" title="Clear tag filter">
+                  <X size={12} />
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {!isTrashView && (
+          <div className="mx-5 mt-2 flex items-center justify-between gap-2 text-xs">
+            <button
+              onClick={() => setShowFavoritesOnly(!showFavoritesOnly)}
+              className={`flex items-center gap-1 -ml-2 px-2 py-1 rounded-md font-medium transition-colors ${showFavoritesOnly ? 'bg-amber-50 text-amber-600' : 'text-slate-500 hover:text-amber-600'}`}
+              title={showFavoritesOnly ? "Show all notes" : "Show favorite notes only"}
+            >
+              <Star size={12} fill={showFavoritesOnly ? 'currentColor' : 'none'} />
+              Favorites
+            </button>
+            <label className="flex items-center gap-1 text-slate-400" title="Sort notes by (pinned notes stay on top)">
+              <ArrowUpDown size={12} />
+              <select
+                value={sortMode}
+                onChange={(e) => setSortMode(e.target.value as NoteSortMode)}
+                className="bg-transparent font-medium text-slate-500 hover:text-blue-600 focus:outline-none cursor-pointer"
+              >
+                {(Object.keys(NOTE_SORT_LABELS) as NoteSortMode[]).map(mode => (
+                  <option key={mode} value={mode}>{NOTE_SORT_LABELS[mode]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+
+        {!isTrashView && selectedIds.length > 0 && (
+          <div className="mx-3 mt-2 px-3 py-2 bg-blue-50 border border-blue-100 rounded-xl flex items-center gap-2 text-xs">
+            <span className="font-medium text-blue-700 flex-1">{selectedIds.length} selected</span>
+            <button
+              onClick={handleExportSelection}
+              disabled={isExporting}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white border border-blue-200 text-blue-700 hover:bg-blue-100 font-medium transition-colors disabled:opacity-50"
+              title="Export the selected notes as one PDF"
+            >
+              {isExporting ? <Loader2 size={12} className="animate-spin" /> : <FileDown size={12} />}
+              Export PDF
+            </button>
+            <button onClick={() => setSelectedIds([])} className="p-1 text-blue-400 hover:text-blue-700" title="Clear selection">
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
+        <div
+          className={`flex-1 overflow-y-auto px-3 space-y-1 mt-2 transition-colors ${dropTargetId === ROOT_DROP_TARGET ? 'bg-blue-50/50' : ''}`}
+          {...(isTreeView ? dropTargetProps(null) : {})}
+        >
+          {filteredNotes.length === 0 && searchQuery && !isCalendarView && (
             <div className="text-center text-slate-400 text-sm py-8 px-4">
               No notes found matching "{searchQuery}"
             </div>
           )}
-          {filteredNotes.map(note => (
+          {sidebarView === 'notes' && filteredNotes.length === 0 && !searchQuery && tagFilter.length === 0 && showFavoritesOnly && (
+            <div className="text-center text-slate-400 text-sm py-8 px-4">
+              <Star size={28} className="mx-auto mb-3 text-slate-300" />
+              No favorite notes yet
+            </div>
+          )}
+          {sidebarView === 'notes' && filteredNotes.length === 0 && !searchQuery && tagFilter.length > 0 && (
+            <div className="text-center text-slate-400 text-sm py-8 px-4">
+              No notes tagged {tagFilter.map(tag => `#${tag}`).join(tagFilterMode === 'and' ? ' and ' : ' or ')}
+            </div>
+          )}
+          {isTrashView && trashedNotes.length === 0 && (
+            <div className="text-center text-slate-400 text-sm py-8 px-4">
+              <Trash2 size={28} className="mx-auto mb-3 text-slate-300" />
+              Trash is empty
+            </div>
+          )}
+          {isTrashView && trashedNotes.length > 0 && (
+            <div className="text-[11px] text-slate-400 px-2 pb-1">
+              {retentionDays > 0
+                ? `Notes are permanently deleted ${retentionDays} days after being moved here.`
+                : 'Notes stay here until you delete them.'}
+            </div>
+          )}
+          {isTrashView && filteredNotes.map(note => (
             <div
               key={note.id}
-              onClick={() => handleSwitchNote(note.id)}
-              className={`group w-full text-left p-3.5 rounded-xl text-sm flex items-start gap-3 transition-all duration-200 border cursor-pointer relative ${
-                activeNoteId === note.id 
-                  ? 'bg-blue-50/50 text-blue-700 border-blue-100 shadow-sm' 
-                  : 'hover:bg-slate-50 text-slate-600 border-transparent'
-              }`}
+              className="group w-full text-left p-3.5 rounded-xl text-sm flex items-start gap-3 transition-all duration-200 border relative hover:bg-slate-50 text-slate-600 border-transparent"
             >
-              {note.title === 'Weekly Summary' ? (
-                  <CalendarClock size={18} className={`mt-0.5 flex-shrink-0 ${activeNoteId === note.id ? 'text-indigo-500' : 'text-indigo-400'}`} />
-              ) : (
-                  <FileText size={18} className={`mt-0.5 flex-shrink-0 ${activeNoteId === note.id ? 'text-blue-500' : 'text-slate-400'}`} />
-              )}
-              
+              <FileText size={18} className="mt-0.5 flex-shrink-0 text-slate-300" />
               <div className="flex-1 min-w-0 pr-14">
-                <div className={`font-semibold truncate ${activeNoteId === note.id ? 'text-slate-900' : 'text-slate-700'}`}>
+                <div className="font-semibold truncate text-slate-500">
                   {note.title || "Untitled Note"}
                 </div>
                 <div className="text-xs text-slate-400 mt-1 truncate font-medium">
-                  {new Date(note.createdAt).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                  Deleted {new Date(note.deletedAt || 0).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
                 </div>
               </div>
-              
-              <div className={`
-                  absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1
-                  transition-opacity duration-200 z-20
-                  ${activeNoteId === note.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}
-              `}>
+              <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1 z-20">
                 <button
-                  onClick={(e) => { e.stopPropagation(); duplicateNote(note.id); }}
-                  className="p-1.5 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors bg-white/50 backdrop-blur-sm"
-                  title="Duplicate Note"
+                  onClick={() => restoreNote(note.id)}
+                  className="p-1.5 rounded-lg text-slate-400 hover:text-green-600 hover:bg-green-50 transition-colors bg-white/50 backdrop-blur-sm"
+                  title="Restore Note"
                 >
-                  <Copy size={14} />
+                  <ArchiveRestore size={14} />
                 </button>
                 <button
-                  onClick={(e) => { e.stopPropagation(); setDeleteTargetId(note.id); }}
+                  onClick={() => handlePurge(note.id)}
                   className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors bg-white/50 backdrop-blur-sm"
-                  title="Delete Note"
+                  title="Delete Forever"
                 >
                   <Trash2 size={14} />
                 </button>
               </div>
             </div>
           ))}
+          {isTreeView && (
+            <div className="flex items-center justify-between px-2 pt-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+              <span>Folders</span>
+              <button
+                onClick={handleCreateFolder}
+                className="p-1 rounded-md text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+                title={activeFolder ? `New folder in "${activeFolder.name}"` : "New folder"}
+              >
+                <FolderPlus size={14} />
+              </button>
+            </div>
+          )}
+          {isTreeView && childFolders(folders, null).map(folder => renderFolder(folder, 0))}
+          {isTreeView && (notesByFolder.get(null) || []).map(note => renderNote(note, 0))}
+          {sidebarView === 'notes' && !isTreeView && filteredNotes.map(note => renderNote(note, 0))}
+          {isCalendarView && (
+            <CalendarView notes={filteredNotes} renderNote={note => renderNote(note, 0)} onOpenDailyNote={openDailyNote} />
+          )}
         </div>
 
         <div className="p-4 border-t border-slate-100 bg-slate-50/50 flex flex-col gap-3">
+          <button 
+            onClick={() => setSidebarView(isTrashView ? 'notes' : 'trash')}
+            className={`w-full py-2 px-3 border rounded-lg font-medium flex items-center justify-center gap-2 transition-all text-xs shadow-sm ${
+              isTrashView 
+                ? 'bg-red-50 border-red-200 text-red-600' 
+                : 'bg-white border-slate-200 text-slate-600 hover:text-red-600 hover:border-red-200'
+            }`}
+          >
+            <Trash2 size={14} />
+            Trash{trashedNotes.length > 0 ? ` (${trashedNotes.length})` : ''}
+          </button>
           <button 
             onClick={() => setShowSettings(true)}
             className="w-full py-2 px-3 bg-white border border-slate-200 text-slate-600 hover:text-blue-600 hover:border-blue-300 rounded-lg font-medium flex items-center justify-center gap-2 transition-all text-xs shadow-sm"
@@ -192,7 +725,11 @@ export const Sidebar: React.FC<SidebarProps> = () => {
             Settings (API Key)
           </button>
 
-          <div className={`flex items-center justify-center gap-1.5 transition-colors text-xs font-medium ${saveStatus === 'error' ? 'text-red-500' : 'text-slate-400'}`}>
+          <div
+            className={`flex items-center justify-center gap-1.5 transition-colors text-xs font-medium ${saveStatus === 'error' ? 'text-red-500 cursor-pointer' : 'text-slate-400'}`}
+            title={saveStatus === 'error' ? saveError || undefined : undefined}
+            onClick={saveStatus === 'error' ? () => setShowSettings(true) : undefined}
+          >
             {saveStatus === 'saving' && <Loader2 size={12} className="animate-spin" />}
             {saveStatus === 'saved' && <CheckCircle2 size={12} />}
             {saveStatus === 'error' && <AlertCircle size={12} />}
@@ -201,6 +738,9 @@ export const Sidebar: React.FC<SidebarProps> = () => {
                saveStatus === 'saved' ? 'Synced to storage' : 'Save failed'}
             </span>
           </div>
+          {saveStatus === 'error' && saveError && (
+            <div className="text-[10px] text-red-400 text-center leading-tight">{saveError}</div>
+          )}
           <div className="text-[10px] text-slate-300 text-center">Powered by Gemini 2.5</div>
         </div>
       </aside>
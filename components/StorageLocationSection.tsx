@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { FolderOpen, Database, Loader2, AlertCircle } from 'lucide-react';
+import { useNoteStore } from '../store/noteStore';
+import { getStorageBackendKind, getVaultStatus, VAULT_PATH_KEY } from '../services/storageService';
+import { chooseVaultDirectory } from '../services/fsVaultBackend';
+import { isElectron } from '../utils/electron';
+
+// Desktop only: keep notes in the app's database or as plain files in a folder
+export const StorageLocationSection: React.FC = () => {
+  const { switchStorage } = useNoteStore();
+  const [kind, setKind] = useState(getStorageBackendKind());
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isElectron()) return null;
+
+  const vaultPath = localStorage.getItem(VAULT_PATH_KEY);
+
+  const handleSwitch = async (target: 'indexeddb' | 'filesystem') => {
+    setError(null);
+    let path: string | undefined;
+    if (target === 'filesystem') {
+      path = (await chooseVaultDirectory()) || undefined;
+      if (!path) return;
+      // The folder holds plain files: say so before encrypted notes are written out
+      const encryptionWarning = await getVaultStatus() !== 'none'
+        ? '\n\nYour notes are encrypted here, but the folder stores them UNENCRYPTED as plain files. Only the version history stays encrypted.'
+        : '';
+      if (!confirm(`Store notes in "${path}"?\n\nIf the folder has no notes yet, your current notes are copied into it. Otherwise the notes in the folder are opened.${encryptionWarning}`)) return;
+    } else if (!confirm("Switch back to the built-in storage? Your current notes are copied into it; the notes in the folder stay where they are.")) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await switchStorage(target, path);
+      setKind(getStorageBackendKind());
+    } catch (err: any) {
+      console.error("Switching storage failed", err);
+      setError(err?.message || String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-slate-700 mb-1">Storage Location</label>
+      <div className="flex items-center gap-2 text-xs text-slate-600 mb-2 min-w-0">
+        {kind === 'filesystem' ? <FolderOpen size={14} className="flex-shrink-0 text-blue-600" /> : <Database size={14} className="flex-shrink-0 text-blue-600" />}
+        <span className="truncate" title={kind === 'filesystem' ? vaultPath || '' : undefined}>
+          {kind === 'filesystem' ? vaultPath : 'Built-in app database'}
+        </span>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => handleSwitch('filesystem')}
+          disabled={isBusy}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-600 hover:text-blue-600 hover:border-blue-300 rounded-lg text-sm font-medium transition-all shadow-sm disabled:opacity-50"
+        >
+          {isBusy ? <Loader2 size={14} className="animate-spin" /> : <FolderOpen size={14} />}
+          {kind === 'filesystem' ? 'Choose another folder' : 'Store in a folder'}
+        </button>
+        {kind === 'filesystem' && (
+          <button
+            onClick={() => handleSwitch('indexeddb')}
+            disabled={isBusy}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-600 hover:text-blue-600 hover:border-blue-300 rounded-lg text-sm font-medium transition-all shadow-sm disabled:opacity-50"
+          >
+            <Database size={14} />
+            Use built-in storage
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 mt-2">
+        In a folder, every note is a sub-folder with note.html, meta.json, chat.json and its attachments, ready for backup tools and git. Version history and encryption stay in the built-in storage.
+      </p>
+      {error && (
+        <div className="mt-2 flex items-start gap-1.5 text-xs text-red-600">
+          <AlertCircle size={14} className="flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
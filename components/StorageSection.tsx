@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { HardDrive, Loader2, Trash2, AlertCircle } from 'lucide-react';
+import { useNoteStore } from '../store/noteStore';
+import { estimateStorage, measureNote, NoteSize, StorageEstimate } from '../services/storageUsage';
+import { formatBytes } from '../utils/format';
+
+// Attachments at least this large are offered for bulk removal
+const LARGE_ATTACHMENT_BYTES = 1024 * 1024;
+
+const SIZE_PARTS: { key: keyof Pick<NoteSize, 'text' | 'images' | 'attachments' | 'chat'>; label: string; color: string }[] = [
+  { key: 'text', label: 'Text', color: 'bg-blue-500' },
+  { key: 'images', label: 'Inline images', color: 'bg-amber-500' },
+  { key: 'attachments', label: 'Attachments', color: 'bg-purple-500' },
+  { key: 'chat', label: 'Chat', color: 'bg-green-500' },
+];
+
+const attachmentKey = (noteId: string, hash: string) => `${noteId}:${hash}`;
+
+export const StorageSection: React.FC = () => {
+  const { notes, trashedNotes, saveStatus, saveError, removeAttachments } = useNoteStore();
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [sizes, setSizes] = useState<NoteSize[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const measured: NoteSize[] = [];
+      for (const note of notes) measured.push(await measureNote(note, false));
+      for (const note of trashedNotes) measured.push(await measureNote(note, true));
+      const usage = await estimateStorage();
+      if (cancelled) return;
+      setSizes(measured.sort((a, b) => b.total - a.total));
+      setEstimate(usage);
+    })();
+    return () => { cancelled = true; };
+  }, [notes, trashedNotes]);
+
+  const largeAttachments = useMemo(() => {
+    const all = [
+      ...notes.map(note => ({ note, isTrashed: false })),
+      ...trashedNotes.map(note => ({ note, isTrashed: true }))
+    ];
+    return all
+      .flatMap(({ note, isTrashed }) => note.attachments.map(att => ({
+        key: attachmentKey(note.id, att.hash),
+        noteId: note.id,
+        hash: att.hash,
+        name: att.file.name,
+        size: att.file.size,
+        noteTitle: note.title || 'Untitled Note',
+        isTrashed
+      })))
+      .filter(att => att.size >= LARGE_ATTACHMENT_BYTES)
+      // The same file attached twice to one note is removed together
+      .filter((att, i, list) => list.findIndex(other => other.key === att.key) === i)
+      .sort((a, b) => b.size - a.size);
+  }, [notes, trashedNotes]);
+
+  const selectedBytes = largeAttachments.filter(att => selected.has(att.key)).reduce((sum, att) => sum + att.size, 0);
+
+  const toggleSelected = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const handleRemove = () => {
+    const targets = largeAttachments.filter(att => selected.has(att.key));
+    if (targets.length === 0) return;
+    if (!confirm(`Remove ${targets.length} attachment${targets.length === 1 ? '' : 's'} (${formatBytes(selectedBytes)}) from their notes? This cannot be undone.`)) return;
+    removeAttachments(targets.map(({ noteId, hash }) => ({ noteId, hash })));
+    setSelected(new Set());
+  };
+
+  const usagePercent = estimate && estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0;
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-slate-700 mb-1">Storage</label>
+
+      {saveStatus === 'error' && saveError && (
+        <div className="mb-2 flex items-start gap-1.5 text-xs text-red-600">
+          <AlertCircle size={14} className="flex-shrink-0" />
+          <span>Last save failed: {saveError}</span>
+        </div>
+      )}
+
+      {estimate ? (
+        <div>
+          <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+            <div
+              className={`h-full ${usagePercent > 90 ? 'bg-red-500' : usagePercent > 70 ? 'bg-amber-500' : 'bg-blue-600'}`}
+              style={{ width: `${usagePercent}%` }}
+            />
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} used ({usagePercent.toFixed(1)}%), including version history.
+          </p>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">Total usage is not reported by this browser.</p>
+      )}
+
+      {!sizes ? (
+        <div className="flex items-center gap-2 text-xs text-slate-400 mt-3">
+          <Loader2 size={12} className="animate-spin" />
+          Measuring notes...
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-x-3 gap-y-1 mt-3 text-[10px] text-slate-500">
+            {SIZE_PARTS.map(part => (
+              <span key={part.key} className="flex items-center gap-1">
+                <span className={`w-2 h-2 rounded-sm ${part.color}`} />
+                {part.label}
+              </span>
+            ))}
+          </div>
+          <div className="mt-2 max-h-48 overflow-y-auto border border-slate-100 rounded-lg divide-y divide-slate-50">
+            {sizes.map(size => (
+              <div
+                key={size.noteId}
+                className="px-3 py-2 text-xs"
+                title={SIZE_PARTS.map(part => `${part.label}: ${formatBytes(size[part.key])}`).join('\n')}
+              >
+                <div className="flex justify-between gap-2">
+                  <span className="truncate text-slate-700">
+                    {size.title || 'Untitled Note'}
+                    {size.isTrashed && <span className="text-slate-400"> (Trash)</span>}
+                  </span>
+                  <span className="text-slate-500 flex-shrink-0">{formatBytes(size.total)}</span>
+                </div>
+                <div className="flex h-1.5 mt-1 rounded-full overflow-hidden bg-slate-100">
+                  {size.total > 0 && SIZE_PARTS.map(part => (
+                    <div key={part.key} className={part.color} style={{ width: `${(size[part.key] / size.total) * 100}%` }} />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {largeAttachments.length > 0 && (
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-medium text-slate-600 flex items-center gap-1">
+              <HardDrive size={12} />
+              Attachments over {formatBytes(LARGE_ATTACHMENT_BYTES)}
+            </span>
+            <button
+              onClick={handleRemove}
+              disabled={selected.size === 0}
+              className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+              <Trash2 size={12} />
+              Remove selected{selected.size > 0 ? ` (${formatBytes(selectedBytes)})` : ''}
+            </button>
+          </div>
+          <div className="max-h-40 overflow-y-auto border border-slate-100 rounded-lg divide-y divide-slate-50">
+            {largeAttachments.map(att => (
+              <label key={att.key} className="flex items-center gap-2 px-3 py-1.5 text-xs cursor-pointer hover:bg-slate-50">
+                <input type="checkbox" checked={selected.has(att.key)} onChange={() => toggleSelected(att.key)} />
+                <span className="flex-1 min-w-0">
+                  <span className="block truncate text-slate-700">{att.name}</span>
+                  <span className="block truncate text-slate-400">{att.noteTitle}{att.isTrashed ? ' (Trash)' : ''}</span>
+                </span>
+                <span className="text-slate-500 flex-shrink-0">{formatBytes(att.size)}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
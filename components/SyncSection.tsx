@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, Globe, FolderOpen, Loader2, AlertCircle, CheckCircle2, Lock } from 'lucide-react';
+import { useNoteStore } from '../store/noteStore';
+import { getSyncSettings, saveSyncSettings, SyncSettings, SyncReport, SYNC_VAULT_ERROR } from '../services/syncService';
+import { chooseSyncFolder } from '../services/syncTarget';
+import { getVaultStatus } from '../services/storageService';
+import { isElectron } from '../utils/electron';
+
+const EMPTY_SETTINGS: SyncSettings = { kind: 'webdav', url: '', username: '', password: '', folder: '' };
+
+const describeReport = (report: SyncReport) => {
+  const parts = [
+    report.pushed && `${report.pushed} sent`,
+    report.pulled && `${report.pulled} received`,
+    report.merged && `${report.merged} merged`,
+    report.conflicts && `${report.conflicts} conflicted (kept as copies)`,
+    report.deleted && `${report.deleted} deleted`,
+    report.skipped && `${report.skipped} postponed to the next sync`
+  ].filter(Boolean);
+  return parts.length > 0 ? `Synced: ${parts.join(', ')}.` : "Everything is up to date.";
+};
+
+// Sync notes between devices through a WebDAV server or a shared folder
+export const SyncSection: React.FC = () => {
+  const { syncNow, isSyncing } = useNoteStore();
+  const [settings, setSettings] = useState<SyncSettings>(() => getSyncSettings() || EMPTY_SETTINGS);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const [isEncrypted, setIsEncrypted] = useState(false);
+
+  useEffect(() => {
+    getVaultStatus().then(status => setIsEncrypted(status !== 'none')).catch(() => setIsEncrypted(false));
+  }, []);
+
+  const update = (changes: Partial<SyncSettings>) => setSettings(current => ({ ...current, ...changes }));
+
+  const handleChooseFolder = async () => {
+    const folder = await chooseSyncFolder();
+    if (folder) update({ folder });
+  };
+
+  const handleSync = async () => {
+    const isConfigured = settings.kind === 'webdav' ? settings.url.trim() : settings.folder;
+    if (!isConfigured) {
+      setMessage({ type: 'error', text: settings.kind === 'webdav' ? "Enter the WebDAV folder URL." : "Choose a shared folder." });
+      return;
+    }
+    saveSyncSettings({ ...settings, url: settings.url.trim() });
+    setMessage(null);
+    try {
+      const report = await syncNow();
+      if (report) setMessage({ type: 'success', text: describeReport(report) });
+    } catch (err: any) {
+      console.error("Sync failed", err);
+      setMessage({ type: 'error', text: err?.message || String(err) });
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-sm";
+  const tabClass = (active: boolean) => `flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${active ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`;
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-slate-700 mb-1">Sync</label>
+
+      {isElectron() && (
+        <div className="flex gap-1 p-1 bg-slate-100 rounded-lg mb-2">
+          <button onClick={() => update({ kind: 'webdav' })} className={tabClass(settings.kind === 'webdav')}>
+            <Globe size={12} />
+            WebDAV
+          </button>
+          <button onClick={() => update({ kind: 'folder' })} className={tabClass(settings.kind === 'folder')}>
+            <FolderOpen size={12} />
+            Shared folder
+          </button>
+        </div>
+      )}
+
+      {settings.kind === 'webdav' || !isElectron() ? (
+        <div className="space-y-2">
+          <input type="url" value={settings.url} onChange={(e) => update({ url: e.target.value })} placeholder="https://example.com/remote.php/dav/files/me/SmartNote" className={inputClass} />
+          <div className="flex gap-2">
+            <input type="text" value={settings.username} onChange={(e) => update({ username: e.target.value })} placeholder="User name" className={inputClass} />
+            <input type="password" value={settings.password} onChange={(e) => update({ password: e.target.value })} placeholder="Password" title="Not saved; enter it again after restarting the app" className={inputClass} />
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={handleChooseFolder}
+          className="w-full flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-600 hover:text-blue-600 hover:border-blue-300 rounded-lg text-sm transition-all shadow-sm min-w-0"
+        >
+          <FolderOpen size={14} className="flex-shrink-0" />
+          <span className="truncate">{settings.folder || 'Choose a shared folder...'}</span>
+        </button>
+      )}
+
+      <button
+        onClick={handleSync}
+        disabled={isSyncing || isEncrypted}
+        className="mt-2 w-full flex items-center justify-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-600 hover:text-blue-600 hover:border-blue-300 rounded-lg text-sm font-medium transition-all shadow-sm disabled:opacity-50"
+      >
+        {isSyncing ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+        {isSyncing ? 'Syncing...' : 'Sync now'}
+      </button>
+      {isEncrypted && (
+        <div className="mt-2 flex items-start gap-1.5 text-xs text-amber-600">
+          <Lock size={14} className="flex-shrink-0" />
+          <span>{SYNC_VAULT_ERROR}</span>
+        </div>
+      )}
+      <p className="text-xs text-slate-500 mt-2">
+        Edits to different paragraphs of the same note are merged. If both devices changed the same paragraph, the other version is kept as a "conflicted copy" note next to yours.
+        {' The WebDAV password is not saved and must be entered again after a restart.'}
+        {!isElectron() && ' In the browser, the server must allow cross-origin requests from this app.'}
+      </p>
+
+      {message && (
+        <div className={`mt-2 flex items-start gap-1.5 text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>
+          {message.type === 'error' ? <AlertCircle size={14} className="flex-shrink-0" /> : <CheckCircle2 size={14} className="flex-shrink-0" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Hash, X } from 'lucide-react';
+import { findTag, normalizeTag } from '../utils/tags';
+
+interface TagEditorProps {
+  tags: string[];
+  allTags: string[]; // Tags used anywhere in the workspace, offered while typing
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// Tag chips under the note title; Enter or comma adds, Backspace on an empty input removes the last one
+export const TagEditor: React.FC<TagEditorProps> = ({ tags, allTags, onChange, disabled }) => {
+  const [draft, setDraft] = useState('');
+  // Suggestion picked with the arrow keys; -1 adds what was typed
+  const [highlighted, setHighlighted] = useState(-1);
+
+  const query = normalizeTag(draft).toLowerCase();
+  const suggestions = query
+    ? allTags.filter(tag => tag.toLowerCase().includes(query) && !findTag(tags, tag)).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setDraft('');
+    setHighlighted(-1);
+    if (!tag || findTag(tags, tag)) return;
+    onChange([...tags, findTag(allTags, tag) || tag]);
+  };
+
+  const removeTag = (tag: string) => onChange(tags.filter(t => t !== tag));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(suggestions[highlighted] || draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Escape') {
+      setDraft('');
+    }
+  };
+
+  return (
+    <div className="relative flex items-center flex-wrap gap-1.5">
+      <Hash size={14} className="text-slate-300" />
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-slate-100 text-slate-600 rounded-full text-xs font-medium">
+          {tag}
+          {!disabled && (
+            <button onClick={() => removeTag(tag)} className="p-0.5 rounded-full text-slate-400 hover:text-red-500 hover:bg-white" title={`Remove tag "${tag}"`}>
+              <X size={10} />
+            </button>
+          )}
+        </span>
+      ))}
+      {!disabled && (
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => { setDraft(e.target.value); setHighlighted(-1); }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => { if (draft.trim()) addTag(draft); }}
+          placeholder={tags.length === 0 ? "Add tags..." : "Add tag"}
+          className="flex-1 min-w-[80px] text-xs text-slate-600 placeholder-slate-300 border-none focus:ring-0 focus:outline-none bg-transparent p-0.5"
+          aria-label="Add Tag"
+        />
+      )}
+      {suggestions.length > 0 && (
+        <div className="absolute top-full left-5 mt-1 bg-white border border-slate-200 shadow-xl rounded-lg p-1 w-48 z-50 animate-fade-in">
+          {suggestions.map((tag, i) => (
+            <button
+              key={tag}
+              // Keep the input focused so its blur does not add the half-typed draft
+              onMouseDown={(e) => { e.preventDefault(); addTag(tag); }}
+              className={`w-full text-left px-2 py-1 text-xs rounded-md ${i === highlighted ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50'}`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { LayoutTemplate, Plus, Copy, Trash2, FileInput, Lock } from 'lucide-react';
+import { useNoteStore } from '../store/noteStore';
+import { NoteRole, NoteTemplate } from '../types';
+import { BUILT_IN_TEMPLATES, copyTemplate, expandTemplateText, isBuiltInTemplate, templateFromNote } from '../utils/templates';
+import { dateStampHtml } from '../utils/constants';
+import { ROLE_LABELS } from '../services/noteDocument';
+
+// Weekly summaries are generated, not started from a template
+const TEMPLATE_ROLES: NoteRole[] = ['autosar', 'notebooklm', 'general'];
+
+const BLANK_TEMPLATE = {
+  name: 'New template',
+  role: 'general' as NoteRole,
+  titlePattern: '',
+  html: `${dateStampHtml('{datetime}')}<p><br/></p>`
+};
+
+export const TemplateManagerModal: React.FC = () => {
+  const {
+    showTemplateManager, setShowTemplateManager, customTemplates, saveTemplate, deleteTemplate,
+    notes, activeNoteId, addNote
+  } = useNoteStore();
+  const [selectedId, setSelectedId] = useState<string>(BUILT_IN_TEMPLATES[0].id);
+  // Unsaved edits of the selected custom template
+  const [draft, setDraft] = useState<NoteTemplate | null>(null);
+
+  const allTemplates = [...BUILT_IN_TEMPLATES, ...customTemplates];
+  const selected = allTemplates.find(t => t.id === selectedId) || BUILT_IN_TEMPLATES[0];
+  const isBuiltIn = isBuiltInTemplate(selected.id);
+  const shown = draft && draft.id === selected.id ? draft : selected;
+  const isDirty = !!draft && JSON.stringify(draft) !== JSON.stringify(selected);
+  const activeNote = notes.find(n => n.id === activeNoteId);
+
+  useEffect(() => {
+    if (showTemplateManager) setDraft(null);
+  }, [showTemplateManager]);
+
+  if (!showTemplateManager) return null;
+
+  const confirmDiscard = () => !isDirty || confirm(`Discard your changes to "${selected.name}"?`);
+
+  const select = (id: string) => {
+    if (id === selectedId || !confirmDiscard()) return;
+    setSelectedId(id);
+    setDraft(null);
+  };
+
+  const addTemplate = (template: NoteTemplate) => {
+    if (!confirmDiscard()) return;
+    saveTemplate(template);
+    setSelectedId(template.id);
+    setDraft(null);
+  };
+
+  const edit = (updates: Partial<NoteTemplate>) => setDraft({ ...shown, ...updates });
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      alert('Please give the template a name.');
+      return;
+    }
+    saveTemplate({ ...draft, name: draft.name.trim() });
+    setDraft(null);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete the template "${selected.name}"? Notes created from it are not affected.`)) return;
+    deleteTemplate(selected.id);
+    setSelectedId(BUILT_IN_TEMPLATES[0].id);
+    setDraft(null);
+  };
+
+  const handleUse = () => {
+    if (!confirmDiscard()) return;
+    addNote(selected);
+    setShowTemplateManager(false);
+  };
+
+  const handleClose = () => {
+    if (confirmDiscard()) setShowTemplateManager(false);
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all disabled:bg-slate-50 disabled:text-slate-500";
+
+  const renderListItem = (template: NoteTemplate) => (
+    <button
+      key={template.id}
+      onClick={() => select(template.id)}
+      className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${template.id === selectedId ? 'bg-blue-50 text-blue-700 font-medium' : 'text-slate-700 hover:bg-slate-100'}`}
+    >
+      <span className="block truncate">{template.name || 'Untitled template'}</span>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full p-6 animate-in zoom-in-95 max-h-[90vh] flex flex-col">
+        <h3 className="text-xl font-bold text-slate-900 mb-4 flex items-center gap-2">
+          <LayoutTemplate className="text-blue-600" />
+          Note Templates
+        </h3>
+
+        <div className="flex gap-5 min-h-0 flex-1">
+          {/* Template list */}
+          <div className="w-52 flex-shrink-0 flex flex-col gap-1 overflow-y-auto">
+            <div className="px-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400">Built-in</div>
+            {BUILT_IN_TEMPLATES.map(renderListItem)}
+            <div className="px-1 mt-3 text-[11px] font-semibold uppercase tracking-wide text-slate-400">Your templates</div>
+            {customTemplates.length === 0 && <p className="px-1 text-xs text-slate-400">None yet</p>}
+            {customTemplates.map(renderListItem)}
+            <div className="mt-3 flex flex-col gap-1">
+              <button
+                onClick={() => addTemplate(copyTemplate(BLANK_TEMPLATE))}
+                className="flex items-center gap-2 px-3 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg"
+              >
+                <Plus size={15} /> New template
+              </button>
+              <button
+                onClick={() => activeNote && addTemplate(templateFromNote(activeNote))}
+                disabled={!activeNote}
+                className="flex items-center gap-2 px-3 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg disabled:text-slate-300 disabled:hover:bg-transparent"
+                title="Start a template from the note that is open"
+              >
+                <FileInput size={15} /> From current note
+              </button>
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 flex flex-col gap-3 min-w-0 overflow-y-auto pr-1">
+            {isBuiltIn && (
+              <p className="flex items-center gap-2 text-xs text-slate-500 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2">
+                <Lock size={13} className="flex-shrink-0" />
+                Built-in templates cannot be changed. Duplicate one to make your own version.
+              </p>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+              <input value={shown.name} disabled={isBuiltIn} onChange={(e) => edit({ name: e.target.value })} className={inputClass} />
+            </div>
+            <div className="flex gap-3">
+              <div className="w-48">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Role</label>
+                <select value={shown.role} disabled={isBuiltIn} onChange={(e) => edit({ role: e.target.value as NoteRole })} className={inputClass}>
+                  {TEMPLATE_ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Title</label>
+                <input value={shown.titlePattern} disabled={isBuiltIn} onChange={(e) => edit({ titlePattern: e.target.value })} placeholder="e.g. Standup {date}" className={inputClass} />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500 -mt-1">
+              Title and content may use <code>{'{date}'}</code>, <code>{'{time}'}</code>, <code>{'{datetime}'}</code> and <code>{'{weekday}'}</code>.
+              {shown.titlePattern && <> A note created now would be called "<span className="text-slate-700">{expandTemplateText(shown.titlePattern)}</span>".</>}
+            </p>
+            <div className="flex-1 flex flex-col min-h-[12rem]">
+              <label className="block text-sm font-medium text-slate-700 mb-1">Content (HTML)</label>
+              <textarea
+                value={shown.html}
+                disabled={isBuiltIn}
+                onChange={(e) => edit({ html: e.target.value })}
+                spellCheck={false}
+                className={`${inputClass} flex-1 font-mono text-xs resize-none`}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => addTemplate(copyTemplate({ ...shown, name: `${shown.name} (copy)` }))}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg"
+              >
+                <Copy size={15} /> Duplicate
+              </button>
+              {!isBuiltIn && (
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center gap-1.5 px-3 py-2 text-sm text-red-500 hover:bg-red-50 rounded-lg"
+                >
+                  <Trash2 size={15} /> Delete
+                </button>
+              )}
+              {!isBuiltIn && (
+                <button
+                  onClick={handleSave}
+                  disabled={!isDirty}
+                  className="ml-auto px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg font-medium transition-colors shadow-sm disabled:bg-slate-200 disabled:text-slate-400 disabled:shadow-none"
+                >
+                  Save Template
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-5 pt-4 border-t border-slate-100">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg font-medium transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleUse}
+            className="px-4 py-2 bg-slate-900 text-white hover:bg-slate-800 rounded-lg font-medium transition-colors shadow-sm"
+          >
+            New Note from Template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
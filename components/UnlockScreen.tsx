@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Lock, Loader2, AlertCircle } from 'lucide-react';
+import { useNoteStore } from '../store/noteStore';
+
+export const UnlockScreen: React.FC = () => {
+  const { unlock } = useNoteStore();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (!(await unlock(passphrase))) {
+        setError("Incorrect passphrase.");
+        setPassphrase('');
+      }
+    } catch (err: any) {
+      setError(err?.message || String(err));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="h-screen w-screen flex items-center justify-center bg-slate-50 p-6">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-2xl shadow-xl border border-slate-100 max-w-sm w-full p-6 flex flex-col items-center text-center gap-3"
+      >
+         <div className="w-12 h-12 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center">
+            <Lock size={24} />
+         </div>
+         <h3 className="text-lg font-bold text-slate-900">Your notes are encrypted</h3>
+         <p className="text-sm text-slate-500">Enter your passphrase to unlock Smart Notes.</p>
+         <input
+           type="password"
+           autoFocus
+           value={passphrase}
+           onChange={(e) => setPassphrase(e.target.value)}
+           disabled={isUnlocking}
+           placeholder="Passphrase"
+           className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+         />
+         {error && (
+           <div className="w-full flex items-center gap-1.5 text-xs text-red-600">
+             <AlertCircle size={14} className="flex-shrink-0" />
+             <span>{error}</span>
+           </div>
+         )}
+         <button
+           type="submit"
+           disabled={!passphrase || isUnlocking}
+           className="w-full py-2 px-4 bg-blue-600 text-white hover:bg-blue-700 rounded-lg font-medium transition-colors shadow-sm flex items-center justify-center gap-2 disabled:opacity-50"
+         >
+           {isUnlocking && <Loader2 size={16} className="animate-spin" />}
+           {isUnlocking ? 'Unlocking...' : 'Unlock'}
+         </button>
+         <p className="text-[11px] text-slate-400">The passphrase cannot be recovered. Without it, the notes stay unreadable.</p>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, Unlock, KeyRound, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { useNoteStore } from '../store/noteStore';
+import { getVaultStatus, enableVault, changeVaultPassphrase, disableVault, VaultStatus, getStorageBackendKind } from '../services/storageService';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type VaultAction = 'enable' | 'change' | 'disable';
+
+export const VaultSection: React.FC = () => {
+  const { saveNotes } = useNoteStore();
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+  const [action, setAction] = useState<VaultAction | null>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  useEffect(() => {
+    getVaultStatus().then(setStatus).catch(() => setStatus(null));
+  }, []);
+
+  const resetForm = (nextAction: VaultAction | null) => {
+    setAction(nextAction);
+    setCurrent('');
+    setNext('');
+    setConfirmation('');
+    setMessage(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!action) return;
+    if (action !== 'disable') {
+      if (next.length < MIN_PASSPHRASE_LENGTH) {
+        setMessage({ type: 'error', text: `The passphrase must have at least ${MIN_PASSPHRASE_LENGTH} characters.` });
+        return;
+      }
+      if (next !== confirmation) {
+        setMessage({ type: 'error', text: "The passphrases do not match." });
+        return;
+      }
+    }
+
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      // Everything on disk is re-written below; pending edits go first
+      await saveNotes();
+      if (action === 'enable') await enableVault(next);
+      else if (action === 'change') await changeVaultPassphrase(current, next);
+      else await disableVault(current);
+
+      const texts: Record<VaultAction, string> = {
+        enable: "Encryption enabled. You will need the passphrase next time you open Smart Note.",
+        change: "Passphrase changed.",
+        disable: "Encryption disabled. Notes are stored unencrypted again."
+      };
+      resetForm(null);
+      setMessage({ type: 'success', text: texts[action] });
+      setStatus(await getVaultStatus());
+    } catch (err: any) {
+      console.error("Vault update failed", err);
+      setMessage({ type: 'error', text: err?.message || String(err) });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-sm";
+  const buttonClass = "flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-600 hover:text-blue-600 hover:border-blue-300 rounded-lg text-sm font-medium transition-all shadow-sm disabled:opacity-50";
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-slate-700 mb-1">Encryption</label>
+      <p className="text-xs text-slate-500 mb-2 flex items-center gap-1.5">
+        {status === 'unlocked' ? <Lock size={12} className="text-green-600" /> : <Unlock size={12} />}
+        {status === 'unlocked'
+          ? 'Notes, chats and attachments are encrypted with your passphrase (AES-GCM).'
+          : 'Notes are stored unencrypted on this device.'}
+      </p>
+      {getStorageBackendKind() === 'filesystem' && (
+        <p className="text-xs text-amber-600 mb-2">Notes in the folder vault are plain files; encryption only covers the version history kept in the app.</p>
+      )}
+
+      {!action && status && (
+        <div className="flex gap-2">
+          {status === 'none' ? (
+            <button onClick={() => resetForm('enable')} className={buttonClass}>
+              <Lock size={14} />
+              Enable encryption
+            </button>
+          ) : (
+            <>
+              <button onClick={() => resetForm('change')} className={buttonClass}>
+                <KeyRound size={14} />
+                Change passphrase
+              </button>
+              <button onClick={() => resetForm('disable')} className={buttonClass}>
+                <Unlock size={14} />
+                Disable
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {action && (
+        <div className="p-3 rounded-lg border border-blue-100 bg-blue-50/50 space-y-2">
+          {action !== 'enable' && (
+            <input type="password" value={current} onChange={(e) => setCurrent(e.target.value)} placeholder="Current passphrase" className={inputClass} />
+          )}
+          {action !== 'disable' && (
+            <>
+              <input type="password" value={next} onChange={(e) => setNext(e.target.value)} placeholder="New passphrase" className={inputClass} />
+              <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder="Repeat new passphrase" className={inputClass} />
+              <p className="text-xs text-slate-500">There is no way to recover a forgotten passphrase. Workspace backups are not encrypted.</p>
+            </>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSubmit}
+              disabled={isBusy}
+              className="px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-xs font-medium transition-colors shadow-sm flex items-center gap-1.5 disabled:opacity-50"
+            >
+              {isBusy && <Loader2 size={12} className="animate-spin" />}
+              {action === 'enable' ? 'Encrypt notes' : action === 'change' ? 'Re-encrypt' : 'Decrypt notes'}
+            </button>
+            <button onClick={() => resetForm(null)} disabled={isBusy} className="px-3 py-1.5 text-slate-600 hover:bg-slate-100 rounded-lg text-xs font-medium transition-colors ml-auto">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div className={`mt-2 flex items-start gap-1.5 text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>
+          {message.type === 'error' ? <AlertCircle size={14} className="flex-shrink-0" /> : <CheckCircle2 size={14} className="flex-shrink-0" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,9 @@
 const { app, BrowserWindow, Tray, Menu, session, systemPreferences, desktopCapturer } = require('electron');
 const path = require('path');
 const fs = require('fs');
+const { registerVaultHandlers } = require('./vault');
+const { registerSyncFolderHandlers } = require('./syncFolder');
+const { registerPdfExportHandlers } = require('./pdfExport');
 
 let mainWindow = null;
 let tray = null;
@@ -125,6 +128,9 @@ function createTray() {
 
 app.whenReady().then(async () => {
   setupPermissions(); // Initialize global permissions & handlers
+  registerVaultHandlers(() => mainWindow);
+  registerSyncFolderHandlers(() => mainWindow);
+  registerPdfExportHandlers(() => mainWindow);
   await checkMediaAccess();
   createMenu();
   createWindow();
@@ -0,0 +1,64 @@
+const { ipcMain, dialog, BrowserWindow } = require('electron');
+const path = require('path');
+const os = require('os');
+const fs = require('fs/promises');
+
+// PDF export: the renderer sends a self-contained HTML document (images inlined as data URLs),
+// which is rendered in a hidden window and printed with Chromium's PDF backend. The page header
+// repeats the document title, the role of the notes and the export date; the footer carries
+// page numbers.
+
+const escapeHtml = (text) => String(text).replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const headerTemplate = (roleLabel) => `
+  <div style="width:100%;font-size:8px;font-family:sans-serif;color:#64748b;padding:0 15mm;display:flex;justify-content:space-between;gap:8px;">
+    <span class="title"></span><span>${escapeHtml(roleLabel || '')}</span><span class="date"></span>
+  </div>`;
+
+const FOOTER_TEMPLATE = `
+  <div style="width:100%;font-size:8px;font-family:sans-serif;color:#64748b;text-align:center;">
+    <span class="pageNumber"></span> / <span class="totalPages"></span>
+  </div>`;
+
+async function renderPdf(html, roleLabel) {
+  // Large documents exceed what a data: URL may hold; load from a temporary file instead. It goes
+  // in a fresh private directory, so no other user can plant a link where it is written.
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'smart-note-print-'));
+  const tmpFile = path.join(tmpDir, 'note.html');
+  const printWindow = new BrowserWindow({
+    show: false,
+    webPreferences: { javascript: false, nodeIntegration: false, contextIsolation: true }
+  });
+  try {
+    await fs.writeFile(tmpFile, html, { encoding: 'utf8', flag: 'wx' });
+    await printWindow.loadFile(tmpFile);
+    return await printWindow.webContents.printToPDF({
+      pageSize: 'A4',
+      printBackground: true,
+      displayHeaderFooter: true,
+      headerTemplate: headerTemplate(roleLabel),
+      footerTemplate: FOOTER_TEMPLATE,
+      margins: { top: 0.8, bottom: 0.8, left: 0.6, right: 0.6 }
+    });
+  } finally {
+    printWindow.destroy();
+    fs.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+function registerPdfExportHandlers(getWindow) {
+  // Resolves the saved file's path, or null if the user cancelled the save dialog
+  ipcMain.handle('pdf:export', async (_event, html, suggestedName, roleLabel) => {
+    const result = await dialog.showSaveDialog(getWindow(), {
+      title: 'Export as PDF',
+      defaultPath: suggestedName,
+      filters: [{ name: 'PDF', extensions: ['pdf'] }]
+    });
+    if (result.canceled || !result.filePath) return null;
+
+    await fs.writeFile(result.filePath, await renderPdf(html, roleLabel));
+    return result.filePath;
+  });
+}
+
+module.exports = { registerPdfExportHandlers };
@@ -0,0 +1,156 @@
+const { app, ipcMain, dialog } = require('electron');
+const path = require('path');
+const crypto = require('crypto');
+const fs = require('fs/promises');
+
+// File access for syncing with a shared folder. Only the folder the user picked in the dialog
+// shown here is accepted; the renderer passes it with every call and anything else is refused.
+// Paths are confined to it. ETags are derived from modification time and size.
+
+const settingsFile = () => path.join(app.getPath('userData'), 'sync-folder.json');
+
+let approvedRoot;
+
+async function getApprovedRoot() {
+  if (approvedRoot === undefined) {
+    try {
+      approvedRoot = JSON.parse(await fs.readFile(settingsFile(), 'utf8')).root || null;
+    } catch {
+      approvedRoot = null;
+    }
+  }
+  return approvedRoot;
+}
+
+async function approveRoot(root) {
+  approvedRoot = path.resolve(root);
+  await fs.writeFile(settingsFile(), JSON.stringify({ root: approvedRoot }));
+}
+
+async function resolveInRoot(root, relPath) {
+  const base = path.resolve(root);
+  if (base !== await getApprovedRoot()) {
+    throw new Error('This sync folder was not chosen on this device. Choose the shared folder again.');
+  }
+  const resolved = path.resolve(base, relPath);
+  if (resolved !== base && !resolved.startsWith(base + path.sep)) {
+    throw new Error(`Path is outside the sync folder: ${relPath}`);
+  }
+  return resolved;
+}
+
+const etagOf = (stat) => `"${stat.mtimeMs.toString(16)}-${stat.size.toString(16)}"`;
+
+const isMissing = (error) => error && error.code === 'ENOENT';
+
+async function currentEtag(file) {
+  try {
+    return etagOf(await fs.stat(file));
+  } catch (error) {
+    if (isMissing(error)) return null;
+    throw error;
+  }
+}
+
+// Conditional writes to the same file run one after another
+const fileLocks = new Map();
+
+function withFileLock(file, task) {
+  const previous = fileLocks.get(file) || Promise.resolve();
+  const run = previous.catch(() => {}).then(task);
+  const settled = run.catch(() => {});
+  fileLocks.set(file, settled);
+  settled.then(() => {
+    if (fileLocks.get(file) === settled) fileLocks.delete(file);
+  });
+  return run;
+}
+
+// Moves `tmp` to `file` unless `file` exists; linking fails atomically if it does
+async function createExclusive(tmp, file) {
+  try {
+    await fs.link(tmp, file);
+    return true;
+  } catch (error) {
+    if (error.code === 'EEXIST') return false;
+    // Some shared drives have no hard links: exclusive copy, not atomic for readers but still never overwrites
+    try {
+      await fs.copyFile(tmp, file, fs.constants.COPYFILE_EXCL);
+      return true;
+    } catch (copyError) {
+      if (copyError.code === 'EEXIST') return false;
+      throw copyError;
+    }
+  } finally {
+    await fs.unlink(tmp).catch(() => {});
+  }
+}
+
+function registerSyncFolderHandlers(getWindow) {
+  ipcMain.handle('sync-folder:choose', async () => {
+    const result = await dialog.showOpenDialog(getWindow(), {
+      title: 'Choose a shared folder to sync with',
+      properties: ['openDirectory', 'createDirectory']
+    });
+    if (result.canceled) return null;
+    await approveRoot(result.filePaths[0]);
+    return approvedRoot;
+  });
+
+  ipcMain.handle('sync-folder:list', async (_event, root, dir) => {
+    const target = await resolveInRoot(root, dir);
+    let entries;
+    try {
+      entries = await fs.readdir(target, { withFileTypes: true });
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+    const files = entries.filter(entry => entry.isFile() && !entry.name.endsWith('.tmp'));
+    return Promise.all(files.map(async entry => ({
+      name: entry.name,
+      etag: etagOf(await fs.stat(path.join(target, entry.name)))
+    })));
+  });
+
+  ipcMain.handle('sync-folder:read', async (_event, root, relPath) => {
+    const file = await resolveInRoot(root, relPath);
+    try {
+      const [data, stat] = await Promise.all([fs.readFile(file), fs.stat(file)]);
+      return { data, etag: etagOf(stat) };
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  });
+
+  // Resolves the new ETag, or null if the file does not match expectedEtag (null: must not exist).
+  // The content is written to a temporary file first; the check and the move into place then
+  // happen back to back under the file's lock. Creating a file never replaces one that
+  // appeared meanwhile. Replacing one can still race with another device in the gap between
+  // check and rename, which a plain file system cannot close.
+  ipcMain.handle('sync-folder:write', async (_event, root, relPath, data, expectedEtag) => {
+    const file = await resolveInRoot(root, relPath);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(tmp, typeof data === 'string' ? data : Buffer.from(data));
+
+    return withFileLock(file, async () => {
+      if (expectedEtag === null) {
+        return (await createExclusive(tmp, file)) ? currentEtag(file) : null;
+      }
+      if (expectedEtag !== undefined && await currentEtag(file) !== expectedEtag) {
+        await fs.unlink(tmp).catch(() => {});
+        return null;
+      }
+      await fs.rename(tmp, file);
+      return currentEtag(file);
+    });
+  });
+
+  ipcMain.handle('sync-folder:mkdir', async (_event, root, dir) => {
+    await fs.mkdir(await resolveInRoot(root, dir), { recursive: true });
+  });
+}
+
+module.exports = { registerSyncFolderHandlers };
@@ -0,0 +1,192 @@
+const { ipcMain, dialog } = require('electron');
+const path = require('path');
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const { constants: fsConstants, watch } = require('fs');
+
+// File access for the folder vault. The renderer decides the layout; this module only offers
+// a few primitive operations, all confined to the vault folder that was opened last.
+// Changes made by other programs (editors, git) are reported to the renderer per note folder.
+
+let vaultRoot = null;
+let watcher = null;
+
+// Editors and git touch several files per change; report a folder once things settle
+const CHANGE_DEBOUNCE_MS = 400;
+// Our own writes also trigger watch events. What we last put at each path (content hash, or
+// null once removed) tells them apart from other programs' edits, however close together.
+const ownWrites = new Map();
+// Note folder -> { timer, paths } of changes waiting to be checked and reported
+const pendingChanges = new Map();
+
+// Resolves a vault-relative path, refusing anything that escapes the vault
+function resolveInVault(relPath) {
+  if (!vaultRoot) throw new Error('No vault folder is open.');
+  const resolved = path.resolve(vaultRoot, relPath);
+  if (resolved !== vaultRoot && !resolved.startsWith(vaultRoot + path.sep)) {
+    throw new Error(`Path is outside the vault: ${relPath}`);
+  }
+  return resolved;
+}
+
+// Write to a temporary file first so a crash never leaves a half-written note behind
+async function writeFileAtomic(target, data) {
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+  await fs.writeFile(tmp, data);
+  await fs.rename(tmp, target);
+}
+
+const isMissing = (error) => error && error.code === 'ENOENT';
+
+// 'notes/<id>/meta.json' -> 'notes/<id>'; null for anything that is not inside a note folder
+function noteFolderOf(relPath) {
+  const [collection, id] = relPath.split(/[\\/]/);
+  if (!['notes', 'trash'].includes(collection) || !id || id.startsWith('.')) return null;
+  return `${collection}/${id}`;
+}
+
+const hashOf = (data) => crypto.createHash('sha256').update(data).digest('hex');
+
+function markWritten(relPath, data) {
+  ownWrites.set(path.normalize(relPath), hashOf(data));
+}
+
+// Everything at or below `relPath` is gone; with `toPath` it now lives there
+function markMoved(relPath, toPath) {
+  const from = path.normalize(relPath);
+  const to = toPath && path.normalize(toPath);
+  for (const [key, hash] of [...ownWrites]) {
+    if (key !== from && !key.startsWith(from + path.sep)) continue;
+    if (to && hash) ownWrites.set(to + key.slice(from.length), hash);
+    ownWrites.set(key, null);
+  }
+  ownWrites.set(from, null);
+}
+
+// Whether a path still holds what we last wrote there (or is still gone). Directories only
+// change through the files in them, so they never count as an edit of their own.
+async function isOwnWrite(relPath) {
+  try {
+    const target = resolveInVault(relPath);
+    if ((await fs.stat(target)).isDirectory()) return true;
+    return ownWrites.get(relPath) === hashOf(await fs.readFile(target));
+  } catch (error) {
+    if (isMissing(error)) return ownWrites.get(relPath) === null;
+    throw error;
+  }
+}
+
+function stopWatching() {
+  if (watcher) watcher.close();
+  watcher = null;
+  pendingChanges.forEach(({ timer }) => clearTimeout(timer));
+  pendingChanges.clear();
+  ownWrites.clear();
+}
+
+async function reportChange(folder, paths, getWindow) {
+  try {
+    const checks = await Promise.all([...paths].map(isOwnWrite));
+    if (checks.every(Boolean)) return;
+  } catch (error) {
+    console.warn('Could not check a vault change; reporting it anyway.', error);
+  }
+  const [collection, id] = folder.split('/');
+  const win = getWindow();
+  if (win && !win.isDestroyed()) win.webContents.send('vault:changed', { collection, id });
+}
+
+function startWatching(getWindow) {
+  stopWatching();
+  try {
+    // Recursive watching needs macOS, Windows or Linux with Node 20+
+    watcher = watch(vaultRoot, { recursive: true }, (_eventType, fileName) => {
+      if (!fileName || fileName.endsWith('.tmp')) return;
+      const relPath = path.normalize(fileName.toString());
+      const folder = noteFolderOf(relPath);
+      if (!folder) return;
+
+      const pending = pendingChanges.get(folder) || { timer: null, paths: new Set() };
+      clearTimeout(pending.timer);
+      pending.paths.add(relPath);
+      pending.timer = setTimeout(() => {
+        pendingChanges.delete(folder);
+        reportChange(folder, pending.paths, getWindow);
+      }, CHANGE_DEBOUNCE_MS);
+      pendingChanges.set(folder, pending);
+    });
+    watcher.on('error', (error) => console.warn('Vault watcher error:', error));
+  } catch (error) {
+    console.warn('Could not watch the vault folder; external edits will show up after a restart.', error);
+  }
+}
+
+function registerVaultHandlers(getWindow) {
+  ipcMain.handle('vault:choose-directory', async () => {
+    const result = await dialog.showOpenDialog(getWindow(), {
+      title: 'Choose a folder for your notes',
+      properties: ['openDirectory', 'createDirectory']
+    });
+    return result.canceled ? null : result.filePaths[0];
+  });
+
+  ipcMain.handle('vault:open', async (_event, root) => {
+    const resolved = path.resolve(root);
+    await fs.mkdir(path.join(resolved, 'notes'), { recursive: true });
+    await fs.mkdir(path.join(resolved, 'trash'), { recursive: true });
+    await fs.access(resolved, fsConstants.W_OK);
+    vaultRoot = resolved;
+    startWatching(getWindow);
+    return resolved;
+  });
+
+  ipcMain.handle('vault:close', async () => {
+    stopWatching();
+    vaultRoot = null;
+  });
+
+  ipcMain.handle('vault:list', async (_event, relPath) => {
+    try {
+      const entries = await fs.readdir(resolveInVault(relPath), { withFileTypes: true });
+      return entries.map(entry => ({ name: entry.name, isDirectory: entry.isDirectory() }));
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+  });
+
+  ipcMain.handle('vault:read', async (_event, relPath) => {
+    try {
+      return await fs.readFile(resolveInVault(relPath));
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  });
+
+  // files: [{ path, data }] with data a string or Uint8Array
+  ipcMain.handle('vault:write', async (_event, files) => {
+    for (const file of files) {
+      const data = typeof file.data === 'string' ? file.data : Buffer.from(file.data);
+      markWritten(file.path, data);
+      await writeFileAtomic(resolveInVault(file.path), data);
+    }
+  });
+
+  ipcMain.handle('vault:remove', async (_event, relPath) => {
+    markMoved(relPath);
+    await fs.rm(resolveInVault(relPath), { recursive: true, force: true });
+  });
+
+  ipcMain.handle('vault:move', async (_event, fromPath, toPath) => {
+    const target = resolveInVault(toPath);
+    markMoved(toPath);
+    markMoved(fromPath, toPath);
+    await fs.rm(target, { recursive: true, force: true });
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.rename(resolveInVault(fromPath), target);
+  });
+}
+
+module.exports = { registerVaultHandlers };
@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+// Minimal WebDAV server for trying out sync locally. Not for real use: no locking, no
+// properties beyond getetag/getcontentlength/resourcetype.
+//
+//   npm run webdav-stub -- [folder] [port]
+//
+// Files are kept in `folder` (default: ./webdav-data). Set WEBDAV_USER and WEBDAV_PASSWORD
+// to require basic authentication. Two app instances pointed at http://localhost:<port>/
+// behave like two devices.
+
+const http = require('http');
+const fs = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+
+const root = path.resolve(process.argv[2] || 'webdav-data');
+const port = Number(process.argv[3] || process.env.PORT || 8765);
+const { WEBDAV_USER, WEBDAV_PASSWORD } = process.env;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, PUT, DELETE, MKCOL, PROPFIND, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, Depth, If-Match, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag, DAV'
+};
+
+const isMissing = (error) => error && error.code === 'ENOENT';
+
+const etagOf = (data) => `"${crypto.createHash('sha1').update(data).digest('hex')}"`;
+
+function resolvePath(urlPath) {
+  const relPath = decodeURIComponent(urlPath.split('?')[0]);
+  const resolved = path.resolve(root, '.' + relPath);
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) return null;
+  return resolved;
+}
+
+async function currentEtag(file) {
+  try {
+    return etagOf(await fs.readFile(file));
+  } catch (error) {
+    if (isMissing(error) || error.code === 'EISDIR') return null;
+    throw error;
+  }
+}
+
+const escapeXml = (text) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+async function propEntry(href, file) {
+  const stat = await fs.stat(file);
+  const props = stat.isDirectory()
+    ? '<d:resourcetype><d:collection/></d:resourcetype>'
+    : `<d:resourcetype/><d:getcontentlength>${stat.size}</d:getcontentlength><d:getetag>${escapeXml(etagOf(await fs.readFile(file)))}</d:getetag>`;
+  return `<d:response><d:href>${escapeXml(href)}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+async function handle(req, res) {
+  const send = (status, body = '', headers = {}) => {
+    res.writeHead(status, { ...CORS_HEADERS, ...headers });
+    res.end(body);
+  };
+
+  if (req.method === 'OPTIONS') return send(200, '', { DAV: '1' });
+
+  if (WEBDAV_USER) {
+    const expected = 'Basic ' + Buffer.from(`${WEBDAV_USER}:${WEBDAV_PASSWORD || ''}`).toString('base64');
+    if (req.headers.authorization !== expected) return send(401, '', { 'WWW-Authenticate': 'Basic realm="webdav-stub"' });
+  }
+
+  const file = resolvePath(req.url);
+  if (!file) return send(403);
+
+  switch (req.method) {
+    case 'GET':
+    case 'HEAD': {
+      let data;
+      try {
+        data = await fs.readFile(file);
+      } catch (error) {
+        if (isMissing(error) || error.code === 'EISDIR') return send(404);
+        throw error;
+      }
+      return send(200, req.method === 'GET' ? data : '', { ETag: etagOf(data), 'Content-Length': data.length });
+    }
+
+    case 'PUT': {
+      const body = await readBody(req);
+      const etag = await currentEtag(file);
+      const ifMatch = req.headers['if-match'];
+      const ifNoneMatch = req.headers['if-none-match'];
+      if ((ifMatch && ifMatch !== etag) || (ifNoneMatch === '*' && etag !== null)) return send(412);
+      try {
+        await fs.access(path.dirname(file));
+      } catch {
+        return send(409); // Parent collection missing, as WebDAV requires
+      }
+      await fs.writeFile(file, body);
+      return send(etag === null ? 201 : 204, '', { ETag: etagOf(body) });
+    }
+
+    case 'DELETE':
+      try {
+        await fs.rm(file, { recursive: true });
+      } catch (error) {
+        if (isMissing(error)) return send(404);
+        throw error;
+      }
+      return send(204);
+
+    case 'MKCOL':
+      try {
+        await fs.mkdir(file);
+      } catch (error) {
+        if (error.code === 'EEXIST') return send(405);
+        if (isMissing(error)) return send(409);
+        throw error;
+      }
+      return send(201);
+
+    case 'PROPFIND': {
+      await readBody(req);
+      let stat;
+      try {
+        stat = await fs.stat(file);
+      } catch (error) {
+        if (isMissing(error)) return send(404);
+        throw error;
+      }
+      const href = req.url.split('?')[0];
+      const responses = [await propEntry(href, file)];
+      if (stat.isDirectory() && req.headers.depth !== '0') {
+        const base = href.endsWith('/') ? href : href + '/';
+        for (const name of await fs.readdir(file)) {
+          responses.push(await propEntry(base + encodeURIComponent(name), path.join(file, name)));
+        }
+      }
+      const xml = `<?xml version="1.0" encoding="utf-8"?><d:multistatus xmlns:d="DAV:">${responses.join('')}</d:multistatus>`;
+      return send(207, xml, { 'Content-Type': 'application/xml; charset=utf-8' });
+    }
+
+    default:
+      return send(405);
+  }
+}
+
+fs.mkdir(root, { recursive: true }).then(() => {
+  http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+      console.error(`${req.method} ${req.url} failed:`, error);
+      res.writeHead(500, CORS_HEADERS);
+      res.end();
+    });
+  }).listen(port, () => {
+    console.log(`WebDAV stand-in serving ${root} at http://localhost:${port}/`);
+  });
+});
@@ -0,0 +1,234 @@
+import JSZip from 'jszip';
+import { NoteSession, AppStatus, ImagePreview, NoteRole, Folder, NoteTemplate } from '../types';
+import { hashBlob } from '../utils/hash';
+import { uniqueFileName } from '../utils/download';
+import { extractInlineImageHashes, extractDataUrlImages } from '../utils/inlineImages';
+import { isValidTemplate } from '../utils/templates';
+import { sanitizeHtml } from '../utils/sanitizeHtml';
+import { isNoteResult, readChatHistory, readTags } from '../utils/noteFields';
+import { isValidDayKey } from '../utils/dates';
+import { getBlob, registerBlob } from './blobStore';
+
+/**
+ * Workspace archive layout (format version 2):
+ *
+ *   manifest.json                     { format, version, exportedAt, notes: [{ id, title, path }], folders, templates }
+ *   notes/<id>/note.json              metadata (everything except content, chat and binaries)
+ *   notes/<id>/content.html           inputText
+ *   notes/<id>/chat.json              chatHistory
+ *   notes/<id>/attachments/<name>     attachment binaries under their original names
+ *   notes/<id>/images/<hash>          inline images referenced from content.html by hash
+ *
+ * `folders` (the sidebar folder tree) is missing from archives made before folders existed,
+ * `templates` (the custom note templates) from those made before templates were backed up.
+ * Version 1 archives embed inline images in content.html as data: URLs; they are converted on import.
+ */
+
+const ARCHIVE_FORMAT = 'smart-note-workspace';
+const ARCHIVE_VERSION = 2;
+const VALID_ROLES: NoteRole[] = ['autosar', 'notebooklm', 'general', 'weekly'];
+
+interface ManifestEntry {
+  id: string;
+  title: string;
+  path: string;
+}
+
+interface WorkspaceManifest {
+  format: string;
+  version: number;
+  exportedAt: number;
+  notes: ManifestEntry[];
+  folders?: Folder[];
+  templates?: NoteTemplate[];
+}
+
+interface StoredAttachment {
+  name: string;
+  mimeType: string;
+  type: ImagePreview['type'];
+  path: string;
+}
+
+export interface WorkspaceImport {
+  exportedAt: number;
+  notes: NoteSession[];
+  folders: Folder[];
+  templates: NoteTemplate[];
+  // Notes listed in the manifest that could not be read
+  errors: string[];
+}
+
+/**
+ * Packs every note (including trashed ones) and its attachments, the folder tree and the custom
+ * templates into a single ZIP.
+ */
+export const exportWorkspace = async (notes: NoteSession[], folders: Folder[], templates: NoteTemplate[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const manifest: WorkspaceManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    notes: [],
+    folders,
+    templates
+  };
+
+  for (const note of notes) {
+    const path = `notes/${note.id}/`;
+    const folder = zip.folder(path)!;
+    const usedNames = new Set<string>();
+
+    const attachments: StoredAttachment[] = note.attachments.map(att => {
+      const name = uniqueFileName(att.file.name, usedNames);
+      folder.file(`attachments/${name}`, att.file);
+      return { name: att.file.name, mimeType: att.file.type, type: att.type, path: `attachments/${name}` };
+    });
+
+    const { inputText, chatHistory, attachments: _files, status, error, ...meta } = note;
+    folder.file('note.json', JSON.stringify({ ...meta, attachments }, null, 2));
+    folder.file('content.html', inputText);
+    folder.file('chat.json', JSON.stringify(chatHistory, null, 2));
+
+    for (const hash of extractInlineImageHashes(inputText)) {
+      const blob = await getBlob(hash);
+      if (blob) folder.file(`images/${hash}`, blob);
+    }
+
+    manifest.notes.push({ id: note.id, title: note.title, path });
+  }
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+const readManifest = async (zip: JSZip): Promise<WorkspaceManifest> => {
+  const manifestFile = zip.file('manifest.json');
+  if (!manifestFile) {
+    throw new Error("This is not a Smart Note workspace backup (manifest.json is missing).");
+  }
+
+  let manifest: any;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error("The backup manifest is corrupted and cannot be read.");
+  }
+
+  if (manifest?.format !== ARCHIVE_FORMAT) {
+    throw new Error("This is not a Smart Note workspace backup (unknown format).");
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+    throw new Error(`This backup was created by a newer version of Smart Note (format v${manifest.version}). Please update the app.`);
+  }
+  if (!Array.isArray(manifest.notes)) {
+    throw new Error("The backup manifest does not list any notes.");
+  }
+  return manifest as WorkspaceManifest;
+};
+
+const readNote = async (zip: JSZip, entry: ManifestEntry): Promise<NoteSession> => {
+  const metaFile = zip.file(`${entry.path}note.json`);
+  const contentFile = zip.file(`${entry.path}content.html`);
+  if (!metaFile || !contentFile) throw new Error("note.json or content.html is missing");
+
+  const meta = JSON.parse(await metaFile.async('string'));
+  if (meta.id !== entry.id) throw new Error("note ID does not match the manifest");
+
+  const chatFile = zip.file(`${entry.path}chat.json`);
+  const chatHistory = readChatHistory(chatFile ? JSON.parse(await chatFile.async('string')) : []);
+
+  const attachments: ImagePreview[] = [];
+  for (const att of (Array.isArray(meta.attachments) ? meta.attachments : []) as StoredAttachment[]) {
+    const binary = zip.file(`${entry.path}${att.path}`);
+    if (!binary) throw new Error(`attachment "${att.name}" is missing`);
+    const file = new File([await binary.async('blob')], att.name, { type: att.mimeType });
+    attachments.push({ file, hash: await hashBlob(file), url: URL.createObjectURL(file), type: att.type });
+  }
+
+  let inputText = sanitizeHtml(await contentFile.async('string'));
+  const legacyImages = await extractDataUrlImages(inputText);
+  if (legacyImages) {
+    inputText = legacyImages.html;
+    legacyImages.blobs.forEach((blob, hash) => registerBlob(hash, blob));
+  }
+  // Images already in this workspace do not need to be in the archive
+  for (const hash of extractInlineImageHashes(inputText)) {
+    if (legacyImages?.blobs.has(hash)) continue;
+    const image = zip.file(`${entry.path}images/${hash}`);
+    if (image) {
+      registerBlob(hash, await image.async('blob'));
+    } else if (!(await getBlob(hash))) {
+      throw new Error(`inline image ${hash.slice(0, 8)} is missing`);
+    }
+  }
+
+  // note.json comes from a file of unknown origin: only known fields are taken, each checked
+  const result = isNoteResult(meta.result) ? { markdown: meta.result.markdown, timestamp: meta.result.timestamp } : null;
+  const createdAt = typeof meta.createdAt === 'number' ? meta.createdAt : Date.now();
+  const tags = readTags(meta.tags);
+  return {
+    id: entry.id,
+    title: typeof meta.title === 'string' ? meta.title : '',
+    inputText,
+    attachments,
+    result,
+    status: result ? AppStatus.SUCCESS : AppStatus.IDLE,
+    error: null,
+    createdAt,
+    updatedAt: typeof meta.updatedAt === 'number' ? meta.updatedAt : createdAt,
+    ...(typeof meta.editedAt === 'number' ? { editedAt: meta.editedAt } : {}),
+    role: VALID_ROLES.includes(meta.role) ? meta.role : 'autosar',
+    chatHistory,
+    ...(tags.length ? { tags } : {}),
+    ...(typeof meta.folderId === 'string' ? { folderId: meta.folderId } : {}),
+    ...(isValidDayKey(meta.dailyDate) ? { dailyDate: meta.dailyDate } : {}),
+    ...(meta.pinned === true ? { pinned: true } : {}),
+    ...(meta.favorite === true ? { favorite: true } : {}),
+    ...(typeof meta.deletedAt === 'number' ? { deletedAt: meta.deletedAt } : {})
+  };
+};
+
+/**
+ * Reads a workspace archive. Throws if the archive itself is invalid; individual unreadable
+ * notes are reported in `errors` so the rest can still be restored.
+ */
+export const readWorkspaceArchive = async (file: File): Promise<WorkspaceImport> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error(`"${file.name}" is not a valid ZIP archive.`);
+  }
+
+  const manifest = await readManifest(zip);
+  const notes: NoteSession[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of manifest.notes) {
+    if (!entry || typeof entry.id !== 'string' || typeof entry.path !== 'string') {
+      errors.push("Manifest entry without an ID was skipped");
+      continue;
+    }
+    if (seen.has(entry.id)) {
+      errors.push(`"${entry.title || entry.id}": listed twice, duplicate skipped`);
+      continue;
+    }
+    seen.add(entry.id);
+
+    try {
+      notes.push(await readNote(zip, entry));
+    } catch (err: any) {
+      errors.push(`"${entry.title || entry.id}": ${err.message}`);
+    }
+  }
+
+  const folders = Array.isArray(manifest.folders)
+    ? manifest.folders.filter(folder => typeof folder?.id === 'string' && typeof folder.name === 'string')
+    : [];
+  const templates = Array.isArray(manifest.templates)
+    ? manifest.templates.filter(template => isValidTemplate(template) && VALID_ROLES.includes(template.role))
+    : [];
+  return { exportedAt: manifest.exportedAt, notes, folders, templates, errors };
+};
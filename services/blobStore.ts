@@ -0,0 +1,72 @@
+import { hashBlob } from '../utils/hash';
+import { INLINE_IMAGE_ATTR, extractInlineImageHashes, replaceInlineImageSrc } from '../utils/inlineImages';
+import { loadBlob } from './storageService';
+import { stageBlob, setBlobMemoryLookup } from './stagedBlobs';
+
+// In-memory side of the blob store: resolves content hashes to Blobs and object URLs
+// for rendering, and hands newly created blobs to the persistence layer.
+
+const blobCache = new Map<string, Blob>();
+const urlCache = new Map<string, string>();
+
+setBlobMemoryLookup(hash => blobCache.get(hash));
+
+// Makes a blob available for rendering and queues it to be written with the next save
+export const registerBlob = (hash: string, blob: Blob) => {
+  blobCache.set(hash, blob);
+  stageBlob(hash, blob);
+};
+
+export const getBlob = async (hash: string): Promise<Blob | null> => {
+  const cached = blobCache.get(hash);
+  if (cached) return cached;
+  const blob = await loadBlob(hash);
+  if (blob) blobCache.set(hash, blob);
+  return blob;
+};
+
+export const getBlobUrl = async (hash: string): Promise<string | null> => {
+  const cached = urlCache.get(hash);
+  if (cached) return cached;
+  const blob = await getBlob(hash);
+  if (!blob) return null;
+  const url = URL.createObjectURL(blob);
+  urlCache.set(hash, url);
+  return url;
+};
+
+// Registers an image and returns the <img> markup to insert into the editor
+export const storeInlineImage = async (blob: Blob): Promise<string> => {
+  const hash = await hashBlob(blob);
+  registerBlob(hash, blob);
+  const url = await getBlobUrl(hash);
+  return `<img ${INLINE_IMAGE_ATTR}="${hash}" src="${url}">`;
+};
+
+/**
+ * Points every blob-backed <img> under `root` at an object URL. Missing blobs are left empty.
+ */
+export const hydrateInlineImages = async (root: HTMLElement) => {
+  const images = Array.from(root.querySelectorAll<HTMLImageElement>(`img[${INLINE_IMAGE_ATTR}]`));
+  await Promise.all(images.map(async img => {
+    const url = await getBlobUrl(img.getAttribute(INLINE_IMAGE_ATTR)!);
+    if (url && img.getAttribute('src') !== url) img.setAttribute('src', url);
+  }));
+};
+
+/**
+ * Same as hydrateInlineImages, for HTML strings that are not in the DOM (exports, previews).
+ * `toSrc` decides the URL form, e.g. a data: URL for self-contained files. Defaults to object URLs.
+ */
+export const resolveInlineImages = async (
+  html: string,
+  toSrc?: (hash: string, blob: Blob) => Promise<string>
+): Promise<string> => {
+  const sources = new Map<string, string>();
+  for (const hash of extractInlineImageHashes(html)) {
+    const blob = await getBlob(hash);
+    if (!blob) continue;
+    sources.set(hash, toSrc ? await toSrc(hash, blob) : (await getBlobUrl(hash))!);
+  }
+  return replaceInlineImageSrc(html, hash => sources.get(hash) ?? null);
+};
@@ -0,0 +1,483 @@
+import JSZip from 'jszip';
+import { NoteSession } from '../types';
+import { INLINE_IMAGE_ATTR } from '../utils/inlineImages';
+import { getBlob } from './blobStore';
+
+/**
+ * Converts a note's HTML into a Word document (WordprocessingML, packed with JSZip):
+ *
+ *   word/document.xml    the body: paragraphs, runs, tables and inline pictures
+ *   word/styles.xml      Title, Heading1-6, Quote, Code, Hyperlink and table styles
+ *   word/numbering.xml   bullet and numbered lists; every <ol> restarts at its own number
+ *   word/media/*         inline images
+ *
+ * Text colours, highlights, font families and sizes set with the editor toolbar become run
+ * properties. Sections produced by the AI (see RESET_AI_STYLE) are shaded with a blue bar on
+ * the left so they stand apart from the user's own notes.
+ */
+
+const NS = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+  rel: 'http://schemas.openxmlformats.org/package/2006/relationships'
+};
+
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const EMU_PER_PX = 9525;
+const MAX_IMAGE_WIDTH_PX = 600; // Text width of an A4 page with 2.5 cm margins, at 96 dpi
+const TEXT_WIDTH_TWIPS = 9026;
+const BULLET_NUM_ID = 1;
+const AI_SHADING = 'EFF6FF';
+const AI_BAR = '3B82F6';
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE', 'PRE', 'UL', 'OL', 'LI', 'TABLE', 'HR',
+  'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'FIGURE', 'DL', 'DT', 'DD'
+]);
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'BUTTON', 'INPUT']);
+
+// Sizes 1-7 of <font size> / execCommand('fontSize') and their CSS keywords, in points
+const FONT_SIZE_POINTS: Record<string, number> = {
+  '1': 7.5, '2': 10, '3': 12, '4': 13.5, '5': 18, '6': 24, '7': 36,
+  'xx-small': 7, 'x-small': 7.5, small: 10, medium: 12, large: 13.5, 'x-large': 18, 'xx-large': 24, 'xxx-large': 36
+};
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  vertAlign?: 'superscript' | 'subscript';
+  color?: string;     // RRGGBB
+  highlight?: string; // RRGGBB
+  font?: string;
+  halfPoints?: number;
+  linkId?: string;    // Relationship ID of an external hyperlink
+}
+
+interface ParaStyle {
+  style?: string;
+  numId?: number;
+  level?: number;
+  align?: 'left' | 'center' | 'right' | 'both';
+  ai?: boolean;
+  pre?: boolean;
+}
+
+// What document.xml refers to: relationships, media files and list instances
+interface DocxPackage {
+  relationships: string[];
+  media: { name: string; data: Blob }[];
+  orderedLists: { numId: number; level: number; start: number }[];
+  nextDrawingId: number;
+}
+
+const escapeXml = (text: string) => text
+  .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const addRelationship = (pkg: DocxPackage, type: string, target: string, external = false) => {
+  const id = `rId${pkg.relationships.length + 10}`; // rId1-9 are reserved for the fixed parts
+  pkg.relationships.push(`<Relationship Id="${id}" Type="${REL_TYPE}/${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ''}/>`);
+  return id;
+};
+
+// CSS colour (#rgb, #rrggbb, rgb(), rgba()) as RRGGBB; null for transparent or unknown values
+const toHexColor = (value: string): string | null => {
+  const color = value.trim().toLowerCase();
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    return digits.toUpperCase();
+  }
+  const rgb = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+%?))?\s*\)$/);
+  if (!rgb) return color === 'black' ? '000000' : color === 'white' ? 'FFFFFF' : null;
+  if (rgb[4] !== undefined && parseFloat(rgb[4]) === 0) return null;
+  return rgb.slice(1, 4).map(n => Math.min(255, Number(n)).toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+const toHalfPoints = (value: string): number | undefined => {
+  const size = value.trim().toLowerCase();
+  if (FONT_SIZE_POINTS[size]) return FONT_SIZE_POINTS[size] * 2;
+  const match = size.match(/^([\d.]+)(px|pt|em|rem)$/);
+  if (!match) return undefined;
+  const amount = parseFloat(match[1]);
+  const points = match[2] === 'pt' ? amount : match[2] === 'px' ? amount * 0.75 : amount * 12;
+  return Math.round(points * 2);
+};
+
+const firstFontFamily = (value: string) => value.split(',')[0].trim().replace(/^["']|["']$/g, '');
+
+const runStyleOf = (el: HTMLElement, parent: RunStyle, pkg: DocxPackage): RunStyle => {
+  const run: RunStyle = { ...parent };
+  switch (el.tagName) {
+    case 'B': case 'STRONG': case 'TH': run.bold = true; break;
+    case 'I': case 'EM': case 'CITE': run.italic = true; break;
+    case 'U': case 'INS': run.underline = true; break;
+    case 'S': case 'STRIKE': case 'DEL': run.strike = true; break;
+    case 'CODE': case 'KBD': case 'SAMP': run.code = true; break;
+    case 'SUP': run.vertAlign = 'superscript'; break;
+    case 'SUB': run.vertAlign = 'subscript'; break;
+    case 'MARK': run.highlight = 'FEF08A'; break;
+    case 'FONT': {
+      const color = el.getAttribute('color');
+      const face = el.getAttribute('face');
+      const size = el.getAttribute('size');
+      if (color && toHexColor(color)) run.color = toHexColor(color)!;
+      if (face) run.font = firstFontFamily(face);
+      if (size && FONT_SIZE_POINTS[size]) run.halfPoints = FONT_SIZE_POINTS[size] * 2;
+      break;
+    }
+    case 'A': {
+      const href = el.getAttribute('href') || '';
+      if (/^(https?:|mailto:)/i.test(href)) run.linkId = addRelationship(pkg, 'hyperlink', href, true);
+      break;
+    }
+  }
+
+  const { style } = el;
+  if (style.color) {
+    // 'inherit' is the toolbar's "Default" colour
+    const color = toHexColor(style.color);
+    if (color) run.color = color; else if (style.color === 'inherit') delete run.color;
+  }
+  if (style.backgroundColor) {
+    const highlight = toHexColor(style.backgroundColor);
+    if (highlight) run.highlight = highlight; else delete run.highlight;
+  }
+  if (style.fontFamily) run.font = firstFontFamily(style.fontFamily);
+  if (style.fontSize) run.halfPoints = toHalfPoints(style.fontSize) ?? run.halfPoints;
+  if (style.fontWeight) run.bold = style.fontWeight === 'bold' || Number(style.fontWeight) >= 600;
+  if (style.fontStyle) run.italic = style.fontStyle === 'italic';
+  if (style.textDecoration || style.textDecorationLine) {
+    const decoration = style.textDecorationLine || style.textDecoration;
+    if (decoration.includes('underline')) run.underline = true;
+    if (decoration.includes('line-through')) run.strike = true;
+  }
+  return run;
+};
+
+const runProperties = (run: RunStyle) => {
+  const font = run.code ? 'Consolas' : run.font;
+  const props = [
+    run.linkId ? '<w:rStyle w:val="Hyperlink"/>' : '',
+    font ? `<w:rFonts w:ascii="${escapeXml(font)}" w:hAnsi="${escapeXml(font)}" w:eastAsia="${escapeXml(font)}" w:cs="${escapeXml(font)}"/>` : '',
+    run.bold ? '<w:b/><w:bCs/>' : '',
+    run.italic ? '<w:i/><w:iCs/>' : '',
+    run.strike ? '<w:strike/>' : '',
+    run.color ? `<w:color w:val="${run.color}"/>` : '',
+    run.halfPoints ? `<w:sz w:val="${run.halfPoints}"/><w:szCs w:val="${run.halfPoints}"/>` : '',
+    run.underline ? '<w:u w:val="single"/>' : '',
+    run.highlight || run.code ? `<w:shd w:val="clear" w:color="auto" w:fill="${run.highlight || 'F1F5F9'}"/>` : '',
+    run.vertAlign ? `<w:vertAlign w:val="${run.vertAlign}"/>` : ''
+  ].join('');
+  return props ? `<w:rPr>${props}</w:rPr>` : '';
+};
+
+const wrapLink = (run: RunStyle, xml: string) =>
+  run.linkId ? `<w:hyperlink r:id="${run.linkId}">${xml}</w:hyperlink>` : xml;
+
+// Line breaks only survive in preformatted text; elsewhere whitespace is collapsed beforehand
+const textRun = (text: string, run: RunStyle) => {
+  const content = text.split('\n').map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`).join('<w:br/>');
+  return wrapLink(run, `<w:r>${runProperties(run)}${content}</w:r>`);
+};
+
+const LINE_BREAK = '<w:r><w:br/></w:r>';
+
+const paragraphProperties = (para: ParaStyle) => {
+  const props = [
+    para.style ? `<w:pStyle w:val="${para.style}"/>` : '',
+    para.numId !== undefined ? `<w:numPr><w:ilvl w:val="${para.level || 0}"/><w:numId w:val="${para.numId}"/></w:numPr>` : '',
+    para.ai ? `<w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="${AI_BAR}"/></w:pBdr>` : '',
+    para.ai ? `<w:shd w:val="clear" w:color="auto" w:fill="${AI_SHADING}"/>` : '',
+    para.align ? `<w:jc w:val="${para.align}"/>` : ''
+  ].join('');
+  return props ? `<w:pPr>${props}</w:pPr>` : '';
+};
+
+const paraStyleOf = (el: HTMLElement, parent: ParaStyle): ParaStyle => {
+  const para: ParaStyle = { ...parent };
+  const heading = el.tagName.match(/^H([1-6])$/);
+  if (heading) para.style = `Heading${heading[1]}`;
+  else if (el.tagName === 'BLOCKQUOTE') para.style = 'Quote';
+  else if (el.tagName === 'PRE') { para.style = 'Code'; para.pre = true; }
+
+  // The wrapper the AI output is inserted with carries the prose reset variables
+  if ((el.getAttribute('style') || '').includes('--tw-prose-body')) para.ai = true;
+
+  const align = (el.style.textAlign || el.getAttribute('align') || '').toLowerCase();
+  if (align === 'center' || align === 'right' || align === 'left') para.align = align;
+  else if (align === 'justify') para.align = 'both';
+  return para;
+};
+
+// Word reliably shows PNG, JPEG, GIF and BMP; anything else is redrawn as PNG
+const toWordImage = async (blob: Blob): Promise<{ data: Blob; ext: string; width: number; height: number } | null> => {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const { width, height } = bitmap;
+    const known: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpeg', 'image/gif': 'gif', 'image/bmp': 'bmp' };
+    if (known[blob.type]) {
+      bitmap.close();
+      return { data: blob, ext: known[blob.type], width, height };
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    return png ? { data: png, ext: 'png', width, height } : null;
+  } catch (err) {
+    console.warn("Could not read an image for the DOCX export", err);
+    return null;
+  }
+};
+
+const imageRun = async (img: HTMLImageElement, pkg: DocxPackage): Promise<string> => {
+  const hash = img.getAttribute(INLINE_IMAGE_ATTR);
+  const src = img.getAttribute('src') || '';
+  let blob: Blob | null = hash ? await getBlob(hash) : null;
+  if (!blob && src.startsWith('data:image/')) blob = await (await fetch(src)).blob();
+
+  const image = blob && await toWordImage(blob);
+  const alt = img.getAttribute('alt') || '';
+  if (!image) return alt ? textRun(`[${alt}]`, {}) : '';
+
+  const name = `image${pkg.media.length + 1}.${image.ext}`;
+  pkg.media.push({ name, data: image.data });
+  const relId = addRelationship(pkg, 'image', `media/${name}`);
+
+  // Honour a width set in the editor, never wider than the page
+  const requested = parseFloat(img.style.width || img.getAttribute('width') || '') || image.width;
+  const widthPx = Math.min(requested, MAX_IMAGE_WIDTH_PX);
+  const cx = Math.round(widthPx * EMU_PER_PX);
+  const cy = Math.round(widthPx * (image.height / image.width) * EMU_PER_PX);
+  const id = pkg.nextDrawingId++;
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/>`
+    + `<wp:docPr id="${id}" name="Picture ${id}" descr="${escapeXml(alt)}"/>`
+    + `<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>`
+    + `<a:graphic><a:graphicData uri="${NS.pic}"><pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>`
+    + `<pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+    + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+    + `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+};
+
+/**
+ * Block-level WordprocessingML for a list of nodes. Inline content is gathered into runs and
+ * written out as a paragraph whenever a block element starts or ends.
+ */
+const convertNodes = async (nodes: Node[], baseRun: RunStyle, basePara: ParaStyle, pkg: DocxPackage): Promise<string> => {
+  const out: string[] = [];
+  let runs: string[] = [];
+
+  // keepEmpty: the block ended and held nothing but line breaks, i.e. it is a blank line
+  const flush = (para: ParaStyle, keepEmpty: boolean) => {
+    while (runs.length > 0 && runs[runs.length - 1] === LINE_BREAK) runs.pop(); // HTML ignores a trailing <br>
+    if (runs.length > 0 || keepEmpty) out.push(`<w:p>${paragraphProperties(para)}${runs.join('')}</w:p>`);
+    runs = [];
+  };
+
+  const visit = async (node: Node, run: RunStyle, para: ParaStyle): Promise<void> => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      let text = node.textContent || '';
+      if (!para.pre) {
+        text = text.replace(/\s+/g, ' ');
+        if (runs.length === 0) text = text.trimStart();
+      }
+      if (text) runs.push(textRun(text, run));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const el = node as HTMLElement;
+    if (SKIPPED_TAGS.has(el.tagName)) return;
+    if (BLOCK_TAGS.has(el.tagName)) {
+      flush(para, false);
+      await block(el, run, para);
+    } else if (el.tagName === 'BR') {
+      runs.push(LINE_BREAK);
+    } else if (el.tagName === 'IMG') {
+      const image = await imageRun(el as HTMLImageElement, pkg);
+      if (image) runs.push(image);
+    } else {
+      const childRun = runStyleOf(el, run, pkg);
+      for (const child of Array.from(el.childNodes)) await visit(child, childRun, para);
+    }
+  };
+
+  const block = async (el: HTMLElement, parentRun: RunStyle, parentPara: ParaStyle): Promise<void> => {
+    const run = runStyleOf(el, parentRun, pkg);
+    const para = paraStyleOf(el, parentPara);
+
+    if (el.tagName === 'HR') {
+      const dashed = (el.getAttribute('style') || '').includes('dashed');
+      out.push(`<w:p><w:pPr><w:pBdr><w:bottom w:val="${dashed ? 'dashed' : 'single'}" w:sz="8" w:space="1" w:color="CBD5E1"/></w:pBdr></w:pPr></w:p>`);
+      return;
+    }
+    if (el.tagName === 'TABLE') {
+      out.push(await table(el as HTMLTableElement, run, para));
+      return;
+    }
+    if (el.tagName === 'UL' || el.tagName === 'OL') {
+      const level = parentPara.numId !== undefined ? Math.min((parentPara.level || 0) + 1, 8) : 0;
+      let numId = BULLET_NUM_ID;
+      if (el.tagName === 'OL') {
+        numId = BULLET_NUM_ID + pkg.orderedLists.length + 1;
+        pkg.orderedLists.push({ numId, level, start: parseInt(el.getAttribute('start') || '1', 10) || 1 });
+      }
+      const listPara: ParaStyle = { ...para, style: undefined, numId, level };
+      for (const child of Array.from(el.childNodes)) {
+        if (child.nodeType === Node.ELEMENT_NODE && (child as HTMLElement).tagName === 'LI') await block(child as HTMLElement, run, listPara);
+        else await visit(child, run, listPara);
+      }
+      flush(listPara, false);
+      return;
+    }
+
+    const outBefore = out.length;
+    for (const child of Array.from(el.childNodes)) await visit(child, run, para);
+    flush(para, out.length === outBefore);
+  };
+
+  const table = async (el: HTMLTableElement, run: RunStyle, para: ParaStyle): Promise<string> => {
+    const rows = Array.from(el.rows);
+    const columns = Math.max(1, ...rows.map(row => Array.from(row.cells).reduce((sum, cell) => sum + (cell.colSpan || 1), 0)));
+    const columnWidth = Math.floor(TEXT_WIDTH_TWIPS / columns);
+    const cellPara: ParaStyle = { ai: para.ai };
+
+    const xmlRows: string[] = [];
+    for (const row of rows) {
+      const cells: string[] = [];
+      for (const cell of Array.from(row.cells)) {
+        const span = cell.colSpan || 1;
+        let content = await convertNodes(Array.from(cell.childNodes), runStyleOf(cell, run, pkg), cellPara, pkg);
+        if (!content.endsWith('</w:p>')) content += '<w:p/>'; // A cell must end with a paragraph
+        const shading = cell.tagName === 'TH' ? '<w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/>' : '';
+        cells.push(`<w:tc><w:tcPr><w:tcW w:w="${columnWidth * span}" w:type="dxa"/>${span > 1 ? `<w:gridSpan w:val="${span}"/>` : ''}${shading}</w:tcPr>${content}</w:tc>`);
+      }
+      xmlRows.push(`<w:tr>${cells.join('')}</w:tr>`);
+    }
+    return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="${columnWidth * columns}" w:type="dxa"/></w:tblPr>`
+      + `<w:tblGrid>${`<w:gridCol w:w="${columnWidth}"/>`.repeat(columns)}</w:tblGrid>${xmlRows.join('')}</w:tbl>`;
+  };
+
+  for (const node of nodes) await visit(node, baseRun, basePara);
+  flush(basePara, false);
+  return out.join('');
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString([], {
+  year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit'
+});
+
+const headingStyles = () => [36, 30, 26, 24, 22, 22].map((size, i) =>
+  `<w:style w:type="paragraph" w:styleId="Heading${i + 1}"><w:name w:val="heading ${i + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>`
+  + `<w:pPr><w:keepNext/><w:spacing w:before="${i < 2 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${i}"/></w:pPr>`
+  + `<w:rPr><w:b/><w:bCs/><w:color w:val="1E293B"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`
+).join('');
+
+const STYLES_XML = XML_HEADER + `<w:styles xmlns:w="${NS.w}">`
+  + `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Microsoft YaHei" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US" w:eastAsia="zh-CN"/></w:rPr></w:rPrDefault>`
+  + `<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>`
+  + `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/><w:rPr><w:color w:val="334155"/></w:rPr></w:style>`
+  + `<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/></w:pPr><w:rPr><w:b/><w:color w:val="0F172A"/><w:sz w:val="48"/><w:szCs w:val="48"/></w:rPr></w:style>`
+  + `<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="8" w:color="E2E8F0"/></w:pBdr><w:spacing w:after="240"/></w:pPr><w:rPr><w:color w:val="64748B"/><w:sz w:val="20"/></w:rPr></w:style>`
+  + headingStyles()
+  + `<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="CBD5E1"/></w:pBdr><w:ind w:left="360"/></w:pPr><w:rPr><w:i/><w:color w:val="475569"/></w:rPr></w:style>`
+  + `<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/></w:rPr></w:style>`
+  + `<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="2563EB"/><w:u w:val="single"/></w:rPr></w:style>`
+  + `<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>`
+  + ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/>`).join('')
+  + `</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>`
+  + `</w:styles>`;
+
+const numberingXml = (orderedLists: DocxPackage['orderedLists']) => {
+  const levels = (format: (level: number) => [string, string]) => Array.from({ length: 9 }, (_, level) => {
+    const [numFmt, text] = format(level);
+    return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${numFmt}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>`
+      + `<w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+  }).join('');
+  const bullets = ['•', '◦', '▪'];
+  const numbers: [string, string][] = [['decimal', '.'], ['lowerLetter', '.'], ['lowerRoman', '.']];
+
+  return XML_HEADER + `<w:numbering xmlns:w="${NS.w}">`
+    + `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(level => ['bullet', bullets[level % 3]])}</w:abstractNum>`
+    + `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels(level => [numbers[level % 3][0], `%${level + 1}${numbers[level % 3][1]}`])}</w:abstractNum>`
+    + `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>`
+    + orderedLists.map(list => `<w:num w:numId="${list.numId}"><w:abstractNumId w:val="1"/>`
+      + `<w:lvlOverride w:ilvl="${list.level}"><w:startOverride w:val="${list.start}"/></w:lvlOverride></w:num>`).join('')
+    + `</w:numbering>`;
+};
+
+const CONTENT_TYPES_XML = XML_HEADER + `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+  + `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>`
+  + `<Default Extension="xml" ContentType="application/xml"/>`
+  + `<Default Extension="png" ContentType="image/png"/><Default Extension="jpeg" ContentType="image/jpeg"/>`
+  + `<Default Extension="gif" ContentType="image/gif"/><Default Extension="bmp" ContentType="image/bmp"/>`
+  + `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>`
+  + `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>`
+  + `<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>`
+  + `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>`
+  + `</Types>`;
+
+const ROOT_RELS_XML = XML_HEADER + `<Relationships xmlns="${NS.rel}">`
+  + `<Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/>`
+  + `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>`
+  + `</Relationships>`;
+
+const coreXml = (note: NoteSession) => {
+  const iso = (timestamp: number) => new Date(timestamp).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return XML_HEADER + `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`
+    + `<dc:title>${escapeXml(note.title)}</dc:title>`
+    + (note.tags?.length ? `<cp:keywords>${escapeXml(note.tags.join(', '))}</cp:keywords>` : '')
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${iso(note.createdAt)}</dcterms:created>`
+    + `<dcterms:modified xsi:type="dcterms:W3CDTF">${iso(note.editedAt || note.updatedAt || note.createdAt)}</dcterms:modified>`
+    + `</cp:coreProperties>`;
+};
+
+/**
+ * Builds the .docx for a note: its title and creation date, then the content of `inputText`.
+ */
+export const exportNoteToDocx = async (note: NoteSession): Promise<Blob> => {
+  const pkg: DocxPackage = { relationships: [], media: [], orderedLists: [], nextDrawingId: 1 };
+  const doc = new DOMParser().parseFromString(note.inputText || '', 'text/html');
+  const content = await convertNodes(Array.from(doc.body.childNodes), {}, {}, pkg);
+
+  const body = `<w:p><w:pPr><w:pStyle w:val="Title"/></w:pPr>${textRun(note.title || 'Untitled Note', {})}</w:p>`
+    + `<w:p><w:pPr><w:pStyle w:val="Subtitle"/></w:pPr>${textRun(formatDate(note.createdAt), {})}</w:p>`
+    + content
+    + `<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1417" w:right="1440" w:bottom="1417" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>`;
+
+  const documentXml = XML_HEADER
+    + `<w:document xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:pic="${NS.pic}"><w:body>${body}</w:body></w:document>`;
+
+  const documentRels = XML_HEADER + `<Relationships xmlns="${NS.rel}">`
+    + `<Relationship Id="rId1" Type="${REL_TYPE}/styles" Target="styles.xml"/>`
+    + `<Relationship Id="rId2" Type="${REL_TYPE}/numbering" Target="numbering.xml"/>`
+    + pkg.relationships.join('')
+    + `</Relationships>`;
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES_XML);
+  zip.file('_rels/.rels', ROOT_RELS_XML);
+  zip.file('docProps/core.xml', coreXml(note));
+  zip.file('word/document.xml', documentXml);
+  zip.file('word/_rels/document.xml.rels', documentRels);
+  zip.file('word/styles.xml', STYLES_XML);
+  zip.file('word/numbering.xml', numberingXml(pkg.orderedLists));
+  pkg.media.forEach(({ name, data }) => zip.file(`word/media/${name}`, data));
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    compression: 'DEFLATE'
+  });
+};
@@ -0,0 +1,129 @@
+import { ImagePreview, NoteSession } from '../types';
+import { createNewNote } from '../utils/constants';
+import { md5Hex } from '../utils/hash';
+import { sanitizeHtml } from '../utils/sanitizeHtml';
+import { NoteImport, createImportedAttachment, storeImportedImage } from './importSource';
+
+// Imports Evernote exports (.enex): an XML list of notes whose bodies are ENML (XHTML with a
+// few en-* elements) and whose attachments are base64 <resource> entries. The body refers to
+// a resource by the MD5 of its data: <en-media hash="..." type="image/png"/>.
+
+interface EnexResource {
+  blob: Blob;
+  fileName: string;
+}
+
+const childText = (parent: Element, tag: string) => parent.getElementsByTagName(tag)[0]?.textContent?.trim() || '';
+
+// ENEX timestamps look like 20130730T205204Z
+const parseEnexDate = (value: string): number | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes, seconds);
+};
+
+const decodeBase64 = (text: string) => Uint8Array.from(atob(text.replace(/\s+/g, '')), c => c.charCodeAt(0));
+
+const readResources = (note: Element): Map<string, EnexResource> => {
+  const resources = new Map<string, EnexResource>();
+  Array.from(note.getElementsByTagName('resource')).forEach((resource, i) => {
+    const data = decodeBase64(childText(resource, 'data'));
+    const mimeType = childText(resource, 'mime') || 'application/octet-stream';
+    const fileName = childText(resource, 'file-name') || `attachment-${i + 1}`;
+    resources.set(md5Hex(data), { blob: new Blob([data], { type: mimeType }), fileName });
+  });
+  return resources;
+};
+
+const convertNote = async (note: Element, source: string, failed: NoteImport['failed']): Promise<NoteSession> => {
+  const title = childText(note, 'title') || 'Untitled';
+  const resources = readResources(note);
+  const attachments: ImagePreview[] = [];
+  const attachedHashes = new Set<string>();
+
+  const attach = async (hash: string, resource: EnexResource) => {
+    if (attachedHashes.has(hash)) return;
+    attachedHashes.add(hash);
+    attachments.push(await createImportedAttachment(resource.blob, resource.fileName));
+  };
+
+  // The HTML parser does not know en-* elements are empty; a self-closed one would swallow what follows
+  const enml = childText(note, 'content').replace(/<(en-media|en-todo|en-crypt)\b([^>]*?)\/\s*>/gi, '<$1$2></$1>');
+  const doc = new DOMParser().parseFromString(enml, 'text/html');
+  const body = doc.querySelector('en-note') || doc.body;
+
+  const shownHashes = new Set<string>();
+  for (const media of Array.from(body.querySelectorAll('en-media'))) {
+    const hash = (media.getAttribute('hash') || '').toLowerCase();
+    const resource = resources.get(hash);
+    shownHashes.add(hash);
+    if (!resource) {
+      failed.push({ path: `${source} › ${title}`, reason: `Attachment ${hash || '(no hash)'} is missing from the export` });
+      media.remove();
+    } else if (resource.blob.type.startsWith('image/')) {
+      const template = doc.createElement('template');
+      template.innerHTML = await storeImportedImage(resource.blob, media.getAttribute('alt') || '');
+      media.replaceWith(template.content);
+    } else {
+      await attach(hash, resource);
+      media.replaceWith(doc.createTextNode(`📎 ${resource.fileName}`));
+    }
+  }
+
+  body.querySelectorAll('en-todo').forEach(todo => {
+    todo.replaceWith(doc.createTextNode(todo.getAttribute('checked') === 'true' ? '☑ ' : '☐ '));
+  });
+
+  body.querySelectorAll('en-crypt').forEach(crypt => {
+    failed.push({ path: `${source} › ${title}`, reason: "Encrypted text cannot be imported" });
+    crypt.replaceWith(doc.createTextNode('(encrypted text not imported)'));
+  });
+
+  // Resources the body does not show, e.g. files attached to the note as a whole
+  for (const [hash, resource] of resources) {
+    if (!shownHashes.has(hash)) await attach(hash, resource);
+  }
+
+  const tags = Array.from(new Set(Array.from(note.getElementsByTagName('tag')).map(t => t.textContent?.trim() || '').filter(Boolean)));
+  return {
+    ...createNewNote(title),
+    inputText: sanitizeHtml(body.innerHTML.trim()),
+    attachments,
+    createdAt: parseEnexDate(childText(note, 'created')) ?? Date.now(),
+    ...(tags.length > 0 ? { tags } : {})
+  };
+};
+
+export const isEnexFile = (name: string) => /\.enex$/i.test(name);
+
+/**
+ * Converts every note in the given .enex files. Created timestamps and tags are kept; images
+ * become inline images and every other resource an attachment.
+ */
+export const importEnexFiles = async (files: File[]): Promise<NoteImport> => {
+  const result: NoteImport = { notes: [], skipped: [], failed: [] };
+
+  for (const file of files) {
+    if (!isEnexFile(file.name)) {
+      result.skipped.push({ path: file.name, reason: "Not an Evernote export (.enex)" });
+      continue;
+    }
+    const xml = new DOMParser().parseFromString(await file.text(), 'application/xml');
+    if (xml.getElementsByTagName('parsererror').length > 0 || xml.documentElement.tagName !== 'en-export') {
+      result.failed.push({ path: file.name, reason: "Not a valid Evernote export" });
+      continue;
+    }
+
+    for (const note of Array.from(xml.documentElement.getElementsByTagName('note'))) {
+      try {
+        result.notes.push(await convertNote(note, file.name, result.failed));
+      } catch (err: any) {
+        console.warn(`Could not import a note from ${file.name}`, err);
+        result.failed.push({ path: `${file.name} › ${childText(note, 'title') || 'Untitled'}`, reason: err?.message || String(err) });
+      }
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,360 @@
+import { NoteSession, AppStatus, ImagePreview, ChatMessage, NoteRole, Folder } from '../types';
+import { StorageBackend, NoteChanges, SaveResult, ExternalChange, StoredNote } from './storageBackend';
+import { getStagedBlob, releaseStagedBlob } from './stagedBlobs';
+import { hashBlob } from '../utils/hash';
+import { extractInlineImageHashes, replaceInlineImageSrc, dehydrateInlineImages } from '../utils/inlineImages';
+import { uniqueFileName } from '../utils/download';
+import { detectAttachmentType } from '../utils/constants';
+import { isValidDayKey } from '../utils/dates';
+import { sanitizeHtml } from '../utils/sanitizeHtml';
+import { getIpcRenderer } from '../utils/electron';
+
+/**
+ * Folder vault layout (Electron only), one folder per note named after its ID:
+ *
+ *   notes/<id>/meta.json              title, dates, role, AI result, attachment list
+ *   notes/<id>/note.html              note content; inline images point at images/ so the file
+ *                                     renders outside the app
+ *   notes/<id>/chat.json              chatHistory
+ *   notes/<id>/attachments/<name>     attachment files under their original names
+ *   notes/<id>/images/<hash>.<ext>    inline images
+ *   trash/<id>/...                    same layout for notes in the Trash
+ *   folders.json                      the sidebar folder tree; notes refer to it by folderId
+ *
+ * Files are read and written by the main process (electron/vault.js).
+ */
+
+const NOTES_DIR = 'notes';
+const TRASH_DIR = 'trash';
+const FOLDERS_FILE = 'folders.json';
+const VAULT_FORMAT = 1;
+const VALID_ROLES: NoteRole[] = ['autosar', 'notebooklm', 'general', 'weekly'];
+
+type Collection = typeof NOTES_DIR | typeof TRASH_DIR;
+
+interface VaultAttachment {
+  hash: string;
+  name: string;
+  mimeType: string;
+  type: ImagePreview['type'];
+  path: string; // Relative to the note folder
+}
+
+interface VaultEntry {
+  name: string;
+  isDirectory: boolean;
+}
+
+// What is on disk for each note, so a save only writes the files that changed
+interface NoteFolder {
+  collection: Collection;
+  attachmentPaths: Map<string, string>; // hash -> path in the note folder
+  images: Map<string, string>;          // hash -> file name in images/
+}
+
+const folders = new Map<string, NoteFolder>();
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp'
+};
+
+const imageFileName = (hash: string, type: string) => `${hash}.${IMAGE_EXTENSIONS[type] || 'bin'}`;
+
+const imageTypeFromName = (fileName: string) =>
+  Object.keys(IMAGE_EXTENSIONS).find(type => fileName.endsWith(`.${IMAGE_EXTENSIONS[type]}`)) || '';
+
+const invoke = <T = any>(channel: string, ...args: any[]): Promise<T> => getIpcRenderer().invoke(channel, ...args);
+
+const readFile = (relPath: string) => invoke<Uint8Array | null>('vault:read', relPath);
+
+const readText = async (relPath: string): Promise<string | null> => {
+  const data = await readFile(relPath);
+  return data ? new TextDecoder().decode(data) : null;
+};
+
+export const openFsVault = async (root: string) => {
+  await invoke('vault:open', root);
+  folders.clear();
+};
+
+export const closeFsVault = async () => {
+  await invoke('vault:close');
+  folders.clear();
+};
+
+export const chooseVaultDirectory = (): Promise<string | null> => invoke('vault:choose-directory');
+
+const readNoteFolder = async (collection: Collection, id: string): Promise<NoteSession> => {
+  const dir = `${collection}/${id}`;
+  const metaText = await readText(`${dir}/meta.json`);
+  if (metaText === null) throw new Error("meta.json is missing");
+  const meta = JSON.parse(metaText);
+
+  const chatText = await readText(`${dir}/chat.json`);
+  const chatHistory: ChatMessage[] = chatText ? JSON.parse(chatText) : [];
+
+  const attachments: ImagePreview[] = [];
+  const attachmentPaths = new Map<string, string>();
+  for (const att of (meta.attachments || []) as VaultAttachment[]) {
+    const data = await readFile(`${dir}/${att.path}`);
+    if (!data) {
+      console.warn(`Attachment "${att.path}" of note ${id} is missing from the vault`);
+      continue;
+    }
+    const file = new File([data as Uint8Array<ArrayBuffer>], att.name, { type: att.mimeType });
+    // Re-hash: the file may have been replaced outside the app
+    const hash = await hashBlob(file);
+    attachments.push({ file, hash, url: URL.createObjectURL(file), type: att.type || detectAttachmentType(file) });
+    attachmentPaths.set(hash, att.path);
+  }
+
+  const imageEntries = await invoke<VaultEntry[]>('vault:list', `${dir}/images`);
+  const images = new Map(imageEntries
+    .filter(entry => !entry.isDirectory && /^[0-9a-f]{64}\./.test(entry.name))
+    .map(entry => [entry.name.slice(0, 64), entry.name] as [string, string]));
+
+  folders.set(id, { collection, attachmentPaths, images });
+
+  // note.html can be edited by anything outside the app; the relative image paths go with the
+  // other unknown URLs and the images are found again by hash
+  const html = sanitizeHtml((await readText(`${dir}/note.html`)) || '');
+  return {
+    id,
+    title: typeof meta.title === 'string' ? meta.title : '',
+    inputText: dehydrateInlineImages(html),
+    attachments,
+    result: meta.result || null,
+    status: meta.result ? AppStatus.SUCCESS : AppStatus.IDLE,
+    error: null,
+    createdAt: typeof meta.createdAt === 'number' ? meta.createdAt : Date.now(),
+    // Folders written by older versions or by hand have no updatedAt
+    updatedAt: typeof meta.updatedAt === 'number' ? meta.updatedAt : 0,
+    ...(typeof meta.editedAt === 'number' ? { editedAt: meta.editedAt } : {}),
+    role: VALID_ROLES.includes(meta.role) ? meta.role : 'autosar',
+    chatHistory: Array.isArray(chatHistory) ? chatHistory : [],
+    ...(Array.isArray(meta.tags) ? { tags: meta.tags.filter((tag: unknown) => typeof tag === 'string') } : {}),
+    ...(typeof meta.folderId === 'string' ? { folderId: meta.folderId } : {}),
+    ...(isValidDayKey(meta.dailyDate) ? { dailyDate: meta.dailyDate } : {}),
+    ...(meta.pinned === true ? { pinned: true } : {}),
+    ...(meta.favorite === true ? { favorite: true } : {}),
+    ...(typeof meta.deletedAt === 'number' ? { deletedAt: meta.deletedAt } : {})
+  };
+};
+
+// Newest first. A folder that cannot be read is skipped (and left untouched on disk).
+const loadCollection = async (collection: Collection): Promise<NoteSession[]> => {
+  const entries = await invoke<VaultEntry[]>('vault:list', collection);
+  const notes: NoteSession[] = [];
+  for (const entry of entries.filter(e => e.isDirectory && !e.name.startsWith('.'))) {
+    try {
+      notes.push(await readNoteFolder(collection, entry.name));
+    } catch (err) {
+      console.warn(`Skipping unreadable note folder ${collection}/${entry.name}`, err);
+    }
+  }
+  return notes.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const loadFsNote = async (id: string): Promise<StoredNote | null> => {
+  for (const collection of [NOTES_DIR, TRASH_DIR] as Collection[]) {
+    if (await readFile(`${collection}/${id}/meta.json`)) {
+      return { note: await readNoteFolder(collection, id), isTrashed: collection === TRASH_DIR };
+    }
+  }
+  return null;
+};
+
+// updatedAt of the note as it is on disk right now, wherever it lives
+const storedUpdatedAt = async (id: string): Promise<number> => {
+  for (const collection of [NOTES_DIR, TRASH_DIR]) {
+    const metaText = await readText(`${collection}/${id}/meta.json`);
+    if (metaText === null) continue;
+    try {
+      const { updatedAt } = JSON.parse(metaText);
+      return typeof updatedAt === 'number' ? updatedAt : 0;
+    } catch {
+      return 0; // Unreadable meta.json: let the save repair it
+    }
+  }
+  return 0;
+};
+
+const loadFsBlob = async (hash: string): Promise<Blob | null> => {
+  for (const [id, folder] of folders) {
+    const dir = `${folder.collection}/${id}`;
+    const imageName = folder.images.get(hash);
+    const path = imageName ? `images/${imageName}` : folder.attachmentPaths.get(hash);
+    if (!path) continue;
+    const data = await readFile(`${dir}/${path}`);
+    if (data) return new Blob([data as Uint8Array<ArrayBuffer>], { type: imageName ? imageTypeFromName(imageName) : '' });
+  }
+  return null;
+};
+
+const toBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+const writeNote = async (note: NoteSession, collection: Collection) => {
+  let folder = folders.get(note.id);
+  if (folder && folder.collection !== collection) {
+    await invoke('vault:move', `${folder.collection}/${note.id}`, `${collection}/${note.id}`);
+    folder.collection = collection;
+  }
+  if (!folder) folder = { collection, attachmentPaths: new Map(), images: new Map() };
+
+  const dir = `${collection}/${note.id}`;
+  const files: { path: string; data: string | Uint8Array }[] = [];
+  const removals: string[] = [];
+
+  // Attachments and images are content-addressed: existing files never need rewriting
+  const attachmentHashes = new Set(note.attachments.map(att => att.hash));
+  const attachmentPaths = new Map<string, string>();
+  folder.attachmentPaths.forEach((path, hash) => {
+    if (attachmentHashes.has(hash)) attachmentPaths.set(hash, path);
+    else removals.push(`${dir}/${path}`);
+  });
+  const usedNames = new Set(Array.from(attachmentPaths.values()).map(path => path.replace(/^attachments\//, '').toLowerCase()));
+  for (const att of note.attachments) {
+    if (attachmentPaths.has(att.hash)) continue;
+    const path = `attachments/${uniqueFileName(att.file.name, usedNames)}`;
+    attachmentPaths.set(att.hash, path);
+    files.push({ path: `${dir}/${path}`, data: await toBytes(att.file) });
+  }
+
+  const imageHashes = extractInlineImageHashes(note.inputText);
+  const images = new Map<string, string>();
+  folder.images.forEach((name, hash) => {
+    if (imageHashes.includes(hash)) images.set(hash, name);
+    else removals.push(`${dir}/images/${name}`);
+  });
+  const writtenImages: string[] = [];
+  for (const hash of imageHashes.filter(h => !images.has(h))) {
+    // New images are staged in memory, or already stored with another note (duplicates)
+    const blob = getStagedBlob(hash) || await loadFsBlob(hash);
+    if (!blob) {
+      console.warn(`Inline image ${hash} of note ${note.id} is not available and was not written`);
+      continue;
+    }
+    const name = imageFileName(hash, blob.type);
+    images.set(hash, name);
+    files.push({ path: `${dir}/images/${name}`, data: await toBytes(blob) });
+    writtenImages.push(hash);
+  }
+
+  const meta = {
+    format: VAULT_FORMAT,
+    id: note.id,
+    title: note.title,
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+    ...(note.editedAt ? { editedAt: note.editedAt } : {}),
+    role: note.role,
+    result: note.result,
+    ...(note.tags?.length ? { tags: note.tags } : {}),
+    ...(note.folderId ? { folderId: note.folderId } : {}),
+    ...(note.dailyDate ? { dailyDate: note.dailyDate } : {}),
+    ...(note.pinned ? { pinned: true } : {}),
+    ...(note.favorite ? { favorite: true } : {}),
+    ...(note.deletedAt ? { deletedAt: note.deletedAt } : {}),
+    attachments: note.attachments.map((att): VaultAttachment => ({
+      hash: att.hash,
+      name: att.file.name,
+      mimeType: att.file.type,
+      type: att.type,
+      path: attachmentPaths.get(att.hash)!
+    }))
+  };
+  const html = replaceInlineImageSrc(note.inputText, hash => images.has(hash) ? `images/${images.get(hash)}` : '');
+
+  files.push({ path: `${dir}/note.html`, data: html });
+  files.push({ path: `${dir}/chat.json`, data: JSON.stringify(note.chatHistory, null, 2) });
+  // Written last: a note folder is only picked up once its meta.json exists
+  files.push({ path: `${dir}/meta.json`, data: JSON.stringify(meta, null, 2) });
+
+  await invoke('vault:write', files);
+  for (const path of removals) await invoke('vault:remove', path);
+
+  folders.set(note.id, { collection, attachmentPaths, images });
+  writtenImages.forEach(releaseStagedBlob);
+};
+
+const persistFsNoteChanges = async ({ upserts, trashed, deletedIds }: NoteChanges): Promise<SaveResult> => {
+  try {
+    for (const id of deletedIds) {
+      const folder = folders.get(id);
+      if (folder) await invoke('vault:remove', `${folder.collection}/${id}`);
+      folders.delete(id);
+    }
+    const staleIds: string[] = [];
+    const writes = [
+      ...upserts.map(note => ({ note, collection: NOTES_DIR as Collection })),
+      ...trashed.map(note => ({ note, collection: TRASH_DIR as Collection }))
+    ];
+    for (const { note, collection } of writes) {
+      if (await storedUpdatedAt(note.id) > note.updatedAt) {
+        staleIds.push(note.id);
+        continue;
+      }
+      await writeNote(note, collection);
+    }
+    return { ok: true, staleIds };
+  } catch (err: any) {
+    console.error("Vault Save Error:", err);
+    return { ok: false, error: `Could not write to the notes folder: ${err?.message || err}` };
+  }
+};
+
+// A missing or unreadable folders.json means no folders; notes filed in them show up unfiled
+const loadFsFolders = async (): Promise<Folder[]> => {
+  const text = await readText(FOLDERS_FILE);
+  if (!text) return [];
+  try {
+    const folders = JSON.parse(text);
+    return Array.isArray(folders)
+      ? folders.filter(folder => typeof folder?.id === 'string' && typeof folder.name === 'string')
+      : [];
+  } catch (err) {
+    console.warn(`Could not read ${FOLDERS_FILE}`, err);
+    return [];
+  }
+};
+
+const saveFsFolders = async (folders: Folder[]) => {
+  await invoke('vault:write', [{ path: FOLDERS_FILE, data: JSON.stringify(folders, null, 2) }]);
+};
+
+// The main process watches the vault and reports note folders touched by other programs
+const watchFsVault = (listener: (change: ExternalChange) => void) => {
+  const ipc = getIpcRenderer();
+  const handler = async (_event: unknown, { collection, id }: { collection: Collection; id: string }) => {
+    try {
+      if (await readFile(`${collection}/${id}/meta.json`)) {
+        listener({ kind: 'upsert', note: await readNoteFolder(collection, id), isTrashed: collection === TRASH_DIR });
+      } else if (folders.get(id)?.collection === collection) {
+        // Gone from where we last saw it (a move to the other collection arrives as an upsert)
+        folders.delete(id);
+        listener({ kind: 'delete', id });
+      }
+    } catch (err) {
+      console.warn(`Could not reload externally changed note ${collection}/${id}`, err);
+    }
+  };
+  ipc.on('vault:changed', handler);
+  return () => { ipc.removeListener('vault:changed', handler); };
+};
+
+export const fsVaultBackend: StorageBackend = {
+  kind: 'filesystem',
+  loadNotes: () => loadCollection(NOTES_DIR),
+  loadTrash: () => loadCollection(TRASH_DIR),
+  persistNoteChanges: persistFsNoteChanges,
+  loadNote: loadFsNote,
+  loadBlob: loadFsBlob,
+  loadFolders: loadFsFolders,
+  saveFolders: saveFsFolders,
+  watch: watchFsVault
+};
@@ -3,6 +3,8 @@ import { NoteRole, ChatMessage } from "../types";
 import mammoth from 'mammoth';
 import * as XLSX from 'xlsx';
 import JSZip from 'jszip';
+import { getBlob } from './blobStore';
+import { INLINE_IMAGE_ATTR } from '../utils/inlineImages';
 
 const PROMPTS = {
   autosar: `
@@ -497,7 +499,22 @@ async function parseHtmlToContentParts(html: string): Promise<any[]> {
       
       if (el.tagName === 'IMG') {
         const src = (el as HTMLImageElement).getAttribute('src');
-        if (src && src.startsWith('data:image')) {
+        const hash = el.getAttribute(INLINE_IMAGE_ATTR);
+        // Stored images: note HTML only carries the hash, the bytes live in the blob store
+        const blob = hash ? await getBlob(hash) : null;
+        if (blob) {
+          if (currentText.trim()) {
+            parts.push({ text: currentText });
+            currentText = "";
+          }
+
+          parts.push({
+            inlineData: {
+              mimeType: blob.type || 'image/png',
+              data: await fileToGenerativePart(blob)
+            }
+          });
+        } else if (src && src.startsWith('data:image')) {
           if (currentText.trim()) {
             parts.push({ text: currentText });
             currentText = "";
@@ -533,7 +550,7 @@ async function parseHtmlToContentParts(html: string): Promise<any[]> {
   return parts;
 }
 
-async function fileToGenerativePart(file: File): Promise<string> {
+async function fileToGenerativePart(file: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onloadend = () => {
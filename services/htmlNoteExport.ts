@@ -0,0 +1,202 @@
+import { ChatMessage, ImagePreview, NoteSession } from '../types';
+import { createNewNote, generateId } from '../utils/constants';
+import { hashBlob } from '../utils/hash';
+import { sanitizeHtml } from '../utils/sanitizeHtml';
+import { isNoteResult, readChatHistory, readTags } from '../utils/noteFields';
+import {
+  INLINE_IMAGE_ATTR, blobToDataUrl, dataUrlToBlob, dehydrateInlineImages, extractInlineImageHashes
+} from '../utils/inlineImages';
+import { registerBlob } from './blobStore';
+import { NoteImport } from './importSource';
+import { NOTE_DOCUMENT_STYLES, ROLE_LABELS, escapeHtml, formatDate, renderNoteArticle } from './noteDocument';
+
+/**
+ * A single note as one .html file that opens in any browser:
+ *
+ *   <article>                          the note, images inlined as data URLs (still tagged with their hash)
+ *   <section class="note-attachments"> a download link per attachment, the file embedded as a data URL
+ *   <section class="note-chat">        the chat transcript
+ *   <script id="smart-note-data">      JSON with everything else needed to import the file again
+ *
+ * The JSON carries no binary data; on import the images and attachments are taken from the
+ * data URLs above and matched by hash.
+ */
+
+const DATA_BLOCK_ID = 'smart-note-data';
+const HTML_NOTE_FORMAT = 1;
+
+interface HtmlNoteAttachment {
+  hash: string;
+  name: string;
+  mimeType: string;
+  type: ImagePreview['type'];
+}
+
+interface HtmlNoteData {
+  format: number;
+  note: Pick<NoteSession, 'id' | 'title' | 'inputText' | 'createdAt' | 'updatedAt' | 'role' | 'result' | 'chatHistory' | 'tags'>;
+  attachments: HtmlNoteAttachment[];
+}
+
+// The page is meant for reading on screen; printing it still works
+const SCREEN_STYLES = `
+  body { max-width: 820px; margin: 0 auto; padding: 40px 24px; }
+  section { margin-top: 36px; border-top: 1px solid #e2e8f0; padding-top: 12px; }
+  section h2 { font-size: 13pt; margin: 0 0 10px; }
+  .note-attachments ul { list-style: none; padding: 0; margin: 0; }
+  .note-attachments li { padding: 4px 0; }
+  .note-attachments .size { color: #94a3b8; font-size: 9pt; margin-left: 6px; }
+  .chat-message { margin: 10px 0; padding: 10px 14px; border-radius: 10px; background: #f1f5f9; }
+  .chat-message.user { background: #eff6ff; margin-left: 48px; }
+  .chat-message.model { margin-right: 48px; }
+  .chat-message.error { background: #fef2f2; color: #b91c1c; }
+  .chat-meta { font-size: 8pt; color: #64748b; margin-bottom: 4px; }
+  .chat-text { white-space: pre-wrap; }
+`;
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const renderAttachments = async (attachments: ImagePreview[]) => {
+  if (attachments.length === 0) return '';
+  const items: string[] = [];
+  for (const att of attachments) {
+    const href = await blobToDataUrl(att.file);
+    items.push(`<li><a href="${href}" download="${escapeHtml(att.file.name)}" data-attachment-hash="${att.hash}">${escapeHtml(att.file.name)}</a>`
+      + `<span class="size">${formatSize(att.file.size)}</span></li>`);
+  }
+  return `<section class="note-attachments"><h2>Attachments</h2><ul>${items.join('')}</ul></section>`;
+};
+
+const renderChat = (history: ChatMessage[]) => {
+  if (history.length === 0) return '';
+  const messages = history.map(msg => `<div class="chat-message ${msg.role}${msg.isError ? ' error' : ''}">`
+    + `<div class="chat-meta">${msg.role === 'user' ? 'You' : 'AI'} · ${escapeHtml(formatDate(msg.timestamp))}</div>`
+    + `<div class="chat-text">${escapeHtml(msg.text)}</div></div>`);
+  return `<section class="note-chat"><h2>Chat</h2>${messages.join('')}</section>`;
+};
+
+export const exportNoteToHtml = async (note: NoteSession): Promise<Blob> => {
+  const data: HtmlNoteData = {
+    format: HTML_NOTE_FORMAT,
+    note: {
+      id: note.id,
+      title: note.title,
+      inputText: dehydrateInlineImages(note.inputText),
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt,
+      role: note.role,
+      result: note.result,
+      chatHistory: note.chatHistory,
+      ...(note.tags?.length ? { tags: note.tags } : {})
+    },
+    attachments: note.attachments.map(att => ({ hash: att.hash, name: att.file.name, mimeType: att.file.type, type: att.type }))
+  };
+  // "</script>" inside a string would end the block early
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(note.title || 'Untitled Note')}</title>
+<style>${NOTE_DOCUMENT_STYLES}${SCREEN_STYLES}</style>
+</head>
+<body>
+${await renderNoteArticle(note)}
+${await renderAttachments(note.attachments)}
+${renderChat(note.chatHistory || [])}
+<script type="application/json" id="${DATA_BLOCK_ID}">${json}</script>
+</body>
+</html>`;
+  return new Blob([html], { type: 'text/html' });
+};
+
+// Reads the blob behind a data URL, but only if it still hashes to `hash`
+const verifiedBlob = async (dataUrl: string | null, hash: string): Promise<Blob | null> => {
+  if (!dataUrl?.startsWith('data:')) return null;
+  const blob = dataUrlToBlob(dataUrl);
+  return (await hashBlob(blob)) === hash ? blob : null;
+};
+
+// The JSON block comes from a file of unknown origin: everything in it is checked
+const ATTACHMENT_TYPES: ImagePreview['type'][] = ['image', 'pdf', 'audio', 'doc', 'sheet', 'slide', 'text'];
+
+const isAttachmentEntry = (value: any): value is HtmlNoteAttachment =>
+  !!value && typeof value.hash === 'string' && /^[0-9a-f]{64}$/.test(value.hash)
+    && typeof value.name === 'string' && typeof value.mimeType === 'string' && ATTACHMENT_TYPES.includes(value.type);
+
+const validTime = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : Date.now();
+
+const importHtmlNote = async (file: File, failed: NoteImport['failed']): Promise<NoteSession | null> => {
+  const doc = new DOMParser().parseFromString(await file.text(), 'text/html');
+  const block = doc.getElementById(DATA_BLOCK_ID);
+  if (!block) {
+    failed.push({ path: file.name, reason: "Not a note exported from Smart Note" });
+    return null;
+  }
+  const data = JSON.parse(block.textContent || '') as HtmlNoteData;
+  if (data?.format !== HTML_NOTE_FORMAT || !data.note || typeof data.note !== 'object') {
+    failed.push({ path: file.name, reason: "Exported by a newer version of Smart Note" });
+    return null;
+  }
+
+  const inputText = typeof data.note.inputText === 'string' ? sanitizeHtml(data.note.inputText) : '';
+  const imageHashes = new Set(extractInlineImageHashes(inputText));
+  for (const img of Array.from(doc.querySelectorAll(`article img[${INLINE_IMAGE_ATTR}]`))) {
+    const hash = img.getAttribute(INLINE_IMAGE_ATTR)!;
+    const blob = imageHashes.has(hash) ? await verifiedBlob(img.getAttribute('src'), hash) : null;
+    if (blob) {
+      registerBlob(hash, blob);
+      imageHashes.delete(hash);
+    }
+  }
+  if (imageHashes.size > 0) failed.push({ path: file.name, reason: `${imageHashes.size} image(s) missing or damaged` });
+
+  const attachments: ImagePreview[] = [];
+  for (const att of Array.isArray(data.attachments) ? data.attachments.filter(isAttachmentEntry) : []) {
+    const link = doc.querySelector(`a[data-attachment-hash="${att.hash}"]`);
+    const blob = await verifiedBlob(link?.getAttribute('href') ?? null, att.hash);
+    if (!blob) {
+      failed.push({ path: file.name, reason: `Attachment "${att.name}" is missing or damaged` });
+      continue;
+    }
+    const attachment = new File([blob], att.name, { type: att.mimeType });
+    attachments.push({ file: attachment, hash: att.hash, url: URL.createObjectURL(attachment), type: att.type });
+  }
+
+  const { note } = data;
+  const tags = readTags(note.tags);
+  return {
+    ...createNewNote(typeof note.title === 'string' ? note.title : ''),
+    id: typeof note.id === 'string' && note.id ? note.id : generateId(),
+    inputText,
+    createdAt: validTime(note.createdAt),
+    updatedAt: validTime(note.updatedAt),
+    role: Object.hasOwn(ROLE_LABELS, note.role) ? note.role : 'general',
+    result: isNoteResult(note.result) ? { markdown: note.result.markdown, timestamp: note.result.timestamp } : null,
+    chatHistory: readChatHistory(note.chatHistory),
+    attachments,
+    ...(tags.length ? { tags } : {})
+  };
+};
+
+// Notes exported with exportNoteToHtml, one per file
+export const importHtmlNoteFiles = async (files: File[]): Promise<NoteImport> => {
+  const result: NoteImport = { notes: [], skipped: [], failed: [] };
+  for (const file of files) {
+    if (!/\.html?$/i.test(file.name)) {
+      result.skipped.push({ path: file.name, reason: "Not an HTML file" });
+      continue;
+    }
+    try {
+      const note = await importHtmlNote(file, result.failed);
+      if (note) result.notes.push(note);
+    } catch (err: any) {
+      console.warn(`Could not import ${file.name}`, err);
+      result.failed.push({ path: file.name, reason: err?.message || String(err) });
+    }
+  }
+  return result;
+};
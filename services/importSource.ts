@@ -0,0 +1,126 @@
+import JSZip from 'jszip';
+import { ImagePreview, NoteSession } from '../types';
+import { hashBlob } from '../utils/hash';
+import { registerBlob } from './blobStore';
+import { INLINE_IMAGE_ATTR } from '../utils/inlineImages';
+import { detectAttachmentType } from '../utils/constants';
+
+// Shared plumbing for importers of other apps' notes: reading a picked folder or a ZIP into a
+// flat list of files, resolving relative paths, and collecting what went wrong.
+
+export interface ImportFile {
+  path: string; // Relative to the imported folder, '/'-separated
+  blob: Blob;
+  lastModified: number;
+}
+
+export interface ImportIssue {
+  path: string;
+  reason: string;
+}
+
+export interface NoteImport {
+  notes: NoteSession[];
+  skipped: ImportIssue[]; // Files that are not notes (and not used by one)
+  failed: ImportIssue[];  // Notes that could not be converted, or only partly
+}
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  pdf: 'application/pdf',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  txt: 'text/plain'
+};
+
+export const mimeTypeFromName = (name: string) => MIME_TYPES[name.split('.').pop()?.toLowerCase() || ''] || '';
+
+export const isImageFile = (name: string) => mimeTypeFromName(name).startsWith('image/');
+
+export const baseName = (path: string) => path.split('/').pop() || path;
+
+export const stripExtension = (name: string) => name.replace(/\.[^./]+$/, '');
+
+// Folders that belong to the exporting app, not to the notes
+const isHiddenPath = (path: string) => path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX');
+
+/**
+ * Files picked with a folder input (webkitRelativePath) or a single ZIP, as ImportFiles.
+ * A top-level folder shared by every file is dropped from the paths.
+ */
+export const readImportFiles = async (picked: File[]): Promise<ImportFile[]> => {
+  let files: ImportFile[];
+  if (picked.length === 1 && /\.zip$/i.test(picked[0].name)) {
+    const zip = await JSZip.loadAsync(picked[0]).catch(() => {
+      throw new Error("This file is not a valid ZIP archive.");
+    });
+    files = await Promise.all(Object.values(zip.files).filter(entry => !entry.dir).map(async entry => ({
+      path: entry.name,
+      blob: new Blob([await entry.async('arraybuffer')], { type: mimeTypeFromName(entry.name) }),
+      lastModified: entry.date.getTime()
+    })));
+  } else {
+    files = picked.map(file => ({
+      path: file.webkitRelativePath || file.name,
+      blob: file,
+      lastModified: file.lastModified
+    }));
+  }
+
+  files = files.filter(file => !isHiddenPath(file.path));
+  const [first] = files;
+  const prefix = first?.path.includes('/') ? first.path.slice(0, first.path.indexOf('/') + 1) : '';
+  if (prefix && files.every(file => file.path.startsWith(prefix))) {
+    files = files.map(file => ({ ...file, path: file.path.slice(prefix.length) }));
+  }
+  return files;
+};
+
+// Resolves a link found in `fromPath` ('a/b.md' + '../img/x.png' -> 'img/x.png'); null if it leaves the folder
+export const resolveRelativePath = (fromPath: string, link: string): string | null => {
+  const segments = fromPath.split('/').slice(0, -1);
+  for (const segment of link.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+};
+
+// Stages an image for the next save and returns the <img> markup referencing it
+export const storeImportedImage = async (blob: Blob, alt: string = ''): Promise<string> => {
+  const hash = await hashBlob(blob);
+  registerBlob(hash, blob);
+  const escapedAlt = alt.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+  return `<img ${INLINE_IMAGE_ATTR}="${hash}" src=""${escapedAlt ? ` alt="${escapedAlt}"` : ''}>`;
+};
+
+// An imported file kept as a note attachment rather than shown inline
+export const createImportedAttachment = async (blob: Blob, name: string): Promise<ImagePreview> => {
+  const file = new File([blob], name, { type: blob.type || mimeTypeFromName(name) });
+  return { file, hash: await hashBlob(file), url: URL.createObjectURL(file), type: detectAttachmentType(file) };
+};
+
+// Lists every file that is neither a note nor used by one as skipped
+export const reportUnusedFiles = (
+  files: ImportFile[],
+  isNoteFile: (path: string) => boolean,
+  usedPaths: Set<string>,
+  result: NoteImport,
+  noteKind: string
+) => {
+  files.filter(f => !isNoteFile(f.path) && !usedPaths.has(f.path)).forEach(f => {
+    result.skipped.push({ path: f.path, reason: isImageFile(f.path) ? "Image not used by any note" : `Not ${noteKind}` });
+  });
+};
@@ -0,0 +1,152 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import Markdown, { defaultUrlTransform } from 'react-markdown';
+import { NoteSession } from '../types';
+import { createNewNote } from '../utils/constants';
+import {
+  ImportFile, ImportIssue, NoteImport, resolveRelativePath, storeImportedImage, isImageFile, baseName, stripExtension,
+  reportUnusedFiles
+} from './importSource';
+
+// Imports a folder of Markdown files, e.g. an Obsidian vault. Front matter supplies title,
+// tags and creation date; images linked by relative path (or embedded Obsidian-style with
+// ![[name.png]]) are stored as inline images.
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const STANDARD_IMAGE = /!\[([^\]]*)\]\(\s*(?:<([^>]+)>|([^)\s]+))(?:\s+"[^"]*")?\s*\)/g;
+const WIKI_EMBED = /!\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]/g;
+const IMAGE_PLACEHOLDER = 'smartnote-import:';
+
+type FrontMatter = Record<string, string | string[]>;
+
+const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+
+// The subset of YAML found in note front matter: scalars, [inline, lists] and "- item" lists
+const parseFrontMatter = (markdown: string): { fields: FrontMatter; body: string } => {
+  const match = markdown.match(FRONT_MATTER);
+  if (!match) return { fields: {}, body: markdown };
+
+  const fields: FrontMatter = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+    const pair = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!pair) continue;
+    const key = pair[1].toLowerCase();
+    const value = pair[2].trim();
+    listKey = null;
+    if (value === '') {
+      fields[key] = [];
+      listKey = key;
+    } else if (/^\[.*\]$/.test(value)) {
+      fields[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else {
+      fields[key] = unquote(value);
+    }
+  }
+  return { fields, body: markdown.slice(match[0].length) };
+};
+
+const parseTags = (value: string | string[] | undefined): string[] => {
+  const raw = Array.isArray(value) ? value : (value || '').split(/[,\s]+/);
+  return Array.from(new Set(raw.map(tag => tag.trim().replace(/^#/, '')).filter(Boolean)));
+};
+
+const parseDate = (value: string | string[] | undefined): number | null => {
+  if (typeof value !== 'string') return null;
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+};
+
+// Keeps our placeholder URLs, which react-markdown would drop for their unknown scheme;
+// everything else gets its default filtering (no javascript: links and the like)
+const transformUrl = (url: string) => url.startsWith(IMAGE_PLACEHOLDER) ? url : defaultUrlTransform(url);
+
+const renderMarkdown = (markdown: string) =>
+  renderToStaticMarkup(createElement(Markdown, { urlTransform: transformUrl }, markdown));
+
+const convertFile = async (
+  file: ImportFile,
+  filesByPath: Map<string, ImportFile>,
+  usedPaths: Set<string>,
+  issues: ImportIssue[]
+): Promise<NoteSession> => {
+  const { fields, body } = parseFrontMatter(await file.blob.text());
+
+  // Obsidian finds embedded files by name anywhere in the vault
+  const findImage = (link: string, byName: boolean): ImportFile | null => {
+    let decoded = link;
+    try { decoded = decodeURIComponent(link); } catch { /* keep as written */ }
+    const resolved = resolveRelativePath(file.path, decoded);
+    const direct = resolved !== null ? filesByPath.get(resolved) : undefined;
+    if (direct || !byName) return direct || null;
+    return Array.from(filesByPath.values()).find(f => baseName(f.path) === baseName(decoded)) || null;
+  };
+
+  const images: string[] = [];
+  const embed = async (original: string, alt: string, link: string, byName: boolean) => {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(link)) return original; // http(s):, data: ... stay as they are
+    const target = findImage(link, byName);
+    if (!target || !isImageFile(target.path)) {
+      issues.push({ path: file.path, reason: `Image not found: ${link}` });
+      return `*(image not found: ${baseName(link)})*`;
+    }
+    usedPaths.add(target.path);
+    images.push(await storeImportedImage(target.blob, alt));
+    return `![${alt}](${IMAGE_PLACEHOLDER}${images.length - 1})`;
+  };
+
+  // String.replace cannot await; collect the replacements first
+  let markdown = body;
+  for (const [pattern, byName] of [[STANDARD_IMAGE, false], [WIKI_EMBED, true]] as [RegExp, boolean][]) {
+    const replacements: string[] = [];
+    for (const match of markdown.matchAll(pattern)) {
+      replacements.push(byName
+        ? (isImageFile(match[1].trim()) ? await embed(match[0], '', match[1].trim(), true) : match[0])
+        : await embed(match[0], match[1], match[2] || match[3], false));
+    }
+    let index = 0;
+    markdown = markdown.replace(pattern, () => replacements[index++]);
+  }
+
+  const html = renderMarkdown(markdown)
+    .replace(new RegExp(`<img[^>]*src="${IMAGE_PLACEHOLDER}(\\d+)"[^>]*>`, 'g'), (_tag, i) => images[Number(i)]);
+
+  const tags = parseTags(fields.tags ?? fields.tag);
+  const title = typeof fields.title === 'string' && fields.title ? fields.title : stripExtension(baseName(file.path));
+  return {
+    ...createNewNote(title),
+    inputText: html,
+    createdAt: parseDate(fields.date) ?? parseDate(fields.created) ?? file.lastModified,
+    ...(tags.length > 0 ? { tags } : {})
+  };
+};
+
+export const isMarkdownFile = (path: string) => /\.(md|markdown)$/i.test(path);
+
+/**
+ * Converts every Markdown file into a note. Images used by a note are not reported; any other
+ * non-Markdown file is listed as skipped.
+ */
+export const importMarkdownFiles = async (files: ImportFile[]): Promise<NoteImport> => {
+  const filesByPath = new Map(files.map(file => [file.path, file]));
+  const usedPaths = new Set<string>();
+  const result: NoteImport = { notes: [], skipped: [], failed: [] };
+
+  for (const file of files.filter(f => isMarkdownFile(f.path))) {
+    try {
+      result.notes.push(await convertFile(file, filesByPath, usedPaths, result.failed));
+    } catch (err: any) {
+      console.warn(`Could not import ${file.path}`, err);
+      result.failed.push({ path: file.path, reason: err?.message || String(err) });
+    }
+  }
+
+  reportUnusedFiles(files, isMarkdownFile, usedPaths, result, "a Markdown file");
+
+  return result;
+};
@@ -0,0 +1,136 @@
+// IndexedDB schema history.
+// Every schema or record-shape change gets a new entry here; never edit a migration that has shipped.
+
+export const NOTES_STORE = 'notes';
+export const REVISIONS_STORE = 'revisions';
+export const TRASH_STORE = 'trash';
+export const BLOBS_STORE = 'blobs';
+export const META_STORE = 'meta';
+export const SYNC_STORE = 'sync';
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Runs inside the 'versionchange' transaction. Must only issue IDB requests (no other async work),
+  // otherwise the transaction commits before the migration finishes.
+  upgrade: (db: IDBDatabase, tx: IDBTransaction) => void;
+}
+
+// Rewrites every record of a store through `fn` using a cursor
+const updateRecords = (store: IDBObjectStore, fn: (record: any) => any) => {
+  const request = store.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.update(fn(cursor.value));
+    cursor.continue();
+  };
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create notes store',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(NOTES_STORE)) {
+        db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Backfill role/chatHistory/createdAt and add createdAt, role, title indexes',
+    upgrade: (_db, tx) => {
+      const store = tx.objectStore(NOTES_STORE);
+      updateRecords(store, note => ({
+        ...note,
+        title: note.title || '',
+        createdAt: note.createdAt || Date.now(),
+        role: note.role || 'autosar',
+        chatHistory: note.chatHistory || []
+      }));
+      store.createIndex('createdAt', 'createdAt');
+      store.createIndex('role', 'role');
+      store.createIndex('title', 'title');
+    }
+  },
+  {
+    version: 3,
+    description: 'Create revisions store',
+    upgrade: (db) => {
+      const store = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+      // Lets us walk a single note's history in chronological order
+      store.createIndex('noteId_createdAt', ['noteId', 'createdAt']);
+    }
+  },
+  {
+    version: 4,
+    description: 'Create trash store for soft-deleted notes',
+    upgrade: (db) => {
+      const store = db.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+      store.createIndex('deletedAt', 'deletedAt');
+    }
+  },
+  {
+    version: 5,
+    description: 'Create content-addressed blobs store',
+    // Existing embedded File attachments are hashed and moved here on first load
+    // (see loadNoteRecords), since hashing cannot run inside an upgrade transaction.
+    upgrade: (db) => {
+      db.createObjectStore(BLOBS_STORE, { keyPath: 'hash' });
+    }
+  },
+  {
+    version: 6,
+    description: 'Create meta store for workspace-wide settings (vault key parameters)',
+    upgrade: (db) => {
+      db.createObjectStore(META_STORE, { keyPath: 'key' });
+    }
+  },
+  {
+    version: 7,
+    description: 'Backfill updatedAt on notes and trashed notes',
+    // updatedAt is a structural field, so sealed (encrypted) records can be updated too
+    upgrade: (_db, tx) => {
+      [NOTES_STORE, TRASH_STORE].forEach(name => updateRecords(tx.objectStore(name), note => ({
+        ...note,
+        updatedAt: note.updatedAt || note.deletedAt || note.createdAt || Date.now()
+      })));
+    }
+  },
+  {
+    version: 8,
+    description: 'Create sync store for the last synchronised version of each note',
+    upgrade: (db) => {
+      db.createObjectStore(SYNC_STORE, { keyPath: 'id' });
+    }
+  },
+  {
+    version: 9,
+    description: 'Drop the title index of the notes store',
+    // Titles are sealed in encrypted records, so the index could not cover them; nothing queries it
+    upgrade: (_db, tx) => {
+      const store = tx.objectStore(NOTES_STORE);
+      if (store.indexNames.contains('title')) store.deleteIndex('title');
+    }
+  }
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Applies every migration newer than `oldVersion`, in order.
+ * Throws an Error naming the failing step; the caller is expected to abort the upgrade.
+ */
+export const runMigrations = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => {
+  MIGRATIONS
+    .filter(m => m.version > oldVersion)
+    .sort((a, b) => a.version - b.version)
+    .forEach(m => {
+      try {
+        m.upgrade(db, tx);
+      } catch (err: any) {
+        throw new Error(`Database migration to v${m.version} (${m.description}) failed: ${err?.message || err}`);
+      }
+    });
+};
@@ -0,0 +1,51 @@
+import { NoteRole, NoteSession } from '../types';
+import { blobToDataUrl } from '../utils/inlineImages';
+import { resolveInlineImages } from './blobStore';
+
+// A note laid out as a standalone document, shared by the PDF and HTML exports: a header with
+// title, role, date and tags above the note's HTML with its images inlined as data URLs.
+
+export const ROLE_LABELS: Record<NoteRole, string> = {
+  autosar: 'AutoSAR Expert',
+  notebooklm: 'NotebookLM (Docs)',
+  general: 'General Smart Note',
+  weekly: 'Weekly Summary'
+};
+
+export const NOTE_DOCUMENT_STYLES = `
+  body { font-family: Inter, "Segoe UI", "Microsoft YaHei", system-ui, sans-serif; font-size: 11pt; line-height: 1.6; color: #334155; margin: 0; }
+  .note-header { border-bottom: 1px solid #e2e8f0; padding-bottom: 10px; margin-bottom: 18px; }
+  .note-header h1 { font-size: 22pt; line-height: 1.2; color: #0f172a; margin: 0 0 6px; }
+  .note-meta { font-size: 9pt; color: #64748b; }
+  .note-meta span + span::before { content: "·"; margin: 0 6px; }
+  h1, h2, h3, h4 { color: #1e293b; break-after: avoid; }
+  img { max-width: 100%; height: auto; break-inside: avoid; }
+  pre, blockquote, table, tr { break-inside: avoid; }
+  pre { background: #f1f5f9; padding: 10px; border-radius: 6px; white-space: pre-wrap; font-size: 9pt; }
+  code { font-family: Consolas, Menlo, monospace; }
+  blockquote { border-left: 3px solid #cbd5e1; margin-left: 0; padding-left: 12px; color: #475569; font-style: italic; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #cbd5e1; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  a { color: #2563eb; }
+  /* AI output is inserted in a wrapper carrying RESET_AI_STYLE; set it apart from the user's notes */
+  div[style*="--tw-prose-body"] { background: #eff6ff; border-left: 3px solid #3b82f6; padding: 8px 14px; border-radius: 0 6px 6px 0; }
+`;
+
+export const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString([], {
+  year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit'
+});
+
+export const renderNoteArticle = async (note: NoteSession) => {
+  const content = await resolveInlineImages(note.inputText || '', (_hash, blob) => blobToDataUrl(blob));
+  const meta = [ROLE_LABELS[note.role] || note.role, formatDate(note.createdAt), ...(note.tags || []).map(tag => `#${tag}`)];
+  return `<article>
+    <header class="note-header">
+      <h1>${escapeHtml(note.title || 'Untitled Note')}</h1>
+      <div class="note-meta">${meta.map(item => `<span>${escapeHtml(item)}</span>`).join('')}</div>
+    </header>
+    <div class="note-content">${content}</div>
+  </article>`;
+};
@@ -0,0 +1,122 @@
+import { ImagePreview, NoteSession } from '../types';
+import { createNewNote } from '../utils/constants';
+import { extractDataUrlImages } from '../utils/inlineImages';
+import { sanitizeHtml } from '../utils/sanitizeHtml';
+import { registerBlob } from './blobStore';
+import {
+  ImportFile, ImportIssue, NoteImport, resolveRelativePath, storeImportedImage, createImportedAttachment,
+  isImageFile, baseName, stripExtension, reportUnusedFiles
+} from './importSource';
+
+// Imports pages exported from OneNote as HTML: one .html file per page next to folders holding
+// its images and attached files. Images become inline images, linked or embedded files
+// (<a href>, <object data>) attachments. Pages exported through Microsoft Graph carry their
+// creation time in <meta name="created">.
+
+// Older exports are not UTF-8; honour the charset the page declares
+const decodePage = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 2048));
+  const charset = head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] || 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+};
+
+const isLocalLink = (link: string) => !!link && !link.startsWith('#') && !/^[a-z][a-z0-9+.-]*:/i.test(link);
+
+const convertPage = async (
+  file: ImportFile,
+  filesByPath: Map<string, ImportFile>,
+  usedPaths: Set<string>,
+  issues: ImportIssue[]
+): Promise<NoteSession> => {
+  const doc = new DOMParser().parseFromString(await decodePage(file.blob), 'text/html');
+  const attachments: ImagePreview[] = [];
+
+  const findFile = (link: string): ImportFile | null => {
+    let decoded = link.split(/[?#]/)[0];
+    try { decoded = decodeURIComponent(decoded); } catch { /* keep as written */ }
+    const resolved = resolveRelativePath(file.path, decoded.replace(/\\/g, '/'));
+    return (resolved !== null && filesByPath.get(resolved)) || null;
+  };
+
+  const attach = async (target: ImportFile) => {
+    usedPaths.add(target.path);
+    if (!attachments.some(att => att.file.name === baseName(target.path))) {
+      attachments.push(await createImportedAttachment(target.blob, baseName(target.path)));
+    }
+  };
+
+  for (const img of Array.from(doc.body.querySelectorAll('img'))) {
+    const src = img.getAttribute('src') || '';
+    if (!isLocalLink(src)) continue; // http(s):, data: ... stay as they are
+    const target = findFile(src);
+    if (!target || !isImageFile(target.path)) {
+      issues.push({ path: file.path, reason: `Image not found: ${src}` });
+      img.replaceWith(doc.createTextNode(`(image not found: ${baseName(src)})`));
+      continue;
+    }
+    usedPaths.add(target.path);
+    const template = doc.createElement('template');
+    template.innerHTML = await storeImportedImage(target.blob, img.getAttribute('alt') || '');
+    img.replaceWith(template.content);
+  }
+
+  for (const object of Array.from(doc.body.querySelectorAll('object[data]'))) {
+    const target = findFile(object.getAttribute('data') || '');
+    if (target) await attach(target);
+    else issues.push({ path: file.path, reason: `Attached file not found: ${object.getAttribute('data')}` });
+    object.remove();
+  }
+
+  // Links to files become attachments, links to other exported pages would dangle; keep their text
+  for (const anchor of Array.from(doc.body.querySelectorAll('a[href]'))) {
+    const href = anchor.getAttribute('href') || '';
+    if (!isLocalLink(href)) continue;
+    const target = findFile(href);
+    if (target && !isHtmlFile(target.path)) await attach(target);
+    anchor.replaceWith(...Array.from(anchor.childNodes));
+  }
+
+  let inputText = sanitizeHtml(doc.body.innerHTML.trim());
+  const embedded = await extractDataUrlImages(inputText);
+  if (embedded) {
+    inputText = embedded.html;
+    embedded.blobs.forEach((blob, hash) => registerBlob(hash, blob));
+  }
+
+  const created = Date.parse(doc.querySelector('meta[name="created"]')?.getAttribute('content') || '');
+  return {
+    ...createNewNote(doc.title.trim() || stripExtension(baseName(file.path))),
+    inputText,
+    attachments,
+    createdAt: Number.isFinite(created) ? created : file.lastModified
+  };
+};
+
+export const isHtmlFile = (path: string) => /\.html?$/i.test(path);
+
+/**
+ * Converts every HTML page into a note. Images and files used by a page are not reported; any
+ * other file is listed as skipped.
+ */
+export const importOneNoteFiles = async (files: ImportFile[]): Promise<NoteImport> => {
+  const filesByPath = new Map(files.map(file => [file.path, file]));
+  const usedPaths = new Set<string>();
+  const result: NoteImport = { notes: [], skipped: [], failed: [] };
+
+  for (const file of files.filter(f => isHtmlFile(f.path))) {
+    try {
+      result.notes.push(await convertPage(file, filesByPath, usedPaths, result.failed));
+    } catch (err: any) {
+      console.warn(`Could not import ${file.path}`, err);
+      result.failed.push({ path: file.path, reason: err?.message || String(err) });
+    }
+  }
+
+  reportUnusedFiles(files, isHtmlFile, usedPaths, result, "an HTML page");
+  return result;
+};
@@ -0,0 +1,77 @@
+import { NoteSession } from '../types';
+import { getIpcRenderer, isElectron } from '../utils/electron';
+import { sanitizeFileName, todayStamp } from '../utils/download';
+import { NOTE_DOCUMENT_STYLES, ROLE_LABELS, escapeHtml, renderNoteArticle } from './noteDocument';
+
+// PDF export of one or more notes. The notes are laid out as a standalone HTML document with a
+// print stylesheet; the desktop app renders it to PDF in the main process (electron/pdfExport.js),
+// the browser build opens the print dialog for it instead.
+
+// Every note starts on a new page
+const PRINT_STYLES = `
+  article + article { break-before: page; }
+`;
+
+// The browser's print dialog has no header/footer templates; CSS page margin boxes number the pages
+const BROWSER_PAGE_STYLES = `
+  @page { size: A4; margin: 18mm 15mm; @bottom-center { content: counter(page) " / " counter(pages); font-size: 8pt; color: #64748b; } }
+`;
+
+const documentTitle = (notes: NoteSession[]) =>
+  notes.length === 1 ? (notes[0].title || 'Untitled Note') : `${notes.length} notes`;
+
+// For the page header: "Weekly summary", or "General, AutoSAR" for a mixed selection
+const roleLabel = (notes: NoteSession[]) =>
+  Array.from(new Set(notes.map(note => ROLE_LABELS[note.role] || note.role))).join(', ');
+
+// Standalone HTML for printing: images are inlined, nothing is loaded from elsewhere
+export const buildPrintDocument = async (notes: NoteSession[], forBrowser: boolean = false): Promise<string> => {
+  const articles: string[] = [];
+  for (const note of notes) articles.push(await renderNoteArticle(note));
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(documentTitle(notes))}</title>
+<style>${NOTE_DOCUMENT_STYLES}${PRINT_STYLES}${forBrowser ? BROWSER_PAGE_STYLES : ''}</style>
+</head>
+<body>
+${articles.join('\n')}
+</body>
+</html>`;
+};
+
+// Prints from a hidden frame so only the notes end up on paper, not the app around them.
+// print() blocks until the dialog closes in most browsers; the frame goes once printing is done.
+const printInBrowser = (html: string) => new Promise<void>((resolve) => {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position:fixed;width:0;height:0;border:0;visibility:hidden;';
+  // No scripts in the printed notes; same origin so this window can print the frame
+  frame.setAttribute('sandbox', 'allow-modals allow-same-origin');
+  frame.onload = () => {
+    const printWindow = frame.contentWindow!;
+    printWindow.addEventListener('afterprint', () => frame.remove());
+    printWindow.focus();
+    printWindow.print();
+    resolve();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+});
+
+/**
+ * Exports the notes as one PDF, each note starting on a new page. Resolves the saved file's
+ * path in the desktop app (null if the save dialog was cancelled) and null in the browser,
+ * where the user finishes in the print dialog.
+ */
+export const exportNotesToPdf = async (notes: NoteSession[]): Promise<string | null> => {
+  if (notes.length === 0) return null;
+  if (!isElectron()) {
+    await printInBrowser(await buildPrintDocument(notes, true));
+    return null;
+  }
+  const fileName = notes.length === 1
+    ? `${sanitizeFileName(notes[0].title, 'note')}.pdf`
+    : `smart-notes-${todayStamp()}.pdf`;
+  return getIpcRenderer().invoke('pdf:export', await buildPrintDocument(notes), fileName, roleLabel(notes));
+};
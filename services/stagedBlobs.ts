@@ -0,0 +1,29 @@
+// Blobs created in memory (e.g. pasted images) that no saved record references yet.
+// Whichever storage backend persists a record referencing one releases it afterwards.
+
+const stagedBlobs = new Map<string, Blob>();
+
+// Blobs still held in memory for rendering. A record may reference one that was released and
+// garbage-collected in storage already, e.g. an image deleted, saved, then brought back by undo.
+let memoryLookup: ((hash: string) => Blob | undefined) | null = null;
+
+export const setBlobMemoryLookup = (lookup: (hash: string) => Blob | undefined) => {
+  memoryLookup = lookup;
+};
+
+export const stageBlob = (hash: string, blob: Blob) => {
+  stagedBlobs.set(hash, blob);
+};
+
+export const getStagedBlob = (hash: string): Blob | undefined => stagedBlobs.get(hash) || memoryLookup?.(hash);
+
+export const releaseStagedBlob = (hash: string) => {
+  stagedBlobs.delete(hash);
+};
+
+// Drops staged blobs nothing refers to anymore, e.g. an image pasted and deleted before a save
+export const releaseUnreferencedStagedBlobs = (inUse: Set<string>) => {
+  for (const hash of Array.from(stagedBlobs.keys())) {
+    if (!inUse.has(hash)) stagedBlobs.delete(hash);
+  }
+};
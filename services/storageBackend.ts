@@ -0,0 +1,48 @@
+import { NoteSession, Folder } from '../types';
+
+export interface NoteChanges {
+  upserts: NoteSession[];   // Live notes to write (restoring from trash included)
+  trashed: NoteSession[];   // Notes to move into the trash
+  deletedIds: string[];     // Notes to remove for good, from wherever they are
+}
+
+export interface SaveResult {
+  ok: boolean;
+  error?: string; // User-facing explanation when ok is false
+  // Notes left untouched because storage already holds a newer version (by updatedAt),
+  // e.g. written meanwhile by another window
+  staleIds?: string[];
+}
+
+export type StorageBackendKind = 'indexeddb' | 'filesystem';
+
+export interface StoredNote {
+  note: NoteSession;
+  isTrashed: boolean;
+}
+
+// A note changed by another program or another window of the app
+export type ExternalChange =
+  | ({ kind: 'upsert' } & StoredNote)
+  | { kind: 'delete'; id: string };
+
+/**
+ * Where notes, trash and their blobs live. Revisions and the encrypted vault settings always
+ * stay in IndexedDB; storageService picks the backend and exposes it to the rest of the app.
+ */
+export interface StorageBackend {
+  kind: StorageBackendKind;
+  // Both throw if the storage cannot be read, so the UI can report it
+  loadNotes: () => Promise<NoteSession[]>;
+  loadTrash: () => Promise<NoteSession[]>;
+  persistNoteChanges: (changes: NoteChanges) => Promise<SaveResult>;
+  // A single note as currently stored, wherever it lives; null if it does not exist
+  loadNote: (id: string) => Promise<StoredNote | null>;
+  // Inline image or attachment content by hash; null if this backend does not have it
+  loadBlob: (hash: string) => Promise<Blob | null>;
+  // The folder tree, stored as a whole
+  loadFolders: () => Promise<Folder[]>;
+  saveFolders: (folders: Folder[]) => Promise<void>;
+  // Backends others can write to report those changes; returns an unsubscribe function
+  watch?: (listener: (change: ExternalChange) => void) => () => void;
+}
@@ -1,8 +1,24 @@
-import { NoteSession, AppStatus } from '../types';
+import { NoteSession, AppStatus, NoteRevision, ImagePreview, Folder, NoteTemplate } from '../types';
+import { DB_VERSION, NOTES_STORE, REVISIONS_STORE, TRASH_STORE, BLOBS_STORE, META_STORE, SYNC_STORE, runMigrations } from './migrations';
+import { hashBlob } from '../utils/hash';
+import { extractInlineImageHashes, extractDataUrlImages } from '../utils/inlineImages';
+import { PBKDF2_ITERATIONS, SealedData, generateSalt, deriveKey, encryptBytes, decryptBytes } from '../utils/crypto';
+import { setVaultKey, isVaultUnlocked, sealRecord, openRecord, sealBlob, openBlob } from './vault';
+import { stageBlob, getStagedBlob, releaseStagedBlob } from './stagedBlobs';
+import { StorageBackend, StorageBackendKind, NoteChanges, SaveResult, ExternalChange, StoredNote } from './storageBackend';
+import { fsVaultBackend, openFsVault, closeFsVault } from './fsVaultBackend';
+import { SyncBase } from './syncTarget';
 
 const DB_NAME = 'SmartNoteDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'notes';
+const STORE_NAME = NOTES_STORE;
+const MAX_REVISIONS_PER_NOTE = 50;
+// Purged note IDs (meta store) are remembered this long, so a save racing in from another
+// window cannot bring a note back; later re-imports of the same note are accepted again
+const TOMBSTONES_KEY = 'tombstones';
+const TOMBSTONE_TTL_MS = 10 * 60 * 1000;
+
+// Key range over one note's revisions in the ['noteId', 'createdAt'] index
+const noteRevisionRange = (noteId: string) => IDBKeyRange.bound([noteId, -Infinity], [noteId, Infinity]);
 
 // Helper to open DB
 const openDB = (): Promise<IDBDatabase> => {
@@ -14,101 +30,762 @@ const openDB = (): Promise<IDBDatabase> => {
     }
 
     const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let migrationError: Error | null = null;
 
     request.onupgradeneeded = (e) => {
-      const db = (e.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      const db = request.result;
+      const tx = request.transaction!;
+      // Async failures inside a migration (e.g. a cursor update) abort the upgrade transaction
+      tx.onabort = () => {
+        migrationError = migrationError || new Error(`Database upgrade to v${DB_VERSION} was aborted: ${tx.error?.message || 'unknown error'}`);
+      };
+      try {
+        runMigrations(db, tx, e.oldVersion);
+      } catch (err: any) {
+        migrationError = err;
+        tx.abort();
       }
     };
 
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
+    request.onblocked = () => {
+      console.warn("IDB upgrade blocked: close other Smart Note windows to finish updating the database.");
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the app in another tab upgrade the schema
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(migrationError || request.error);
+  });
+};
+
+// Promise wrappers so a transaction can be driven with async/await.
+// Awaiting only IDB requests keeps the transaction alive between steps.
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+});
+
+interface StoredAttachment {
+  hash: string;
+  name: string;
+  mimeType: string;
+  type: ImagePreview['type'];
+  file?: File; // Legacy records (schema < 5) embedded the File itself
+}
+
+interface BlobRecord {
+  hash: string; // SHA-256 of the plaintext content
+  blob: Blob;
+  size: number; // Plaintext size
+  type?: string; // MIME type, kept separately because encrypted blobs lose it
+  encrypted?: boolean;
+  refCount: number; // Number of records (live notes, trashed notes, revisions) referencing this blob
+}
+
+type PreparedBlob = Omit<BlobRecord, 'refCount'>;
+
+// Unique blob hashes referenced by a stored note or revision record: attachments and inline images.
+// Sealed records carry them in the clear, since their content is encrypted.
+const recordBlobHashes = (record: any): string[] => {
+  if (!record) return [];
+  if (record.sealed) return record.blobHashes || [];
+  const attachmentHashes = (record.attachments || []).map((att: StoredAttachment) => att.hash).filter(Boolean);
+  return Array.from(new Set<string>([...attachmentHashes, ...extractInlineImageHashes(record.inputText)]));
+};
+
+type RefDeltas = Map<string, number>;
+
+const adjustRefs = (deltas: RefDeltas, before: string[], after: string[]) => {
+  before.filter(h => !after.includes(h)).forEach(h => deltas.set(h, (deltas.get(h) || 0) - 1));
+  after.filter(h => !before.includes(h)).forEach(h => deltas.set(h, (deltas.get(h) || 0) + 1));
+};
+
+// Encryption cannot run inside an IDB transaction, so every blob a write might add is prepared
+// up front. With the vault unlocked, only blobs not stored yet are encrypted.
+const prepareBlobs = async (db: IDBDatabase, candidates: Map<string, Blob>): Promise<Map<string, PreparedBlob>> => {
+  const prepared = new Map<string, PreparedBlob>();
+  if (candidates.size === 0) return prepared;
+
+  let missing = Array.from(candidates.keys());
+  if (isVaultUnlocked()) {
+    const blobStore = db.transaction(BLOBS_STORE, 'readonly').objectStore(BLOBS_STORE);
+    const stored = await Promise.all(missing.map(hash => requestResult(blobStore.getKey(hash))));
+    missing = missing.filter((_, i) => stored[i] === undefined);
+  }
+
+  for (const hash of missing) {
+    const blob = candidates.get(hash)!;
+    prepared.set(hash, isVaultUnlocked()
+      ? { hash, blob: await sealBlob(blob), size: blob.size, type: blob.type, encrypted: true }
+      : { hash, blob, size: blob.size, type: blob.type });
+  }
+  return prepared;
+};
+
+// Staged blobs referenced by records about to be written
+const stagedBlobsFor = (hashes: string[], into: Map<string, Blob>) => {
+  hashes.forEach(hash => {
+    const staged = getStagedBlob(hash);
+    if (staged && !into.has(hash)) into.set(hash, staged);
   });
 };
 
-export const loadNotesFromStorage = async (): Promise<NoteSession[] | null> => {
+// Applies reference count changes inside an open transaction, writing new blobs and
+// garbage-collecting the ones nothing references anymore. A new blob whose content is no longer
+// available anywhere is left out: the record is still written, the image shows as missing.
+const applyRefDeltas = async (blobStore: IDBObjectStore, deltas: RefDeltas, sources: Map<string, PreparedBlob>) => {
+  for (const [hash, delta] of deltas) {
+    if (delta === 0) continue;
+    const existing = await requestResult(blobStore.get(hash)) as BlobRecord | undefined;
+    const refCount = (existing?.refCount || 0) + delta;
+
+    if (refCount <= 0) {
+      blobStore.delete(hash);
+    } else if (existing) {
+      blobStore.put({ ...existing, refCount });
+    } else {
+      const source = sources.get(hash);
+      if (!source) {
+        console.warn(`Blob ${hash} is referenced but its content is not available; it was not stored`);
+        continue;
+      }
+      blobStore.put({ ...source, refCount } as BlobRecord);
+    }
+  }
+};
+
+// Once a transaction committed, staged blobs it wrote no longer need to be held in memory
+const releaseStagedBlobs = (deltas: RefDeltas) => {
+  deltas.forEach((delta, hash) => { if (delta > 0) releaseStagedBlob(hash); });
+};
+
+// Reads and decrypts blobs; missing ones are left out
+const readBlobs = async (db: IDBDatabase, hashes: string[]): Promise<Map<string, Blob>> => {
+  const blobStore = db.transaction(BLOBS_STORE, 'readonly').objectStore(BLOBS_STORE);
+  const unique = Array.from(new Set(hashes));
+  const records = await Promise.all(unique.map(hash => requestResult(blobStore.get(hash)) as Promise<BlobRecord | undefined>));
+
+  const blobs = new Map<string, Blob>();
+  for (const record of records) {
+    if (record) blobs.set(record.hash, await openBlob(record.blob, !!record.encrypted, record.type));
+  }
+  return blobs;
+};
+
+const loadIdbBlob = async (hash: string): Promise<Blob | null> => {
   try {
     const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, 'readonly');
-      const store = tx.objectStore(STORE_NAME);
-      const request = store.getAll();
-      
-      request.onsuccess = () => {
-        const result = request.result as any[];
-        
-        if (!result || result.length === 0) {
-            resolve(null);
-            return;
-        }
-        
-        // Rehydrate attachments with URL.createObjectURL
-        // This is crucial: we stored actual File objects, now we need to give them URLs for the UI
-        const hydrated = result.map(note => ({
-            ...note,
-            // Restore attachments
-            attachments: (note.attachments || []).map((att: any) => ({
-                file: att.file,
-                url: URL.createObjectURL(att.file),
-                type: att.type
-            })),
-            // Ensure safe defaults
-            status: note.status === AppStatus.PROCESSING ? AppStatus.IDLE : (note.status || AppStatus.IDLE),
-            error: null,
-            createdAt: note.createdAt || Date.now(),
-            role: note.role || 'autosar',
-            chatHistory: note.chatHistory || []
-        }));
-        
-        // Sort by createdAt desc (Newest first)
-        hydrated.sort((a: NoteSession, b: NoteSession) => b.createdAt - a.createdAt);
-        
-        resolve(hydrated);
-      };
-      
-      request.onerror = () => reject(request.error);
-    });
+    return (await readBlobs(db, [hash])).get(hash) || null;
   } catch (err) {
-    console.error("IDB Load Error:", err);
+    console.error("IDB Blob Load Error:", err);
     return null;
   }
 };
 
-export const saveNotesToStorage = async (notes: NoteSession[]): Promise<boolean> => {
+const hydrateNote = (record: any, attachments: ImagePreview[]): NoteSession => ({
+  ...record,
+  attachments,
+  // Reset transient state (record shape is normalized by migrations)
+  status: record.status === AppStatus.PROCESSING ? AppStatus.IDLE : (record.status || AppStatus.IDLE),
+  error: null
+});
+
+// Attachment previews for a stored record. Legacy attachments (embedded File, no hash yet)
+// are returned with an empty hash.
+const recordAttachments = (record: any, blobs: Map<string, Blob>): ImagePreview[] => {
+  const attachments: ImagePreview[] = [];
+  for (const att of (record.attachments || []) as StoredAttachment[]) {
+    if (att.hash) {
+      const blob = blobs.get(att.hash);
+      if (!blob) {
+        console.warn(`Attachment "${att.name}" (${att.hash}) is missing from the blob store`);
+        continue;
+      }
+      const file = new File([blob], att.name, { type: att.mimeType });
+      attachments.push({ file, hash: att.hash, url: URL.createObjectURL(file), type: att.type });
+    } else if (att.file) {
+      attachments.push({ file: att.file, hash: '', url: URL.createObjectURL(att.file), type: att.type });
+    }
+  }
+  return attachments;
+};
+
+const recordAttachmentHashes = (records: any[]) => records.flatMap(record =>
+  ((record.attachments || []) as StoredAttachment[]).map(att => att.hash).filter(Boolean));
+
+// Reads every note of a store (live notes or trash), newest first
+const loadNoteRecords = async (storeName: string): Promise<NoteSession[]> => {
+  const db = await openDB();
+  const stored = await requestResult(db.transaction(storeName, 'readonly').objectStore(storeName).getAll()) as any[];
+  const records = await Promise.all(stored.map(record => openRecord(record)));
+  const blobs = await readBlobs(db, recordAttachmentHashes(records));
+
+  const hydrated: NoteSession[] = [];
+  const legacy: NoteSession[] = [];
+
+  for (const record of records) {
+    const note = hydrateNote(record, recordAttachments(record, blobs));
+    hydrated.push(note);
+    // Embedded attachments, or inline images from before they moved to the blob store
+    if (note.attachments.some(att => !att.hash) || (record.inputText || '').includes('src="data:image')) {
+      legacy.push(note);
+    }
+  }
+
+  // One-time move of embedded attachments and inline images into the blob store
+  if (legacy.length > 0) {
+    for (const note of legacy) {
+      for (const att of note.attachments) {
+        if (!att.hash) att.hash = await hashBlob(att.file);
+      }
+      const extracted = await extractDataUrlImages(note.inputText);
+      if (extracted) {
+        extracted.blobs.forEach((blob, hash) => stageBlob(hash, blob));
+        note.inputText = extracted.html;
+      }
+    }
+    const migrated = await persistIdbNoteChanges(storeName === TRASH_STORE
+      ? { upserts: [], trashed: legacy, deletedIds: [] }
+      : { upserts: legacy, trashed: [], deletedIds: [] });
+    if (!migrated.ok) console.warn("Could not move legacy attachments into the blob store; will retry on next start.");
+  }
+
+  // Sort by createdAt desc (Newest first)
+  hydrated.sort((a, b) => b.createdAt - a.createdAt);
+  return hydrated;
+};
+
+const loadIdbNote = async (id: string): Promise<StoredNote | null> => {
+  const db = await openDB();
+  const tx = db.transaction([STORE_NAME, TRASH_STORE], 'readonly');
+  const live = await requestResult(tx.objectStore(STORE_NAME).get(id));
+  const stored = live || await requestResult(tx.objectStore(TRASH_STORE).get(id));
+  if (!stored) return null;
+
+  const record = await openRecord(stored);
+  const blobs = await readBlobs(db, recordAttachmentHashes([record]));
+  return { note: hydrateNote(record, recordAttachments(record, blobs)), isTrashed: !live };
+};
+
+
+// Prepare a note for storage: attachments become references into the blob store
+const serializeNote = (note: NoteSession) => ({
+    ...note,
+    status: note.status === AppStatus.PROCESSING ? AppStatus.IDLE : note.status,
+    attachments: note.attachments.map((att): StoredAttachment => ({
+        hash: att.hash,
+        name: att.file.name,
+        mimeType: att.file.type,
+        type: att.type
+        // We DO NOT save 'url' here, it's generated on load
+    }))
+});
+
+// Turns IndexedDB failures into a message the user can act on
+export const describeStorageError = (err: any): string => {
+  if (err?.name === 'QuotaExceededError') {
+    return "Storage is full. Free up space in Settings → Storage, e.g. by removing large attachments or emptying the Trash.";
+  }
+  if (err?.name === 'InvalidStateError' || err?.name === 'UnknownError') {
+    return "The browser storage is unavailable. Restart the app and try again.";
+  }
+  return err?.message || "Unknown storage error.";
+};
+
+// --- Encrypted vault ---
+
+interface VaultConfig {
+  key: 'vault';
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  check: SealedData; // Known plaintext encrypted with the key, to verify a passphrase
+}
+
+const VAULT_CHECK_TEXT = 'smart-note-vault';
+
+let vaultConfig: VaultConfig | null = null;
+// Set from the moment the encryption settings start changing (before the key is derived)
+// until the re-encrypted workspace is committed; writes wait for it
+let vaultRewrite: Promise<void> | null = null;
+// Writes that are running; a re-encryption waits for them so none lands with the old key
+const activeWrites = new Set<Promise<void>>();
+
+export type VaultStatus = 'none' | 'locked' | 'unlocked';
+
+export const getVaultStatus = async (): Promise<VaultStatus> => {
+  const db = await openDB();
+  vaultConfig = (await requestResult(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get('vault'))) || null;
+  if (!vaultConfig) return 'none';
+  return isVaultUnlocked() ? 'unlocked' : 'locked';
+};
+
+// Resolves null if the passphrase does not match the vault
+const verifyPassphrase = async (passphrase: string): Promise<CryptoKey | null> => {
+  if (!vaultConfig) throw new Error("Encryption is not enabled.");
+  const key = await deriveKey(passphrase, vaultConfig.salt, vaultConfig.iterations);
   try {
+    await decryptBytes(key, vaultConfig.check);
+    return key;
+  } catch {
+    return null;
+  }
+};
+
+const createVaultConfig = async (passphrase: string): Promise<{ key: CryptoKey; config: VaultConfig }> => {
+  const salt = generateSalt();
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const check = await encryptBytes(key, new TextEncoder().encode(VAULT_CHECK_TEXT));
+  return { key, config: { key: 'vault', salt, iterations: PBKDF2_ITERATIONS, check } };
+};
+
+// Resolves false on a wrong passphrase
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  if (!vaultConfig) await getVaultStatus();
+  const key = await verifyPassphrase(passphrase);
+  if (key) setVaultKey(key);
+  return !!key;
+};
+
+// Waits for a running re-encryption, then registers a write until the returned release is
+// called. Writes are refused while an encrypted workspace is locked, so plaintext never
+// reaches disk.
+const beginWrite = async (): Promise<() => void> => {
+  while (vaultRewrite) await vaultRewrite.catch(() => { /* reported by the rewrite itself */ });
+  if (vaultConfig && !isVaultUnlocked()) throw new Error("The vault is locked.");
+  let release!: () => void;
+  const write = new Promise<void>(resolve => { release = resolve; });
+  activeWrites.add(write);
+  return () => {
+    activeWrites.delete(write);
+    release();
+  };
+};
+
+// Runs a change of the encryption settings, key derivation included, with writes held back
+const withVaultLock = (change: () => Promise<void>): Promise<void> => {
+  if (vaultRewrite) return Promise.reject(new Error("The encryption settings are already being changed."));
+  const rewrite = (async () => {
+    await Promise.all(activeWrites);
+    await change();
+  })().finally(() => { vaultRewrite = null; });
+  vaultRewrite = rewrite;
+  return rewrite;
+};
+
+/**
+ * Re-writes every note, revision, blob, the folder list and the templates with `newKey` (plaintext if null)
+ * and stores the new vault configuration, all in one transaction: either everything switches
+ * or nothing does.
+ * The whole workspace is held in memory while this runs.
+ */
+const rewriteVault = async (newKey: CryptoKey | null, newConfig: VaultConfig | null): Promise<void> => {
+  const db = await openDB();
+  const stores = [STORE_NAME, TRASH_STORE, REVISIONS_STORE, SYNC_STORE, BLOBS_STORE];
+  const readTx = db.transaction([...stores, META_STORE], 'readonly');
+  const [notes, trash, revisions, syncBases, blobs, folderRecord, templateRecord] = await Promise.all([
+    ...stores.map(name => requestResult(readTx.objectStore(name).getAll())),
+    requestResult(readTx.objectStore(META_STORE).get(FOLDERS_KEY)),
+    requestResult(readTx.objectStore(META_STORE).get(TEMPLATES_KEY))
+  ]) as [any[], any[], any[], any[], BlobRecord[], any, any];
+
+  const reseal = async (record: any) => {
+    const plain = await openRecord(record);
+    return sealRecord(plain, recordBlobHashes(plain), newKey);
+  };
+  const resealedNotes = await Promise.all(notes.map(reseal));
+  const resealedTrash = await Promise.all(trash.map(reseal));
+  const resealedRevisions = await Promise.all(revisions.map(reseal));
+  const resealedSyncBases = await Promise.all(syncBases.map(reseal));
+  const resealedFolders = folderRecord ? await reseal(folderRecord) : null;
+  const resealedTemplates = templateRecord ? await reseal(templateRecord) : null;
+  const resealedBlobs: BlobRecord[] = [];
+  for (const record of blobs) {
+    const { encrypted, ...rest } = record;
+    const plain = await openBlob(record.blob, !!encrypted, record.type);
+    resealedBlobs.push(newKey
+      ? { ...rest, blob: await sealBlob(plain, newKey), encrypted: true }
+      : { ...rest, blob: plain });
+  }
+
+  const tx = db.transaction([...stores, META_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  resealedNotes.forEach(record => tx.objectStore(STORE_NAME).put(record));
+  resealedTrash.forEach(record => tx.objectStore(TRASH_STORE).put(record));
+  resealedRevisions.forEach(record => tx.objectStore(REVISIONS_STORE).put(record));
+  resealedSyncBases.forEach(record => tx.objectStore(SYNC_STORE).put(record));
+  resealedBlobs.forEach(record => tx.objectStore(BLOBS_STORE).put(record));
+  if (resealedFolders) tx.objectStore(META_STORE).put(resealedFolders);
+  if (resealedTemplates) tx.objectStore(META_STORE).put(resealedTemplates);
+  if (newConfig) tx.objectStore(META_STORE).put(newConfig);
+  else tx.objectStore(META_STORE).delete('vault');
+  await done;
+
+  setVaultKey(newKey);
+  vaultConfig = newConfig;
+};
+
+export const enableVault = (passphrase: string) => withVaultLock(async () => {
+  if (vaultConfig) throw new Error("Encryption is already enabled.");
+  const { key, config } = await createVaultConfig(passphrase);
+  await rewriteVault(key, config);
+});
+
+export const changeVaultPassphrase = (currentPassphrase: string, newPassphrase: string) => withVaultLock(async () => {
+  if (!(await verifyPassphrase(currentPassphrase))) throw new Error("The current passphrase is incorrect.");
+  const { key, config } = await createVaultConfig(newPassphrase);
+  await rewriteVault(key, config);
+});
+
+export const disableVault = (currentPassphrase: string) => withVaultLock(async () => {
+  if (!(await verifyPassphrase(currentPassphrase))) throw new Error("The current passphrase is incorrect.");
+  await rewriteVault(null, null);
+});
+
+// --- Writes ---
+
+// Writes only the notes that changed since the last save and removes deleted ones, keeping
+// blob reference counts in step. Everything happens in a single transaction, so an abort
+// leaves the previous state intact.
+const persistIdbNoteChanges = async ({ upserts, trashed, deletedIds }: NoteChanges): Promise<SaveResult> => {
+  if (upserts.length === 0 && trashed.length === 0 && deletedIds.length === 0) return { ok: true };
+
+  let tx: IDBTransaction | null = null;
+  let endWrite: (() => void) | null = null;
+  try {
+    endWrite = await beginWrite();
     const db = await openDB();
-    return new Promise((resolve, reject) => {
-        const tx = db.transaction(STORE_NAME, 'readwrite');
-        const store = tx.objectStore(STORE_NAME);
-        
-        // Strategy: Clear and Bulk Put to keep data consistent (handling deletions)
-        // Since we are replacing the entire local state representation
-        store.clear();
-        
-        notes.forEach(note => {
-            // Prepare object for storage
-            const noteToSave = {
-                ...note,
-                status: note.status === AppStatus.PROCESSING ? AppStatus.IDLE : note.status,
-                // Ensure attachments are stored as clean File objects (stripping the ephemeral blob: URL)
-                attachments: note.attachments.map(att => ({
-                    file: att.file,
-                    type: att.type
-                    // We DO NOT save 'url' here, it's generated on load
-                }))
-            };
-            store.put(noteToSave);
-        });
-        
-        tx.oncomplete = () => resolve(true);
-        tx.onerror = () => {
-            console.error("IDB Transaction Error", tx.error);
-            resolve(false);
-        };
-    });
+
+    // Serialize (and encrypt) before the transaction opens
+    const candidates = new Map<string, Blob>();
+    const writes = await Promise.all([
+      ...upserts.map(note => ({ note, isTrashed: false })),
+      ...trashed.map(note => ({ note, isTrashed: true }))
+    ].map(async ({ note, isTrashed }) => {
+      const plain = serializeNote(note);
+      const hashes = recordBlobHashes(plain);
+      note.attachments.forEach(att => candidates.set(att.hash, att.file));
+      stagedBlobsFor(hashes, candidates);
+      return { id: note.id, isTrashed, hashes, record: await sealRecord(plain, hashes) };
+    }));
+    const blobSources = await prepareBlobs(db, candidates);
+
+    tx = db.transaction([STORE_NAME, TRASH_STORE, REVISIONS_STORE, BLOBS_STORE, META_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    const store = tx.objectStore(STORE_NAME);
+    const trashStore = tx.objectStore(TRASH_STORE);
+    const blobStore = tx.objectStore(BLOBS_STORE);
+    const revisionStore = tx.objectStore(REVISIONS_STORE);
+    const metaStore = tx.objectStore(META_STORE);
+
+    const refDeltas: RefDeltas = new Map();
+    const staleIds: string[] = [];
+    const previousRecord = async (id: string) =>
+      (await requestResult(store.get(id))) || (await requestResult(trashStore.get(id)));
+
+    const now = Date.now();
+    const storedTombstones: Record<string, number> = (await requestResult(metaStore.get(TOMBSTONES_KEY)))?.purged || {};
+    const tombstones = Object.fromEntries(Object.entries(storedTombstones).filter(([, purgedAt]) => now - purgedAt < TOMBSTONE_TTL_MS));
+
+    // A note lives in exactly one of the two stores. A purge wins over edits made before it.
+    for (const { id, isTrashed, hashes, record } of writes) {
+      const previous = await previousRecord(id);
+      if ((previous?.updatedAt || tombstones[id] || 0) > record.updatedAt) {
+        staleIds.push(id);
+        continue;
+      }
+      delete tombstones[id];
+      adjustRefs(refDeltas, recordBlobHashes(previous), hashes);
+      (isTrashed ? trashStore : store).put(record);
+      (isTrashed ? store : trashStore).delete(id);
+    }
+
+    for (const id of deletedIds) {
+      adjustRefs(refDeltas, recordBlobHashes(await previousRecord(id)), []);
+      store.delete(id);
+      trashStore.delete(id);
+      tombstones[id] = now;
+      // A purged note takes its history with it
+      const revisions = await requestResult(revisionStore.index('noteId_createdAt').getAll(noteRevisionRange(id))) as NoteRevision[];
+      revisions.forEach(rev => {
+        adjustRefs(refDeltas, recordBlobHashes(rev), []);
+        revisionStore.delete(rev.id);
+      });
+    }
+
+    if (JSON.stringify(tombstones) !== JSON.stringify(storedTombstones)) {
+      metaStore.put({ key: TOMBSTONES_KEY, purged: tombstones });
+    }
+
+    await applyRefDeltas(blobStore, refDeltas, blobSources);
+
+    await done;
+    releaseStagedBlobs(refDeltas);
+    return { ok: true, staleIds };
   } catch (err) {
     console.error("IDB Save Error:", err);
+    try { tx?.abort(); } catch { /* already finished */ }
+    // A failed request aborts the transaction; its error is the more specific one
+    return { ok: false, error: describeStorageError(tx?.error || err) };
+  } finally {
+    endWrite?.();
+  }
+};
+
+const readRevisions = async (db: IDBDatabase, noteId: string): Promise<any[]> => {
+  const tx = db.transaction(REVISIONS_STORE, 'readonly');
+  return requestResult(tx.objectStore(REVISIONS_STORE).index('noteId_createdAt').getAll(noteRevisionRange(noteId)));
+};
+
+// Stores a snapshot unless it is identical to the note's latest one, then prunes the oldest
+// snapshots beyond MAX_REVISIONS_PER_NOTE. Revisions hold references to the inline images
+// they show, so restoring one never points at a garbage-collected blob.
+// Resolves whether a new revision was written.
+export const saveRevision = async (revision: NoteRevision): Promise<boolean> => {
+  let tx: IDBTransaction | null = null;
+  let endWrite: (() => void) | null = null;
+  try {
+    endWrite = await beginWrite();
+    const db = await openDB();
+
+    // Sealed revisions can only be compared once decrypted, outside the write transaction
+    const stored = await readRevisions(db, revision.noteId);
+    const latest: NoteRevision | undefined = await openRecord(stored[stored.length - 1]);
+    const unchanged = latest
+        && latest.inputText === revision.inputText
+        && latest.title === revision.title
+        && latest.role === revision.role;
+    if (unchanged) return false;
+
+    const hashes = recordBlobHashes(revision);
+    const candidates = new Map<string, Blob>();
+    stagedBlobsFor(hashes, candidates);
+    // With another backend the images may only exist there; revisions keep their own copy here
+    if (activeBackend.kind !== 'indexeddb') {
+      for (const hash of hashes.filter(h => !candidates.has(h))) {
+        const blob = await activeBackend.loadBlob(hash);
+        if (blob) candidates.set(hash, blob);
+      }
+    }
+    const blobSources = await prepareBlobs(db, candidates);
+    const record = await sealRecord(revision, hashes);
+
+    tx = db.transaction([REVISIONS_STORE, BLOBS_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    const store = tx.objectStore(REVISIONS_STORE);
+    const existing = await requestResult(store.index('noteId_createdAt').getAll(noteRevisionRange(revision.noteId))) as any[];
+
+    const refDeltas: RefDeltas = new Map();
+    store.put(record);
+    adjustRefs(refDeltas, [], hashes);
+
+    // The new revision counts towards the limit
+    const expired = existing.slice(0, Math.max(0, existing.length + 1 - MAX_REVISIONS_PER_NOTE));
+    expired.forEach(rev => {
+      store.delete(rev.id);
+      adjustRefs(refDeltas, recordBlobHashes(rev), []);
+    });
+
+    await applyRefDeltas(tx.objectStore(BLOBS_STORE), refDeltas, blobSources);
+    await done;
+    releaseStagedBlobs(refDeltas);
+    return true;
+  } catch (err) {
+    console.error("IDB Revision Error:", err);
+    try { tx?.abort(); } catch { /* already finished */ }
     return false;
+  } finally {
+    endWrite?.();
   }
-};
\ No newline at end of file
+};
+
+// Newest first
+export const loadRevisions = async (noteId: string): Promise<NoteRevision[]> => {
+  try {
+    const db = await openDB();
+    const stored = await readRevisions(db, noteId);
+    const revisions: NoteRevision[] = await Promise.all(stored.map(record => openRecord(record)));
+    return revisions.reverse();
+  } catch (err) {
+    console.error("IDB Revision Load Error:", err);
+    return [];
+  }
+};
+
+// --- Folders ---
+
+// The folder tree is one record in the meta store, sealed like notes
+const FOLDERS_KEY = 'folders';
+
+const loadIdbFolders = async (): Promise<Folder[]> => {
+  const db = await openDB();
+  const stored = await requestResult(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(FOLDERS_KEY));
+  if (!stored) return [];
+  const record = await openRecord(stored);
+  return Array.isArray(record.folders) ? record.folders : [];
+};
+
+const saveIdbFolders = async (folders: Folder[]) => {
+  const endWrite = await beginWrite();
+  try {
+    const db = await openDB();
+    const record = await sealRecord({ key: FOLDERS_KEY, folders }, []);
+    const tx = db.transaction(META_STORE, 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore(META_STORE).put(record);
+    await done;
+  } finally {
+    endWrite();
+  }
+};
+
+// --- Templates ---
+
+// Custom note templates are one record in the meta store, sealed like notes. They stay in
+// IndexedDB whichever backend holds the notes.
+const TEMPLATES_KEY = 'templates';
+
+// Resolves null if no templates were ever stored here
+export const loadTemplatesFromStorage = async (): Promise<NoteTemplate[] | null> => {
+  const db = await openDB();
+  const stored = await requestResult(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(TEMPLATES_KEY));
+  if (!stored) return null;
+  const record = await openRecord(stored);
+  return Array.isArray(record.templates) ? record.templates : [];
+};
+
+export const saveTemplatesToStorage = async (templates: NoteTemplate[]) => {
+  const endWrite = await beginWrite();
+  try {
+    const db = await openDB();
+    const record = await sealRecord({ key: TEMPLATES_KEY, templates }, []);
+    const tx = db.transaction(META_STORE, 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore(META_STORE).put(record);
+    await done;
+  } finally {
+    endWrite();
+  }
+};
+
+// --- Sync state ---
+
+// The last synchronised version of each note, the base for three-way merges. Always kept in
+// IndexedDB and sealed like notes; the blobs it mentions live on the sync target.
+export const loadSyncBases = async (): Promise<SyncBase[]> => {
+  const db = await openDB();
+  const stored = await requestResult(db.transaction(SYNC_STORE, 'readonly').objectStore(SYNC_STORE).getAll()) as any[];
+  return Promise.all(stored.map(record => openRecord(record)));
+};
+
+export const saveSyncBases = async (bases: SyncBase[], removedIds: string[]) => {
+  const endWrite = await beginWrite();
+  try {
+    const db = await openDB();
+    const records = await Promise.all(bases.map(base => sealRecord(base, [])));
+    const tx = db.transaction(SYNC_STORE, 'readwrite');
+    const done = transactionDone(tx);
+    const store = tx.objectStore(SYNC_STORE);
+    records.forEach(record => store.put(record));
+    removedIds.forEach(id => store.delete(id));
+    await done;
+  } finally {
+    endWrite();
+  }
+};
+
+// Forgets what was synchronised, e.g. when the sync target changes
+export const clearSyncBases = async () => {
+  const db = await openDB();
+  const tx = db.transaction(SYNC_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(SYNC_STORE).clear();
+  await done;
+};
+
+// --- Backend selection ---
+
+const indexedDbBackend: StorageBackend = {
+  kind: 'indexeddb',
+  loadNotes: () => loadNoteRecords(STORE_NAME),
+  loadTrash: () => loadNoteRecords(TRASH_STORE),
+  persistNoteChanges: persistIdbNoteChanges,
+  loadNote: loadIdbNote,
+  loadBlob: loadIdbBlob,
+  loadFolders: loadIdbFolders,
+  saveFolders: saveIdbFolders
+};
+
+let activeBackend: StorageBackend = indexedDbBackend;
+
+export const STORAGE_BACKEND_KEY = 'storage_backend';
+export const VAULT_PATH_KEY = 'vault_path';
+
+export const getStorageBackendKind = (): StorageBackendKind => activeBackend.kind;
+
+/**
+ * Switches where notes are read from and written to. The folder vault is opened (and created
+ * if needed) in the Electron main process; throws if that fails.
+ */
+export const selectStorageBackend = async (kind: StorageBackendKind, vaultPath?: string) => {
+  if (kind === 'filesystem') {
+    if (!vaultPath) throw new Error("No vault folder selected.");
+    await openFsVault(vaultPath);
+    activeBackend = fsVaultBackend;
+  } else {
+    if (activeBackend === fsVaultBackend) await closeFsVault();
+    activeBackend = indexedDbBackend;
+  }
+  localStorage.setItem(STORAGE_BACKEND_KEY, kind);
+  if (vaultPath) localStorage.setItem(VAULT_PATH_KEY, vaultPath);
+};
+
+export const isFolderVaultConfigured = () => localStorage.getItem(STORAGE_BACKEND_KEY) === 'filesystem';
+
+// Falls back to IndexedDB, e.g. when the vault folder is gone; takes effect on the next start
+export const resetStorageBackend = () => {
+  localStorage.setItem(STORAGE_BACKEND_KEY, 'indexeddb');
+};
+
+// Applies the backend saved in settings; called before loading
+export const initStorageBackend = async () => {
+  if (isFolderVaultConfigured()) {
+    await selectStorageBackend('filesystem', localStorage.getItem(VAULT_PATH_KEY) || undefined);
+  }
+};
+
+// Throws if the storage cannot be opened or migrated, so the UI can report it
+// instead of starting over with an empty workspace.
+export const loadNotesFromStorage = (): Promise<NoteSession[]> => activeBackend.loadNotes();
+
+export const loadTrashFromStorage = (): Promise<NoteSession[]> => activeBackend.loadTrash();
+
+export const persistNoteChanges = (changes: NoteChanges): Promise<SaveResult> => activeBackend.persistNoteChanges(changes);
+
+export const loadNoteFromStorage = (id: string): Promise<StoredNote | null> => activeBackend.loadNote(id);
+
+export const loadFoldersFromStorage = (): Promise<Folder[]> => activeBackend.loadFolders();
+
+export const saveFoldersToStorage = (folders: Folder[]): Promise<void> => activeBackend.saveFolders(folders);
+
+// Subscribes to edits made outside the app, if the active backend can see them
+export const watchExternalChanges = (listener: (change: ExternalChange) => void): (() => void) =>
+  activeBackend.watch ? activeBackend.watch(listener) : () => {};
+
+// Staged blobs first, then the active backend; revisions keep images in IndexedDB even when
+// notes live elsewhere
+export const loadBlob = async (hash: string): Promise<Blob | null> => {
+  const staged = getStagedBlob(hash);
+  if (staged) return staged;
+  const blob = await activeBackend.loadBlob(hash);
+  if (blob || activeBackend === indexedDbBackend) return blob;
+  return loadIdbBlob(hash);
+};
@@ -0,0 +1,65 @@
+import { NoteSession } from '../types';
+import { extractInlineImageHashes, dehydrateInlineImages } from '../utils/inlineImages';
+import { getBlob } from './blobStore';
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+export interface NoteSize {
+  noteId: string;
+  title: string;
+  isTrashed: boolean;
+  text: number;        // Note HTML and AI result
+  images: number;      // Inline images in the note body
+  attachments: number;
+  chat: number;
+  total: number;
+}
+
+// Origin-wide usage as reported by the browser; null where the API is unavailable
+export const estimateStorage = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch (err) {
+    console.warn("Storage estimate failed", err);
+    return null;
+  }
+};
+
+const byteLength = (text: string) => new Blob([text]).size;
+
+/**
+ * Approximate stored size of a note. Blobs shared between notes (duplicates, the same file
+ * attached twice) are stored once but counted for every note that references them.
+ */
+export const measureNote = async (note: NoteSession, isTrashed: boolean): Promise<NoteSize> => {
+  const text = byteLength(dehydrateInlineImages(note.inputText || '')) + byteLength(note.result?.markdown || '');
+
+  let images = 0;
+  for (const hash of extractInlineImageHashes(note.inputText)) {
+    images += (await getBlob(hash))?.size || 0;
+  }
+
+  const attachments = Array.from(new Map(note.attachments.map(att => [att.hash, att.file.size])).values())
+    .reduce((sum, size) => sum + size, 0);
+  const chat = byteLength(JSON.stringify(note.chatHistory || []));
+
+  return {
+    noteId: note.id,
+    title: note.title,
+    isTrashed,
+    text,
+    images,
+    attachments,
+    chat,
+    total: text + images + attachments + chat
+  };
+};
+
+// Would adding `bytes` push usage past the quota? Unknown quota never blocks.
+export const exceedsQuota = (estimate: StorageEstimate | null, bytes: number) =>
+  !!estimate && estimate.quota > 0 && estimate.usage + bytes > estimate.quota;
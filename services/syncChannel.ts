@@ -0,0 +1,46 @@
+import { StorageBackendKind } from './storageBackend';
+
+// Keeps several tabs or windows of the app consistent. After a successful save an instance
+// announces which notes it wrote or deleted, or that the folder list changed; the others reload
+// those from storage. Only IDs and timestamps travel over the channel, never note content.
+
+const CHANNEL_NAME = 'smart-note-sync';
+
+export interface NoteChangeMessage {
+  kind: 'notes';
+  backend: StorageBackendKind; // Instances on different backends do not share notes
+  saved: { id: string; updatedAt: number }[];
+  deletedIds: string[];
+}
+
+export interface FolderChangeMessage {
+  kind: 'folders';
+  backend: StorageBackendKind;
+}
+
+export type SyncChannelMessage = NoteChangeMessage | FolderChangeMessage;
+
+let channel: BroadcastChannel | null = null;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') channel = new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+};
+
+export const broadcastNoteChanges = (message: Omit<NoteChangeMessage, 'kind'>) => {
+  if (message.saved.length === 0 && message.deletedIds.length === 0) return;
+  getChannel()?.postMessage({ kind: 'notes', ...message });
+};
+
+export const broadcastFolderChanges = (backend: StorageBackendKind) => {
+  getChannel()?.postMessage({ kind: 'folders', backend });
+};
+
+// Messages posted by this instance are not delivered back to it; returns an unsubscribe function
+export const subscribeToNoteChanges = (listener: (message: SyncChannelMessage) => void): (() => void) => {
+  const target = getChannel();
+  if (!target) return () => {};
+  const handler = (event: MessageEvent<SyncChannelMessage>) => listener(event.data);
+  target.addEventListener('message', handler);
+  return () => target.removeEventListener('message', handler);
+};
@@ -0,0 +1,402 @@
+import { NoteSession, AppStatus, ImagePreview, NoteRole } from '../types';
+import { ExternalChange } from './storageBackend';
+import { loadSyncBases, saveSyncBases, clearSyncBases, getVaultStatus } from './storageService';
+import { getBlob, registerBlob } from './blobStore';
+import {
+  SyncTarget, SyncedNote, SyncBase, RemoteNoteDoc, SYNC_FORMAT, createWebDavTarget, createFolderTarget
+} from './syncTarget';
+import { mergeHtml, mergeValue } from '../utils/merge';
+import { extractInlineImageHashes } from '../utils/inlineImages';
+import { sanitizeHtml } from '../utils/sanitizeHtml';
+import { isNoteResult, readChatHistory, readTags } from '../utils/noteFields';
+import { generateId } from '../utils/constants';
+import { isValidDayKey } from '../utils/dates';
+
+// --- Settings ---
+
+export interface SyncSettings {
+  kind: 'webdav' | 'folder';
+  url: string;       // WebDAV
+  username: string;  // WebDAV
+  password: string;  // WebDAV; kept in memory for the session only, never stored
+  folder: string;    // Shared folder (desktop app)
+}
+
+export const SYNC_SETTINGS_KEY = 'sync_settings';
+// Which target the stored sync bases belong to
+const SYNC_TARGET_ID_KEY = 'sync_target_id';
+
+let sessionPassword = '';
+
+export const getSyncSettings = (): SyncSettings | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SYNC_SETTINGS_KEY) || 'null');
+    if (!stored || !(stored.kind === 'webdav' ? stored.url : stored.folder)) return null;
+    // Earlier versions stored the password; drop it from disk
+    if (stored.password) {
+      sessionPassword ||= stored.password;
+      saveSyncSettings(stored);
+    }
+    return { ...stored, password: sessionPassword };
+  } catch {
+    return null;
+  }
+};
+
+export const saveSyncSettings = (settings: SyncSettings | null) => {
+  sessionPassword = settings?.password || '';
+  if (settings) localStorage.setItem(SYNC_SETTINGS_KEY, JSON.stringify({ ...settings, password: '' }));
+  else localStorage.removeItem(SYNC_SETTINGS_KEY);
+};
+
+const targetId = (settings: SyncSettings) => settings.kind === 'webdav' ? `webdav:${settings.url}` : `folder:${settings.folder}`;
+
+const createTarget = (settings: SyncSettings): SyncTarget => settings.kind === 'webdav'
+  ? createWebDavTarget(settings)
+  : createFolderTarget(settings.folder);
+
+// --- Engine ---
+
+export const SYNC_VAULT_ERROR = "Sync is not available while encryption is on: notes would be uploaded unencrypted.";
+
+export interface SyncReport {
+  pushed: number;
+  pulled: number;
+  merged: number;
+  conflicts: number;  // Kept as "conflicted copy" notes
+  deleted: number;
+  skipped: number;    // Changed on the target while syncing; picked up next time
+}
+
+const NOTES_DIR = 'notes';
+const BLOBS_DIR = 'blobs';
+
+const notePath = (id: string) => `${NOTES_DIR}/${id}.json`;
+const blobPath = (hash: string) => `${BLOBS_DIR}/${hash}`;
+
+const toSynced = (note: NoteSession): SyncedNote => ({
+  id: note.id,
+  title: note.title,
+  inputText: note.inputText,
+  createdAt: note.createdAt,
+  updatedAt: note.updatedAt,
+  ...(note.editedAt ? { editedAt: note.editedAt } : {}),
+  role: note.role,
+  result: note.result,
+  chatHistory: note.chatHistory,
+  ...(note.tags?.length ? { tags: note.tags } : {}),
+  ...(note.folderId ? { folderId: note.folderId } : {}),
+  ...(note.dailyDate ? { dailyDate: note.dailyDate } : {}),
+  ...(note.pinned ? { pinned: true } : {}),
+  ...(note.favorite ? { favorite: true } : {}),
+  ...(note.deletedAt ? { deletedAt: note.deletedAt } : {}),
+  attachments: note.attachments.map(att => ({ hash: att.hash, name: att.file.name, mimeType: att.file.type, type: att.type })),
+  images: {}
+});
+
+// What counts as a change worth syncing (not updatedAt, not image types)
+const fingerprint = (note: SyncedNote) => JSON.stringify([
+  note.title, note.inputText, note.role, note.result, note.chatHistory, note.tags || [], note.folderId || null, note.dailyDate || null, !!note.pinned, !!note.favorite, note.deletedAt || null,
+  note.attachments.map(att => [att.hash, att.name])
+]);
+
+/**
+ * Three-way merge of a note edited on both sides since `base`. Resolves null on a true
+ * conflict: the same block of text, the title or the role changed differently on each side.
+ */
+const mergeNotes = (base: SyncedNote | undefined, local: SyncedNote, remote: SyncedNote): SyncedNote | null => {
+  // Without a base (never synced before) everything both sides have counts as an edit
+  const origin: SyncedNote = base || { ...remote, title: '', inputText: '', chatHistory: [], tags: [], attachments: [], result: null };
+
+  const title = mergeValue(origin.title, local.title, remote.title);
+  const role = mergeValue(origin.role, local.role, remote.role);
+  const deletedAt = mergeValue(origin.deletedAt, local.deletedAt, remote.deletedAt);
+  const inputText = mergeHtml(origin.inputText, local.inputText, remote.inputText);
+  if (title.conflict || role.conflict || deletedAt.conflict || inputText.conflict) return null;
+
+  // Chats only grow, unless cleared: combine the messages of both sides
+  const chat = mergeValue(origin.chatHistory, local.chatHistory, remote.chatHistory);
+  const chatHistory = chat.conflict
+    ? [...local.chatHistory, ...remote.chatHistory.filter(msg => !local.chatHistory.some(m => m.id === msg.id))]
+        .sort((a, b) => a.timestamp - b.timestamp)
+    : chat.value;
+
+  // An attachment stays unless one side removed it; additions of both sides are kept
+  const inBase = new Set(origin.attachments.map(att => att.hash));
+  const inRemote = new Set(remote.attachments.map(att => att.hash));
+  const attachments = [
+    ...local.attachments.filter(att => inRemote.has(att.hash) || !inBase.has(att.hash)),
+    ...remote.attachments.filter(att => !inBase.has(att.hash) && !local.attachments.some(a => a.hash === att.hash))
+  ];
+
+  // Tags added on either side are kept, tags removed on either side go
+  const baseTags = origin.tags || [];
+  const tags = Array.from(new Set([...(local.tags || []), ...(remote.tags || [])]))
+    .filter(tag => !baseTags.includes(tag) || ((local.tags || []).includes(tag) && (remote.tags || []).includes(tag)));
+
+  // Moved to different folders on each side: where it was filed here wins
+  const folderId = mergeValue(origin.folderId, local.folderId, remote.folderId).value;
+
+  // Pins and favourites follow whichever side changed them
+  const pinned = mergeValue(!!origin.pinned, !!local.pinned, !!remote.pinned).value;
+  const favorite = mergeValue(!!origin.favorite, !!local.favorite, !!remote.favorite).value;
+
+  // The most recent AI result wins
+  const result = (local.result?.timestamp || 0) >= (remote.result?.timestamp || 0) ? local.result : remote.result;
+
+  const { deletedAt: _deletedAt, tags: _tags, folderId: _folderId, pinned: _pinned, favorite: _favorite, ...fields } = local;
+  return {
+    ...fields,
+    title: title.value,
+    role: role.value,
+    inputText: inputText.value,
+    chatHistory,
+    attachments,
+    result,
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(folderId ? { folderId } : {}),
+    ...(pinned ? { pinned } : {}),
+    ...(favorite ? { favorite } : {}),
+    updatedAt: Date.now(),
+    editedAt: Math.max(local.editedAt ?? local.updatedAt, remote.editedAt ?? remote.updatedAt),
+    images: { ...remote.images, ...local.images },
+    ...(deletedAt.value ? { deletedAt: deletedAt.value } : {})
+  };
+};
+
+const encodeDoc = (doc: RemoteNoteDoc) => JSON.stringify(doc, null, 2);
+
+interface Session {
+  target: SyncTarget;
+  remoteBlobs: Set<string>;
+}
+
+const readDoc = async ({ target }: Session, id: string): Promise<{ doc: RemoteNoteDoc; etag: string } | null> => {
+  const file = await target.read(notePath(id));
+  if (!file) return null;
+  const doc: RemoteNoteDoc = JSON.parse(new TextDecoder().decode(file.data));
+  // Would otherwise overwrite another note
+  if (doc.note && doc.note.id !== id) throw new Error("The note ID does not match its file name");
+  return { doc, etag: file.etag };
+};
+
+// Uploads the note's blobs that the target does not have yet, then the note itself
+const pushNote = async (session: Session, note: SyncedNote, rev: number, expectedEtag: string | null | undefined): Promise<SyncBase | null> => {
+  const images = { ...note.images };
+  const hashes = [...note.attachments.map(att => att.hash), ...extractInlineImageHashes(note.inputText)];
+  for (const hash of new Set(hashes)) {
+    const isImage = !note.attachments.some(att => att.hash === hash);
+    if (session.remoteBlobs.has(hash) && (!isImage || images[hash] !== undefined)) continue;
+
+    const blob = await getBlob(hash);
+    if (!blob) {
+      console.warn(`Blob ${hash} of note ${note.id} is not available here and was not uploaded`);
+      continue;
+    }
+    if (isImage) images[hash] = blob.type;
+    if (!session.remoteBlobs.has(hash)) {
+      await session.target.write(blobPath(hash), new Uint8Array(await blob.arrayBuffer()));
+      session.remoteBlobs.add(hash);
+    }
+  }
+
+  const synced = { ...note, images };
+  const etag = await session.target.write(notePath(note.id), encodeDoc({ format: SYNC_FORMAT, rev, note: synced }), expectedEtag);
+  return etag === null ? null : { ...synced, rev, etag };
+};
+
+const pushTombstone = async (session: Session, id: string, rev: number, expectedEtag: string | null) =>
+  (await session.target.write(notePath(id), encodeDoc({ format: SYNC_FORMAT, rev, deleted: true }), expectedEtag)) !== null;
+
+const VALID_ROLES: NoteRole[] = ['autosar', 'notebooklm', 'general', 'weekly'];
+
+// Turns a synced note into a local one, downloading blobs this device does not have. Anyone with
+// access to the sync target can write notes there, so the content is sanitized and checked.
+const toLocal = async ({ target }: Session, note: SyncedNote): Promise<NoteSession> => {
+  const fetchBlob = async (hash: string, type: string): Promise<Blob | null> => {
+    const local = await getBlob(hash);
+    if (local) return local;
+    const file = await target.read(blobPath(hash));
+    if (!file) {
+      console.warn(`Blob ${hash} of note ${note.id} is missing on the sync target`);
+      return null;
+    }
+    return new Blob([file.data as Uint8Array<ArrayBuffer>], { type });
+  };
+
+  const inputText = sanitizeHtml(typeof note.inputText === 'string' ? note.inputText : '');
+  const attachments: ImagePreview[] = [];
+  for (const att of Array.isArray(note.attachments) ? note.attachments : []) {
+    const blob = await fetchBlob(att.hash, att.mimeType);
+    if (!blob) continue;
+    const file = new File([blob], att.name, { type: att.mimeType });
+    attachments.push({ file, hash: att.hash, url: URL.createObjectURL(file), type: att.type });
+  }
+  for (const hash of extractInlineImageHashes(inputText)) {
+    const blob = await fetchBlob(hash, note.images?.[hash] || '');
+    // Staged so the next local save stores it
+    if (blob) registerBlob(hash, blob);
+  }
+
+  const result = isNoteResult(note.result) ? { markdown: note.result.markdown, timestamp: note.result.timestamp } : null;
+  const tags = readTags(note.tags);
+  const createdAt = typeof note.createdAt === 'number' ? note.createdAt : Date.now();
+  return {
+    id: note.id,
+    title: typeof note.title === 'string' ? note.title : '',
+    inputText,
+    attachments,
+    result,
+    status: result ? AppStatus.SUCCESS : AppStatus.IDLE,
+    error: null,
+    createdAt,
+    updatedAt: typeof note.updatedAt === 'number' ? note.updatedAt : createdAt,
+    ...(typeof note.editedAt === 'number' ? { editedAt: note.editedAt } : {}),
+    role: VALID_ROLES.includes(note.role) ? note.role : 'autosar',
+    chatHistory: readChatHistory(note.chatHistory),
+    ...(tags.length ? { tags } : {}),
+    ...(typeof note.folderId === 'string' ? { folderId: note.folderId } : {}),
+    ...(isValidDayKey(note.dailyDate) ? { dailyDate: note.dailyDate } : {}),
+    ...(note.pinned === true ? { pinned: true } : {}),
+    ...(note.favorite === true ? { favorite: true } : {}),
+    ...(typeof note.deletedAt === 'number' ? { deletedAt: note.deletedAt } : {})
+  };
+};
+
+const upsertChange = (note: NoteSession): ExternalChange => ({ kind: 'upsert', note, isTrashed: !!note.deletedAt });
+
+/**
+ * Synchronises the given local notes (live and trashed) with the configured target.
+ *
+ * For every note the last synchronised version (the base) is kept locally. A note changed on
+ * one side only is pushed or pulled; changed on both, it is merged against the base, and a
+ * true conflict keeps the local version under the note's ID and adds the other one as a
+ * "conflicted copy" note. Changes for this device are handed to `applyLocal`, which resolves
+ * the IDs it could not apply (e.g. edited meanwhile); those are merged again on the next run.
+ * Refuses to run while the workspace is encrypted.
+ */
+export const runSync = async (
+  settings: SyncSettings,
+  localNotes: NoteSession[],
+  applyLocal: (changes: ExternalChange[]) => Promise<string[]>
+): Promise<SyncReport> => {
+  // Notes would leave the device unencrypted
+  if (await getVaultStatus() !== 'none') throw new Error(SYNC_VAULT_ERROR);
+
+  const target = createTarget(settings);
+  const report: SyncReport = { pushed: 0, pulled: 0, merged: 0, conflicts: 0, deleted: 0, skipped: 0 };
+
+  // Bases recorded for another target say nothing about this one
+  if (localStorage.getItem(SYNC_TARGET_ID_KEY) !== targetId(settings)) {
+    await clearSyncBases();
+    localStorage.setItem(SYNC_TARGET_ID_KEY, targetId(settings));
+  }
+
+  await target.ensureDir(NOTES_DIR);
+  await target.ensureDir(BLOBS_DIR);
+  const remoteEtags = new Map((await target.list(NOTES_DIR))
+    .filter(entry => entry.name.endsWith('.json'))
+    .map(entry => [entry.name.slice(0, -'.json'.length), entry.etag] as [string, string]));
+  const session: Session = { target, remoteBlobs: new Set((await target.list(BLOBS_DIR)).map(entry => entry.name)) };
+
+  const bases = new Map((await loadSyncBases()).map(base => [base.id, base]));
+  const locals = new Map(localNotes.map(note => [note.id, note]));
+
+  const newBases = new Map<string, SyncBase>();
+  const droppedBases: string[] = [];
+  const changes: ExternalChange[] = [];
+
+  const pull = async (note: SyncedNote, rev: number, etag: string) => {
+    changes.push(upsertChange(await toLocal(session, note)));
+    newBases.set(note.id, { ...note, rev, etag });
+    report.pulled++;
+  };
+  const push = async (note: SyncedNote, rev: number, expectedEtag: string | null | undefined) => {
+    const base = await pushNote(session, note, rev, expectedEtag);
+    if (base) newBases.set(note.id, base);
+    else report.skipped++;
+    return base;
+  };
+
+  for (const id of new Set([...locals.keys(), ...bases.keys(), ...remoteEtags.keys()])) {
+    const local = locals.get(id);
+    const localSynced = local && toSynced(local);
+    const base = bases.get(id);
+    const remoteEtag = remoteEtags.get(id);
+
+    const localChanged = !!localSynced && (!base || fingerprint(localSynced) !== fingerprint(base));
+    const remoteChanged = remoteEtag !== base?.etag;
+
+    try {
+      if (!remoteChanged) {
+        if (localSynced && localChanged) {
+          if (await push({ ...localSynced, images: base?.images || {} }, (base?.rev || 0) + 1, remoteEtag ?? null)) report.pushed++;
+        } else if (!local && base) {
+          // Deleted for good here: leave a tombstone so other devices drop it too
+          if (await pushTombstone(session, id, base.rev + 1, base.etag)) {
+            droppedBases.push(id);
+            report.deleted++;
+          } else {
+            report.skipped++;
+          }
+        }
+        continue;
+      }
+
+      const fetched = remoteEtag !== undefined ? await readDoc(session, id) : null;
+      const remote = fetched && !fetched.doc.deleted ? fetched.doc.note : undefined;
+      const remoteRev = fetched?.doc.rev ?? base?.rev ?? 0;
+
+      if (!remote) {
+        // Deleted elsewhere (or the file was removed)
+        if (localSynced && localChanged) {
+          // Edited here since: the edit wins and brings the note back
+          if (await push({ ...localSynced, images: base?.images || {} }, remoteRev + 1, fetched ? fetched.etag : null)) report.pushed++;
+        } else {
+          if (local) {
+            changes.push({ kind: 'delete', id });
+            report.deleted++;
+          }
+          if (base) droppedBases.push(id);
+        }
+        continue;
+      }
+
+      if (!localSynced || !localChanged || fingerprint(localSynced) === fingerprint(remote)) {
+        // Unchanged here, or deleted here after being edited elsewhere: take theirs
+        await pull(remote, remoteRev, fetched!.etag);
+        continue;
+      }
+
+      const merged = mergeNotes(base, { ...localSynced, images: base?.images || {} }, remote);
+      if (merged) {
+        if (await push(merged, remoteRev + 1, fetched!.etag)) {
+          changes.push(upsertChange(await toLocal(session, merged)));
+          report.merged++;
+        }
+        continue;
+      }
+
+      // True conflict: ours stays under this ID, theirs becomes a copy right next to it
+      const copy: SyncedNote = {
+        ...remote,
+        id: generateId(),
+        title: `${remote.title || 'Untitled Note'} (conflicted copy ${new Date().toLocaleDateString()})`,
+        updatedAt: Date.now()
+      };
+      if (await push({ ...localSynced, images: base?.images || {} }, remoteRev + 1, fetched!.etag)) {
+        if (await push(copy, 1, null)) changes.push(upsertChange(await toLocal(session, copy)));
+        report.conflicts++;
+      }
+    } catch (err) {
+      // One broken note must not stop the others from syncing
+      console.warn(`Could not sync note ${id}`, err);
+      report.skipped++;
+    }
+  }
+
+  const rejected = await applyLocal(changes);
+  rejected.forEach(id => newBases.delete(id));
+  await saveSyncBases(Array.from(newBases.values()), droppedBases.filter(id => !rejected.includes(id)));
+  return report;
+};
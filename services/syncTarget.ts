@@ -0,0 +1,159 @@
+import { ChatMessage, ImagePreview, NoteResult, NoteRole } from '../types';
+import { getIpcRenderer } from '../utils/electron';
+
+/**
+ * Where notes are synchronised to: a WebDAV server or a shared folder (desktop app).
+ * Both hold the same layout under the chosen location:
+ *
+ *   notes/<id>.json     RemoteNoteDoc: revision counter and the note (or a deletion marker)
+ *   blobs/<hash>        attachments and inline images, content-addressed, written once
+ *
+ * Every file has an ETag; note writes are conditional on it, so two devices pushing the
+ * same note at once cannot overwrite each other unnoticed.
+ */
+
+export const SYNC_FORMAT = 1;
+
+export interface SyncedAttachment {
+  hash: string;
+  name: string;
+  mimeType: string;
+  type: ImagePreview['type'];
+}
+
+// A note as exchanged with the sync target; inline images reference blobs by hash
+export interface SyncedNote {
+  id: string;
+  title: string;
+  inputText: string;
+  createdAt: number;
+  updatedAt: number;
+  editedAt?: number;
+  role: NoteRole;
+  result: NoteResult | null;
+  chatHistory: ChatMessage[];
+  tags?: string[];
+  folderId?: string; // Folders themselves are not synchronised; unknown folders show up unfiled
+  dailyDate?: string;
+  pinned?: boolean;
+  favorite?: boolean;
+  deletedAt?: number;
+  attachments: SyncedAttachment[];
+  images: Record<string, string>; // Inline image hash -> MIME type
+}
+
+export interface RemoteNoteDoc {
+  format: number;
+  rev: number;     // Incremented by every push
+  deleted?: true;  // Tombstone: the note was deleted for good on some device
+  note?: SyncedNote;
+}
+
+// Local record of the version both sides agreed on at the last sync
+export interface SyncBase extends SyncedNote {
+  rev: number;
+  etag: string;
+}
+
+export interface RemoteEntry {
+  name: string;
+  etag: string;
+}
+
+export interface SyncTarget {
+  // Files directly inside `dir`; empty if it does not exist
+  list: (dir: string) => Promise<RemoteEntry[]>;
+  read: (path: string) => Promise<{ data: Uint8Array; etag: string } | null>;
+  /**
+   * Resolves the new ETag, or null if the file changed since `expectedEtag` was read.
+   * `expectedEtag` null means the file must not exist yet; undefined writes unconditionally.
+   */
+  write: (path: string, data: Uint8Array | string, expectedEtag?: string | null) => Promise<string | null>;
+  ensureDir: (dir: string) => Promise<void>;
+}
+
+export interface WebDavConfig {
+  url: string;
+  username: string;
+  password: string;
+}
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+// The browser needs the server to allow CORS for the app's origin; the desktop app does not
+export const createWebDavTarget = ({ url, username, password }: WebDavConfig): SyncTarget => {
+  const root = url.replace(/\/+$/, '') + '/';
+  const auth: Record<string, string> = username
+    ? { Authorization: 'Basic ' + btoa(String.fromCharCode(...new TextEncoder().encode(`${username}:${password}`))) }
+    : {};
+
+  const request = async (method: string, path: string, headers: Record<string, string> = {}, body?: BodyInit) => {
+    let response: Response;
+    try {
+      response = await fetch(root + encodePath(path), { method, headers: { ...auth, ...headers }, body });
+    } catch (err: any) {
+      throw new Error(`Could not reach the WebDAV server: ${err?.message || err}`);
+    }
+    if (response.status === 401 || response.status === 403) throw new Error("The WebDAV server rejected the user name or password.");
+    return response;
+  };
+
+  const fail = (response: Response, what: string) =>
+    new Error(`WebDAV ${what} failed: ${response.status} ${response.statusText}`);
+
+  return {
+    list: async (dir) => {
+      const response = await request('PROPFIND', `${dir}/`, { Depth: '1', 'Content-Type': 'application/xml' },
+        '<?xml version="1.0"?><d:propfind xmlns:d="DAV:"><d:prop><d:getetag/><d:resourcetype/></d:prop></d:propfind>');
+      if (response.status === 404) return [];
+      if (!response.ok) throw fail(response, `listing of ${dir}`);
+
+      const xml = new DOMParser().parseFromString(await response.text(), 'application/xml');
+      return Array.from(xml.getElementsByTagNameNS('DAV:', 'response')).flatMap(item => {
+        if (item.getElementsByTagNameNS('DAV:', 'collection').length > 0) return [];
+        const href = item.getElementsByTagNameNS('DAV:', 'href')[0]?.textContent || '';
+        const name = decodeURIComponent(href.replace(/\/+$/, '').split('/').pop() || '');
+        const etag = item.getElementsByTagNameNS('DAV:', 'getetag')[0]?.textContent || '';
+        return name ? [{ name, etag }] : [];
+      });
+    },
+
+    read: async (path) => {
+      const response = await request('GET', path);
+      if (response.status === 404) return null;
+      if (!response.ok) throw fail(response, `download of ${path}`);
+      return { data: new Uint8Array(await response.arrayBuffer()), etag: response.headers.get('ETag') || '' };
+    },
+
+    write: async (path, data, expectedEtag) => {
+      const headers: Record<string, string> = {};
+      if (expectedEtag === null) headers['If-None-Match'] = '*';
+      else if (expectedEtag) headers['If-Match'] = expectedEtag;
+      const response = await request('PUT', path, headers, data as BodyInit);
+      if (response.status === 412) return null;
+      if (!response.ok) throw fail(response, `upload of ${path}`);
+      // Not every server returns the new ETag with the upload
+      return response.headers.get('ETag') || (await request('HEAD', path)).headers.get('ETag') || '';
+    },
+
+    ensureDir: async (dir) => {
+      const response = await request('MKCOL', `${dir}/`);
+      // 405: the collection exists already
+      if (!response.ok && response.status !== 405) throw fail(response, `creation of ${dir}`);
+    }
+  };
+};
+
+// Shows the folder picker; the main process only grants access to the folder chosen here
+export const chooseSyncFolder = (): Promise<string | null> => getIpcRenderer().invoke('sync-folder:choose');
+
+// Shared folder (network drive, Dropbox, Syncthing...), accessed by the main process
+export const createFolderTarget = (root: string): SyncTarget => {
+  const invoke = <T = any>(channel: string, ...args: any[]): Promise<T> => getIpcRenderer().invoke(channel, root, ...args);
+  return {
+    list: (dir) => invoke('sync-folder:list', dir),
+    read: (path) => invoke('sync-folder:read', path),
+    write: (path, data, expectedEtag) => invoke('sync-folder:write', path, data, expectedEtag),
+    ensureDir: (dir) => invoke('sync-folder:mkdir', dir)
+  };
+};
@@ -0,0 +1,54 @@
+import { encryptJson, decryptJson, encryptBlob, decryptBlob } from '../utils/crypto';
+
+// Encrypted vault: sensitive fields of note and revision records, the folder list and blob
+// contents are stored AES-GCM encrypted. Structural fields (id, dates, role, blob hashes) stay
+// readable so the indexes on them and reference counting keep working without the key; sealed
+// fields such as the title cannot be indexed.
+// Blob hashes are unkeyed SHA-256 of the plaintext: whoever holds the database can check
+// whether a file they already have is stored, but learns nothing about any other content.
+//
+// The key only lives in memory for the session; storageService loads, verifies and sets it.
+
+const SEALED_FIELDS = ['title', 'inputText', 'chatHistory', 'result', 'attachments', 'tags', 'folders', 'templates'];
+
+let vaultKey: CryptoKey | null = null;
+
+export const setVaultKey = (key: CryptoKey | null) => {
+  vaultKey = key;
+};
+
+export const isVaultUnlocked = () => vaultKey !== null;
+
+/**
+ * Moves the sensitive fields of a record into an encrypted `sealed` payload. `blobHashes` are
+ * kept in the clear for reference counting. Without a key the record is returned as is.
+ */
+export const sealRecord = async (record: any, blobHashes: string[], key: CryptoKey | null = vaultKey): Promise<any> => {
+  if (!key) return record;
+  const secret: Record<string, unknown> = {};
+  const rest: Record<string, unknown> = { ...record };
+  SEALED_FIELDS.forEach(field => {
+    if (field in rest) {
+      secret[field] = rest[field];
+      delete rest[field];
+    }
+  });
+  return { ...rest, blobHashes, sealed: await encryptJson(key, secret) };
+};
+
+// Inverse of sealRecord; plain records pass through
+export const openRecord = async (record: any, key: CryptoKey | null = vaultKey): Promise<any> => {
+  if (!record?.sealed) return record;
+  if (!key) throw new Error("The vault is locked.");
+  const { sealed, blobHashes, ...rest } = record;
+  return { ...rest, ...(await decryptJson<Record<string, unknown>>(key, sealed)) };
+};
+
+export const sealBlob = (blob: Blob, key: CryptoKey | null = vaultKey): Promise<Blob> =>
+  key ? encryptBlob(key, blob) : Promise.resolve(blob);
+
+export const openBlob = (blob: Blob, encrypted: boolean, type: string = '', key: CryptoKey | null = vaultKey): Promise<Blob> => {
+  if (!encrypted) return Promise.resolve(blob);
+  if (!key) return Promise.reject(new Error("The vault is locked."));
+  return decryptBlob(key, blob, type);
+};
@@ -1,68 +1,259 @@
 import { create } from 'zustand';
-import { NoteSession, AppStatus, ChatMessage, ImagePreview, NoteRole } from '../types';
-import { loadNotesFromStorage, saveNotesToStorage } from '../services/storageService';
+import { NoteSession, AppStatus, ChatMessage, ImagePreview, NoteRole, NoteRevision, RevisionReason, Folder, NoteTemplate } from '../types';
+import {
+  loadNotesFromStorage, loadTrashFromStorage, persistNoteChanges, saveRevision, loadRevisions,
+  getVaultStatus, unlockVault, initStorageBackend, selectStorageBackend, watchExternalChanges,
+  loadNoteFromStorage, getStorageBackendKind, loadFoldersFromStorage, saveFoldersToStorage, describeStorageError,
+  loadTemplatesFromStorage, saveTemplatesToStorage
+} from '../services/storageService';
+import { StorageBackendKind, ExternalChange } from '../services/storageBackend';
+import { getBlob, registerBlob } from '../services/blobStore';
+import { releaseUnreferencedStagedBlobs } from '../services/stagedBlobs';
+import { broadcastNoteChanges, broadcastFolderChanges, subscribeToNoteChanges, NoteChangeMessage } from '../services/syncChannel';
+import { runSync, getSyncSettings, SyncReport } from '../services/syncService';
+import { extractInlineImageHashes, extractDataUrlImages } from '../utils/inlineImages';
 import { generateSmartNote, markdownToHtml, chatWithNote } from '../services/geminiService';
-import { createNewNote, generateId, RESET_AI_STYLE } from '../utils/constants';
+import {
+  createNewNote, generateId, RESET_AI_STYLE, getTrashRetentionDays, detectAttachmentType, dateStampHtml, formatDateTime
+} from '../utils/constants';
+import { hashBlob } from '../utils/hash';
+import { folderSubtreeIds } from '../utils/folders';
+import { findTag } from '../utils/tags';
+import { dayKey, formatDayHeading, noteDayKey, parseDayKey } from '../utils/dates';
+import { NoteSortMode, getNoteSortMode, saveNoteSortMode, lastEditedAt } from '../utils/sorting';
+import { createNoteFromTemplate, readLegacyTemplates, clearLegacyTemplates } from '../utils/templates';
+
+// A note changed elsewhere (on disk or in another window) while it had unsaved edits here
+interface ExternalConflict {
+  id: string;
+  title: string;
+  change: ExternalChange;
+}
 
 interface NoteStore {
   // State
   notes: NoteSession[];
+  trashedNotes: NoteSession[];
+  folders: Folder[];
+  activeFolderId: string | null; // Selected in the sidebar: new notes and the weekly summary go here
+  sidebarView: 'notes' | 'trash' | 'calendar';
   activeNoteId: string | null;
   isSidebarOpen: boolean;
   isChatOpen: boolean;
   isChatLoading: boolean;
+  isHistoryOpen: boolean;
+  isGraphOpen: boolean;
+  revisions: NoteRevision[];
   chatDraft: string;
   searchQuery: string;
+  tagFilter: string[]; // Sidebar shows only notes with these tags
+  tagFilterMode: 'and' | 'or'; // All of the tags, or any of them
+  showFavoritesOnly: boolean;
+  sortMode: NoteSortMode; // Sidebar order; pinned notes always come first
   isStorageInitialized: boolean;
+  storageError: string | null;
+  isVaultLocked: boolean; // Encrypted workspace waiting for its passphrase
   saveStatus: 'saved' | 'saving' | 'error';
+  saveError: string | null;
   deleteTargetId: string | null;
   showSettings: boolean;
+  showTemplateManager: boolean;
+  customTemplates: NoteTemplate[]; // User-defined; the built-in ones live in utils/templates
+  // Change tracking: only these notes are written/removed on the next save.
+  // A dirty note is written to whichever collection (notes or trash) currently holds it.
+  dirtyNoteIds: string[];
+  deletedNoteIds: string[]; // Permanently deleted
+  externalConflict: ExternalConflict | null; // The note is not saved until this is resolved
+  isSyncing: boolean;
 
   // Actions
   init: () => Promise<void>;
+  unlock: (passphrase: string) => Promise<boolean>;
+  switchStorage: (kind: StorageBackendKind, vaultPath?: string) => Promise<void>;
+  applyExternalChange: (change: ExternalChange) => void;
+  resolveExternalConflict: (keep: 'mine' | 'theirs') => Promise<void>;
+  applyRemoteChanges: (message: NoteChangeMessage) => Promise<void>;
+  reloadFolders: () => Promise<void>;
+  reloadNote: (id: string) => Promise<void>;
+  syncNow: () => Promise<SyncReport | null>;
   setActiveNoteId: (id: string) => void;
   setSearchQuery: (query: string) => void;
+  toggleTagFilter: (tag: string) => void;
+  clearTagFilter: () => void;
+  setTagFilterMode: (mode: 'and' | 'or') => void;
+  setShowFavoritesOnly: (show: boolean) => void;
+  setSortMode: (mode: NoteSortMode) => void;
   setSidebarOpen: (isOpen: boolean) => void;
   setChatOpen: (isOpen: boolean) => void;
+  setHistoryOpen: (isOpen: boolean) => void;
+  setGraphOpen: (isOpen: boolean) => void;
   setChatDraft: (text: string) => void;
   setShowSettings: (show: boolean) => void;
+  setShowTemplateManager: (show: boolean) => void;
   setDeleteTargetId: (id: string | null) => void;
+  setSidebarView: (view: 'notes' | 'trash' | 'calendar') => void;
 
-  addNote: () => void;
+  addNote: (template?: NoteTemplate) => void;
+  openDailyNote: (date?: string) => void;
   updateActiveNote: (updates: Partial<NoteSession>) => void;
+  updateNote: (id: string, updates: Partial<NoteSession>) => void;
   deleteNote: () => void;
   duplicateNote: (id: string) => void;
+  togglePinned: (id: string) => void;
+  toggleFavorite: (id: string) => void;
+  restoreNote: (id: string) => void;
+  purgeNote: (id: string) => void;
+  emptyTrash: () => void;
+  purgeExpiredTrash: () => void;
+  // Rejects if saving the imported notes failed; they stay in memory and the next save retries them
+  importNotes: (imported: NoteSession[], mode: 'merge' | 'replace', folders?: Folder[], templates?: NoteTemplate[]) => Promise<{ added: number; skipped: number }>;
+
+  setActiveFolderId: (id: string | null) => void;
+  // Resolves once saved; a failure is reported through saveError
+  updateFolders: (folders: Folder[]) => Promise<void>;
+  createFolder: (name: string, parentId: string | null) => Folder;
+  renameFolder: (id: string, name: string) => void;
+  deleteFolder: (id: string) => void;
+  moveFolder: (id: string, parentId: string | null) => void;
+  moveNotesToFolder: (ids: string[], folderId: string | null) => void;
+
+  renameTag: (tag: string, newName: string) => void;
+  mergeTags: (tags: string[], into: string) => void;
+
+  // Resolves once saved; a failure is reported through saveError
+  updateTemplates: (templates: NoteTemplate[]) => Promise<void>;
+  saveTemplate: (template: NoteTemplate) => void;
+  deleteTemplate: (id: string) => void;
   
+  // `edited: false` for changes that are not edits of the note itself (its editedAt stays)
+  markNotesDirty: (ids: string[], options?: { edited?: boolean }) => void;
+  markNotesDeleted: (ids: string[]) => void;
   saveNotes: () => Promise<void>;
   
   generateNoteContent: () => Promise<void>;
-  generateWeeklySummary: (isAutoTrigger?: boolean) => Promise<void>;
+  generateWeeklySummary: (isAutoTrigger?: boolean, folderId?: string | null) => Promise<void>;
   sendChatMessage: (text: string) => Promise<void>;
   clearChatHistory: () => void;
+
+  snapshotNote: (noteId: string, reason: RevisionReason) => Promise<void>;
+  refreshRevisions: () => Promise<void>;
+  restoreRevision: (revision: NoteRevision) => Promise<void>;
   
-  addFilesToActiveNote: (files: File[]) => void;
+  addFilesToActiveNote: (files: File[]) => Promise<void>;
   removeFileFromActiveNote: (index: number) => void;
+  removeAttachments: (targets: { noteId: string; hash: string }[]) => void;
 }
 
+// How long the editor must stay idle before its content is snapshotted
+const IDLE_SNAPSHOT_DELAY = 30000;
+// Consecutive title keystrokes within this window count as a single rename
+const TITLE_SNAPSHOT_WINDOW = 10000;
+
+const idleSnapshotTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const lastTitleSnapshotAt = new Map<string, number>();
+
+let stopWatchingStorage: (() => void) | null = null;
+let stopSyncing: (() => void) | null = null;
+let folderSaveQueue: Promise<void> = Promise.resolve();
+let templateSaveQueue: Promise<void> = Promise.resolve();
+
+const externalChangeId = (change: ExternalChange) => change.kind === 'upsert' ? change.note.id : change.id;
+
+// Puts an externally changed note in place of the local copy, or drops it if it was deleted
+const mergeExternalChange = (state: NoteStore, change: ExternalChange): Partial<NoteStore> => {
+  const id = externalChangeId(change);
+  let notes = state.notes.filter(n => n.id !== id);
+  let trashedNotes = state.trashedNotes.filter(n => n.id !== id);
+
+  if (change.kind === 'upsert' && change.isTrashed) {
+    trashedNotes = [change.note, ...trashedNotes].sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+  } else if (change.kind === 'upsert') {
+    // Keep the note's position in the sidebar when it is updated in place
+    notes = state.notes.some(n => n.id === id)
+      ? state.notes.map(n => n.id === id ? change.note : n)
+      : [change.note, ...notes];
+  }
+
+  const activeNoteId = state.activeNoteId === id && !notes.some(n => n.id === id)
+    ? notes[0]?.id ?? null
+    : state.activeNoteId;
+  return { notes, trashedNotes, activeNoteId };
+};
+
 export const useNoteStore = create<NoteStore>((set, get) => ({
   // Initial State
   notes: [],
+  trashedNotes: [],
+  folders: [],
+  activeFolderId: null,
+  sidebarView: 'notes',
   activeNoteId: null,
   isSidebarOpen: false,
   isChatOpen: false,
   isChatLoading: false,
+  isHistoryOpen: false,
+  isGraphOpen: false,
+  revisions: [],
   chatDraft: '',
   searchQuery: '',
+  tagFilter: [],
+  tagFilterMode: 'and',
+  showFavoritesOnly: false,
+  sortMode: getNoteSortMode(),
   isStorageInitialized: false,
+  storageError: null,
+  isVaultLocked: false,
   saveStatus: 'saved',
+  saveError: null,
   deleteTargetId: null,
   showSettings: false,
+  showTemplateManager: false,
+  customTemplates: [],
+  dirtyNoteIds: [],
+  deletedNoteIds: [],
+  externalConflict: null,
+  isSyncing: false,
 
   // --- Actions ---
 
   init: async () => {
-    const savedNotes = await loadNotesFromStorage();
-    if (savedNotes && savedNotes.length > 0) {
+    let savedNotes: NoteSession[];
+    let trashedNotes: NoteSession[];
+    let folders: Folder[];
+    let templates: NoteTemplate[] | null;
+    try {
+      await initStorageBackend();
+      if (await getVaultStatus() === 'locked') {
+        set({ isVaultLocked: true });
+        return;
+      }
+      savedNotes = await loadNotesFromStorage();
+      trashedNotes = await loadTrashFromStorage();
+      folders = await loadFoldersFromStorage();
+      templates = await loadTemplatesFromStorage();
+    } catch (err: any) {
+      // Do not fall back to an empty workspace: the next autosave would never touch the real data,
+      // but the user would think their notes are gone.
+      console.error("IDB Load Error:", err);
+      set({ storageError: err?.message || String(err) });
+      return;
+    }
+
+    if (templates === null) {
+      // Templates used to be kept unencrypted in localStorage: move them into storage
+      templates = readLegacyTemplates();
+      saveTemplatesToStorage(templates)
+        .then(clearLegacyTemplates)
+        .catch(err => console.warn("Could not move the templates into storage", err));
+    }
+    set({ customTemplates: templates });
+
+    trashedNotes.sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+    const { activeFolderId } = get();
+    set({ trashedNotes, folders, activeFolderId: folders.some(f => f.id === activeFolderId) ? activeFolderId : null });
+    get().purgeExpiredTrash();
+
+    if (savedNotes.length > 0) {
       set({ 
         notes: savedNotes, 
         activeNoteId: savedNotes[0].id, 
@@ -75,21 +266,202 @@ export const useNoteStore = create<NoteStore>((set, get) => ({
         activeNoteId: newNote.id, 
         isStorageInitialized: true 
       });
-      await saveNotesToStorage([newNote]);
+      get().markNotesDirty([newNote.id]);
+      await get().saveNotes();
+    }
+
+    stopWatchingStorage?.();
+    stopWatchingStorage = watchExternalChanges(change => get().applyExternalChange(change));
+    stopSyncing?.();
+    stopSyncing = subscribeToNoteChanges(message => {
+      if (message.kind === 'notes') get().applyRemoteChanges(message);
+      else if (message.backend === getStorageBackendKind()) get().reloadFolders();
+    });
+  },
+
+  unlock: async (passphrase) => {
+    if (!(await unlockVault(passphrase))) return false;
+    set({ isVaultLocked: false });
+    await get().init();
+    return true;
+  },
+
+  // Points the app at another storage backend. An empty target receives a copy of the current
+  // workspace; otherwise its notes replace what is shown. The built-in database still holds
+  // the workspace as it was when the folder took over, so it is brought up to date instead.
+  switchStorage: async (kind, vaultPath) => {
+    await get().saveNotes();
+    const { notes, trashedNotes } = get();
+    const all = [...notes, ...trashedNotes];
+
+    // Inline images are read through the current backend, so stage them before switching
+    for (const hash of new Set(all.flatMap(note => extractInlineImageHashes(note.inputText)))) {
+      const blob = await getBlob(hash);
+      if (blob) registerBlob(hash, blob);
+    }
+
+    await selectStorageBackend(kind, vaultPath);
+    const targetIds = [...await loadNotesFromStorage(), ...await loadTrashFromStorage()].map(note => note.id);
+    if (targetIds.length === 0 || kind === 'indexeddb') {
+      const currentIds = new Set(all.map(note => note.id));
+      const deletedIds = targetIds.filter(id => !currentIds.has(id));
+      const { ok, error } = await persistNoteChanges({ upserts: notes, trashed: trashedNotes, deletedIds });
+      if (!ok) throw new Error(error);
+      await saveFoldersToStorage(get().folders);
     }
+    await get().init();
   },
 
-  setActiveNoteId: (id) => set({ activeNoteId: id }),
+  applyExternalChange: (change) => {
+    const id = externalChangeId(change);
+    const { notes, trashedNotes, dirtyNoteIds, externalConflict } = get();
+    const local = [...notes, ...trashedNotes].find(n => n.id === id);
+
+    // Unsaved edits here and a newer version on disk: let the user pick instead of losing one
+    if (local && (dirtyNoteIds.includes(id) || externalConflict?.id === id)) {
+      set({ externalConflict: { id, title: local.title || 'Untitled Note', change } });
+      return;
+    }
+
+    set(state => mergeExternalChange(state, change));
+    local?.attachments.forEach(att => URL.revokeObjectURL(att.url));
+
+    if (get().notes.length === 0) {
+      const freshNote = createNewNote();
+      set({ notes: [freshNote], activeNoteId: freshNote.id });
+      get().markNotesDirty([freshNote.id]);
+      get().saveNotes();
+    }
+  },
+
+  resolveExternalConflict: async (keep) => {
+    const { externalConflict } = get();
+    if (!externalConflict) return;
+    const { id } = externalConflict;
+
+    if (keep === 'mine') {
+      // Overwrite the file(s) on disk with the local version
+      get().markNotesDirty([id]);
+      await get().saveNotes();
+      set({ externalConflict: null });
+      return;
+    }
+
+    // The local version stays available in the history. Until the replacement is applied the
+    // conflict stays open, so changes arriving meanwhile update it instead of slipping through.
+    if (externalConflict.change.kind === 'upsert') await get().snapshotNote(id, 'external');
+    const change = get().externalConflict?.id === id ? get().externalConflict!.change : externalConflict.change;
+    set(state => ({ externalConflict: null, dirtyNoteIds: state.dirtyNoteIds.filter(dirtyId => dirtyId !== id) }));
+    get().applyExternalChange(change);
+  },
+
+  // Another window saved or deleted notes: pick up whatever is newer than the copy here
+  applyRemoteChanges: async ({ backend, saved, deletedIds }) => {
+    if (backend !== getStorageBackendKind()) return;
+    const { notes, trashedNotes } = get();
+    const known = new Map([...notes, ...trashedNotes].map(n => [n.id, n.updatedAt]));
+
+    deletedIds.filter(id => known.has(id)).forEach(id => get().applyExternalChange({ kind: 'delete', id }));
+    for (const { id, updatedAt } of saved) {
+      if ((known.get(id) ?? -1) >= updatedAt) continue;
+      try {
+        await get().reloadNote(id);
+      } catch (err) {
+        console.warn(`Could not reload note ${id} changed in another window`, err);
+      }
+    }
+  },
+
+  // Another window changed the folder list
+  reloadFolders: async () => {
+    try {
+      set({ folders: await loadFoldersFromStorage() });
+    } catch (err) {
+      console.warn("Could not reload the folders changed in another window", err);
+    }
+  },
+
+  // Replaces the local copy of a note with the stored one (or drops it if it is gone)
+  reloadNote: async (id) => {
+    const stored = await loadNoteFromStorage(id);
+    get().applyExternalChange(stored ? { kind: 'upsert', ...stored } : { kind: 'delete', id });
+  },
+
+  // Pushes and pulls notes to the sync target from Settings. Resolves null if sync is not set up.
+  syncNow: async () => {
+    const settings = getSyncSettings();
+    if (!settings || get().isSyncing) return null;
+
+    set({ isSyncing: true });
+    try {
+      await get().saveNotes();
+      const snapshot = [...get().notes, ...get().trashedNotes];
+      const syncedVersions = new Map(snapshot.map(n => [n.id, n.updatedAt]));
+
+      return await runSync(settings, snapshot, async changes => {
+        const rejected: string[] = [];
+        for (const change of changes) {
+          const id = externalChangeId(change);
+          const { notes, trashedNotes, dirtyNoteIds, externalConflict } = get();
+          const current = [...notes, ...trashedNotes].find(n => n.id === id);
+          // Edited while syncing: keep the edit, the next sync merges it
+          if (current && (current.updatedAt !== syncedVersions.get(id) || dirtyNoteIds.includes(id) || externalConflict?.id === id)) {
+            rejected.push(id);
+            continue;
+          }
+          set(state => mergeExternalChange(state, change));
+          current?.attachments.forEach(att => URL.revokeObjectURL(att.url));
+          if (change.kind === 'upsert') get().markNotesDirty([id], { edited: false });
+          else get().markNotesDeleted([id]);
+        }
+
+        if (get().notes.length === 0) {
+          const freshNote = createNewNote();
+          set({ notes: [freshNote], activeNoteId: freshNote.id });
+          get().markNotesDirty([freshNote.id]);
+        }
+        await get().saveNotes();
+        return rejected;
+      });
+    } finally {
+      set({ isSyncing: false });
+    }
+  },
+
+  setActiveNoteId: (id) => {
+    set({ activeNoteId: id });
+    if (get().isHistoryOpen) get().refreshRevisions();
+  },
   setSearchQuery: (query) => set({ searchQuery: query }),
+  toggleTagFilter: (tag) => set(state => ({
+    tagFilter: state.tagFilter.includes(tag) ? state.tagFilter.filter(t => t !== tag) : [...state.tagFilter, tag]
+  })),
+  clearTagFilter: () => set({ tagFilter: [] }),
+  setTagFilterMode: (mode) => set({ tagFilterMode: mode }),
+  setShowFavoritesOnly: (show) => set({ showFavoritesOnly: show }),
+  setSortMode: (mode) => {
+    saveNoteSortMode(mode);
+    set({ sortMode: mode });
+  },
   setSidebarOpen: (isOpen) => set({ isSidebarOpen: isOpen }),
-  setChatOpen: (isOpen) => set({ isChatOpen: isOpen }),
+  setChatOpen: (isOpen) => set(isOpen ? { isChatOpen: true, isHistoryOpen: false, isGraphOpen: false } : { isChatOpen: false }),
+  setHistoryOpen: (isOpen) => {
+    set(isOpen ? { isHistoryOpen: true, isChatOpen: false, isGraphOpen: false } : { isHistoryOpen: false });
+    if (isOpen) get().refreshRevisions();
+  },
+  setGraphOpen: (isOpen) => set(isOpen ? { isGraphOpen: true, isChatOpen: false, isHistoryOpen: false } : { isGraphOpen: false }),
   setChatDraft: (text) => set({ chatDraft: text }),
   setShowSettings: (show) => set({ showSettings: show }),
+  setShowTemplateManager: (show) => set({ showTemplateManager: show }),
   setDeleteTargetId: (id) => set({ deleteTargetId: id }),
+  setSidebarView: (view) => set({ sidebarView: view }),
 
-  addNote: () => {
-    const newNote = createNewNote();
-    const { notes } = get();
+  addNote: (template) => {
+    const { notes, activeFolderId } = get();
+    const newNote = {
+      ...(template ? createNoteFromTemplate(template) : createNewNote()),
+      ...(activeFolderId ? { folderId: activeFolderId } : {})
+    };
     const updatedNotes = [newNote, ...notes];
     
     set({ 
@@ -99,52 +471,94 @@ export const useNoteStore = create<NoteStore>((set, get) => ({
       isSidebarOpen: window.innerWidth >= 1024 // Close sidebar on mobile
     });
     
+    get().markNotesDirty([newNote.id]);
+    get().saveNotes();
+  },
+
+  // The note of that day ("2024-05-01", today by default), created the first time it is opened
+  openDailyNote: (date = dayKey(new Date())) => {
+    const { notes } = get();
+    const existing = notes
+      .filter(n => n.dailyDate === date)
+      .sort((a, b) => a.createdAt - b.createdAt)[0];
+    if (existing) {
+      set({ activeNoteId: existing.id, searchQuery: '', isSidebarOpen: window.innerWidth >= 1024 });
+      return;
+    }
+
+    // A past or future day's note is dated on that day, at the current time of day
+    const now = new Date();
+    const created = parseDayKey(date);
+    created.setHours(now.getHours(), now.getMinutes(), now.getSeconds());
+    const dailyNote: NoteSession = {
+      ...createNewNote(`${date} ${created.toLocaleDateString([], { weekday: 'long' })}`),
+      inputText: `${dateStampHtml(formatDateTime(created))}<p><br/></p>`,
+      role: 'general',
+      createdAt: created.getTime(),
+      dailyDate: date
+    };
+
+    set({
+      notes: [dailyNote, ...notes].sort((a, b) => b.createdAt - a.createdAt),
+      activeNoteId: dailyNote.id,
+      searchQuery: '',
+      isSidebarOpen: window.innerWidth >= 1024
+    });
+    get().markNotesDirty([dailyNote.id]);
     get().saveNotes();
   },
 
   updateActiveNote: (updates) => {
-    const { notes, activeNoteId } = get();
+    const { activeNoteId } = get();
     if (!activeNoteId) return;
+    get().updateNote(activeNoteId, updates);
+  },
+
+  updateNote: (id, updates) => {
+    const { notes } = get();
+    const current = notes.find(n => n.id === id);
+    if (!current) return;
+
+    // Snapshot the state *before* a role switch or the first keystroke of a rename
+    if (updates.role !== undefined && updates.role !== current.role) {
+      get().snapshotNote(id, 'role');
+    } else if (updates.title !== undefined && updates.title !== current.title) {
+      const last = lastTitleSnapshotAt.get(id) || 0;
+      if (Date.now() - last > TITLE_SNAPSHOT_WINDOW) get().snapshotNote(id, 'title');
+      lastTitleSnapshotAt.set(id, Date.now());
+    }
+
+    if (updates.inputText !== undefined && updates.inputText !== current.inputText) {
+      clearTimeout(idleSnapshotTimers.get(id));
+      idleSnapshotTimers.set(id, setTimeout(() => {
+        idleSnapshotTimers.delete(id);
+        get().snapshotNote(id, 'idle');
+      }, IDLE_SNAPSHOT_DELAY));
+    }
 
     const updatedNotes = notes.map(note => 
-      note.id === activeNoteId ? { ...note, ...updates } : note
+      note.id === id ? { ...note, ...updates } : note
     );
 
     set({ notes: updatedNotes });
+    get().markNotesDirty([id]);
   },
 
-  addFilesToActiveNote: (files) => {
-    const { notes, activeNoteId } = get();
-    const activeNote = notes.find(n => n.id === activeNoteId);
-    if (!activeNote) return;
-
-    const newPreviews: ImagePreview[] = files.map(file => {
-      let type: 'image' | 'pdf' | 'audio' | 'doc' | 'sheet' | 'slide' | 'text' = 'image';
-      
-      const ext = file.name.split('.').pop()?.toLowerCase();
-      
-      if (file.type === 'application/pdf') {
-        type = 'pdf';
-      } else if (file.type.startsWith('audio/')) {
-        type = 'audio';
-      } else if (ext === 'doc' || ext === 'docx') {
-        type = 'doc';
-      } else if (ext === 'xls' || ext === 'xlsx') {
-        type = 'sheet';
-      } else if (ext === 'ppt' || ext === 'pptx' || ext === 'potx') {
-        type = 'slide';
-      } else if (ext === 'txt') {
-        type = 'text';
-      }
+  addFilesToActiveNote: async (files) => {
+    const { activeNoteId } = get();
+    if (!activeNoteId) return;
 
-      return {
-        file,
-        url: URL.createObjectURL(file),
-        type
-      };
-    });
+    // Hashing is async: attach to the note that was active when the files were added
+    const newPreviews: ImagePreview[] = await Promise.all(files.map(async file => ({
+      file,
+      hash: await hashBlob(file),
+      url: URL.createObjectURL(file),
+      type: detectAttachmentType(file)
+    })));
 
-    get().updateActiveNote({ attachments: [...activeNote.attachments, ...newPreviews] });
+    const note = get().notes.find(n => n.id === activeNoteId);
+    if (!note) return;
+    get().updateNote(activeNoteId, { attachments: [...note.attachments, ...newPreviews] });
   },
 
   removeFileFromActiveNote: (index) => {
@@ -158,27 +572,298 @@ export const useNoteStore = create<NoteStore>((set, get) => ({
     get().updateActiveNote({ attachments: newAttachments });
   },
 
+  // Bulk removal from the storage dashboard; works on live and trashed notes alike.
+  // Blobs no other note references are garbage-collected by the save.
+  removeAttachments: (targets) => {
+    const hashesByNote = new Map<string, Set<string>>();
+    targets.forEach(({ noteId, hash }) => {
+      if (!hashesByNote.has(noteId)) hashesByNote.set(noteId, new Set());
+      hashesByNote.get(noteId)!.add(hash);
+    });
+
+    const strip = (note: NoteSession): NoteSession => {
+      const hashes = hashesByNote.get(note.id);
+      if (!hashes) return note;
+      note.attachments.filter(att => hashes.has(att.hash)).forEach(att => URL.revokeObjectURL(att.url));
+      return { ...note, attachments: note.attachments.filter(att => !hashes.has(att.hash)) };
+    };
+
+    set(state => ({ notes: state.notes.map(strip), trashedNotes: state.trashedNotes.map(strip) }));
+    get().markNotesDirty(Array.from(hashesByNote.keys()), { edited: false });
+    get().saveNotes();
+  },
+
+  // Brings notes from a backup into the workspace. 'merge' keeps the local copy of any note
+  // whose ID already exists; 'replace' discards the current workspace (trash included).
+  importNotes: async (imported, mode, folders = [], templates = []) => {
+    const { notes, trashedNotes } = get();
+
+    if (mode === 'merge') {
+      const knownFolderIds = new Set(get().folders.map(f => f.id));
+      const newFolders = folders.filter(f => !knownFolderIds.has(f.id));
+      if (newFolders.length > 0) await get().updateFolders([...get().folders, ...newFolders]);
+      const knownTemplateIds = new Set(get().customTemplates.map(t => t.id));
+      const newTemplates = templates.filter(t => !knownTemplateIds.has(t.id));
+      if (newTemplates.length > 0) await get().updateTemplates([...get().customTemplates, ...newTemplates]);
+    } else {
+      await get().updateFolders(folders);
+      await get().updateTemplates(templates);
+      set({ activeFolderId: null });
+    }
+
+    let incoming = imported;
+    if (mode === 'merge') {
+      const existingIds = new Set([...notes, ...trashedNotes].map(n => n.id));
+      incoming = imported.filter(n => !existingIds.has(n.id));
+    } else {
+      [...notes, ...trashedNotes].forEach(n => n.attachments.forEach(att => URL.revokeObjectURL(att.url)));
+      get().markNotesDeleted([...notes, ...trashedNotes].map(n => n.id));
+    }
+
+    const incomingLive = incoming.filter(n => !n.deletedAt);
+    const incomingTrash = incoming.filter(n => n.deletedAt);
+    let nextNotes = [...incomingLive, ...(mode === 'merge' ? notes : [])].sort((a, b) => b.createdAt - a.createdAt);
+    const nextTrash = [...incomingTrash, ...(mode === 'merge' ? trashedNotes : [])].sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+
+    if (nextNotes.length === 0) nextNotes = [createNewNote()];
+
+    const { activeNoteId } = get();
+    set({
+      notes: nextNotes,
+      trashedNotes: nextTrash,
+      activeNoteId: nextNotes.some(n => n.id === activeNoteId) ? activeNoteId : nextNotes[0].id,
+      searchQuery: ''
+    });
+    // Restored notes keep the time they were last edited
+    const restoredIds = new Set(incoming.map(n => n.id));
+    const freshIds = [...nextNotes, ...nextTrash].filter(n => !restoredIds.has(n.id)).map(n => n.id);
+    get().markNotesDirty([...restoredIds], { edited: false });
+    if (mode === 'replace') get().markNotesDirty(freshIds);
+    await get().saveNotes();
+    if (get().saveStatus === 'error') {
+      throw new Error(`The notes were imported but could not be saved: ${get().saveError || 'unknown error'}`);
+    }
+
+    return { added: incoming.length, skipped: imported.length - incoming.length };
+  },
+
+  // --- Folders ---
+
+  setActiveFolderId: (id) => set({ activeFolderId: id }),
+
+  // Folders are few and small: every change writes the whole list. Saves run one at a time,
+  // each writing the latest list, so a slow save never overwrites a newer one.
+  updateFolders: async (folders) => {
+    set({ folders });
+    const save = folderSaveQueue.then(() => saveFoldersToStorage(get().folders));
+    folderSaveQueue = save.catch(() => {});
+    try {
+      await save;
+      broadcastFolderChanges(getStorageBackendKind());
+    } catch (err) {
+      console.error("Folder Save Error:", err);
+      set({ saveStatus: 'error', saveError: describeStorageError(err) });
+    }
+  },
+
+  createFolder: (name, parentId) => {
+    const folder: Folder = { id: generateId(), name, parentId, createdAt: Date.now() };
+    get().updateFolders([...get().folders, folder]);
+    return folder;
+  },
+
+  renameFolder: (id, name) => {
+    get().updateFolders(get().folders.map(f => f.id === id ? { ...f, name } : f));
+  },
+
+  // The folder's notes and subfolders move up into its parent; nothing is deleted with it
+  deleteFolder: (id) => {
+    const { folders, notes, activeFolderId } = get();
+    const folder = folders.find(f => f.id === id);
+    if (!folder) return;
+
+    const movedIds = notes.filter(n => n.folderId === id).map(n => n.id);
+    get().moveNotesToFolder(movedIds, folder.parentId);
+    get().updateFolders(folders
+      .filter(f => f.id !== id)
+      .map(f => f.parentId === id ? { ...f, parentId: folder.parentId } : f));
+    if (activeFolderId === id) set({ activeFolderId: folder.parentId });
+  },
+
+  // Ignored if it would put a folder inside itself
+  moveFolder: (id, parentId) => {
+    const { folders } = get();
+    if (parentId && folderSubtreeIds(folders, id).has(parentId)) return;
+    get().updateFolders(folders.map(f => f.id === id ? { ...f, parentId } : f));
+  },
+
+  moveNotesToFolder: (ids, folderId) => {
+    const moved = get().notes.filter(n => ids.includes(n.id) && (n.folderId || null) !== folderId).map(n => n.id);
+    if (moved.length === 0) return;
+    set(state => ({
+      notes: state.notes.map(note => {
+        if (!moved.includes(note.id)) return note;
+        const { folderId: _previous, ...rest } = note;
+        return folderId ? { ...rest, folderId } : rest;
+      })
+    }));
+    get().markNotesDirty(moved);
+    get().saveNotes();
+  },
+
+  // --- Tags ---
+
+  // Renaming to a tag that already exists merges the two
+  renameTag: (tag, newName) => get().mergeTags([tag], newName),
+
+  // Replaces each of `tags` with `into` on every note, live or trashed
+  mergeTags: (tags, into) => {
+    const { notes, trashedNotes } = get();
+    const allTags = Array.from(new Set([...notes, ...trashedNotes].flatMap(n => n.tags || [])));
+    const target = findTag(allTags.filter(t => !tags.includes(t)), into) || into;
+
+    const changed: string[] = [];
+    const retag = (note: NoteSession): NoteSession => {
+      if (!note.tags?.some(t => tags.includes(t))) return note;
+      changed.push(note.id);
+      const next = note.tags.map(t => tags.includes(t) ? target : t);
+      return { ...note, tags: Array.from(new Set(next)) };
+    };
+    set(state => ({
+      notes: state.notes.map(retag),
+      trashedNotes: state.trashedNotes.map(retag),
+      tagFilter: Array.from(new Set(state.tagFilter.map(t => tags.includes(t) ? target : t)))
+    }));
+    if (changed.length === 0) return;
+    get().markNotesDirty(changed);
+    get().saveNotes();
+  },
+
+  // --- Templates ---
+
+  // Saved like folders: the whole list, one save at a time, each writing the latest list
+  updateTemplates: async (templates) => {
+    set({ customTemplates: templates });
+    const save = templateSaveQueue.then(() => saveTemplatesToStorage(get().customTemplates));
+    templateSaveQueue = save.catch(() => {});
+    try {
+      await save;
+    } catch (err) {
+      console.error("Template Save Error:", err);
+      set({ saveStatus: 'error', saveError: describeStorageError(err) });
+    }
+  },
+
+  // Adds the template, or replaces the one with the same id
+  saveTemplate: (template) => {
+    const { customTemplates } = get();
+    const next = customTemplates.some(t => t.id === template.id)
+      ? customTemplates.map(t => t.id === template.id ? template : t)
+      : [...customTemplates, template];
+    get().updateTemplates(next);
+  },
+
+  deleteTemplate: (id) => {
+    get().updateTemplates(get().customTemplates.filter(t => t.id !== id));
+  },
+
+  // Every change goes through here, so this is also where a note's updatedAt (and editedAt) moves forward
+  markNotesDirty: (ids, { edited = true } = {}) => {
+    const updatedAt = Date.now();
+    const touch = (note: NoteSession) => ids.includes(note.id)
+      ? { ...note, updatedAt, editedAt: edited ? updatedAt : lastEditedAt(note) }
+      : note;
+    set(state => ({
+      notes: state.notes.map(touch),
+      trashedNotes: state.trashedNotes.map(touch),
+      dirtyNoteIds: Array.from(new Set([...state.dirtyNoteIds, ...ids])),
+      deletedNoteIds: state.deletedNoteIds.filter(id => !ids.includes(id))
+    }));
+  },
+
+  markNotesDeleted: (ids) => {
+    set(state => ({
+      dirtyNoteIds: state.dirtyNoteIds.filter(id => !ids.includes(id)),
+      deletedNoteIds: Array.from(new Set([...state.deletedNoteIds, ...ids]))
+    }));
+  },
+
   saveNotes: async () => {
-    set({ saveStatus: 'saving' });
-    const { notes } = get();
-    const success = await saveNotesToStorage(notes);
-    set({ saveStatus: success ? 'saved' : 'error' });
+    const { notes, trashedNotes, dirtyNoteIds, deletedNoteIds } = get();
+    if (dirtyNoteIds.length === 0 && deletedNoteIds.length === 0) {
+      set({ saveStatus: 'saved' });
+      return;
+    }
+
+    // A note in conflict with an external edit must not overwrite it before the user decides
+    const heldId = get().externalConflict?.id;
+    const held = dirtyNoteIds.filter(id => id === heldId);
+    const toSave = dirtyNoteIds.filter(id => id !== heldId);
+
+    // Take ownership of the pending changes; edits made while saving are tracked anew
+    set({ saveStatus: 'saving', dirtyNoteIds: held, deletedNoteIds: [] });
+    const upserts = notes.filter(n => toSave.includes(n.id));
+    const trashed = trashedNotes.filter(n => toSave.includes(n.id));
+    const { ok, error, staleIds = [] } = await persistNoteChanges({ upserts, trashed, deletedIds: deletedNoteIds });
+
+    if (ok) {
+      broadcastNoteChanges({
+        backend: getStorageBackendKind(),
+        saved: [...upserts, ...trashed].filter(n => !staleIds.includes(n.id)).map(n => ({ id: n.id, updatedAt: n.updatedAt })),
+        deletedIds: deletedNoteIds
+      });
+    } else {
+      // Re-queue so the next save retries (unless the note changed state in the meantime)
+      const { dirtyNoteIds: newDirty, deletedNoteIds: newDeleted } = get();
+      set({
+        dirtyNoteIds: Array.from(new Set([...newDirty, ...dirtyNoteIds.filter(id => !newDeleted.includes(id))])),
+        deletedNoteIds: Array.from(new Set([...newDeleted, ...deletedNoteIds.filter(id => !newDirty.includes(id))]))
+      });
+    }
+    set({ saveStatus: ok ? 'saved' : 'error', saveError: ok ? null : error || null });
+
+    // Another window saved a newer version in the meantime: it wins, ours stays in the history.
+    // A purge there wins as well; the note's history went with it.
+    for (const id of staleIds) {
+      try {
+        const stored = await loadNoteFromStorage(id);
+        if (stored) await get().snapshotNote(id, 'external');
+        get().applyExternalChange(stored ? { kind: 'upsert', ...stored } : { kind: 'delete', id });
+      } catch (err) {
+        console.warn(`Could not reload note ${id}`, err);
+      }
+    }
+
+    if (ok) {
+      // Images pasted and removed again before they were ever saved, or only used by edits
+      // that lost to another window
+      const inUse = new Set([...get().notes, ...get().trashedNotes].flatMap(n =>
+        [...n.attachments.map(att => att.hash), ...extractInlineImageHashes(n.inputText)]));
+      releaseUnreferencedStagedBlobs(inUse);
+    }
   },
 
+  // Moves the target note into the trash; it can be restored until it expires or is purged
   deleteNote: () => {
-    const { deleteTargetId, notes, activeNoteId } = get();
+    const { deleteTargetId, notes, activeNoteId, trashedNotes } = get();
     if (!deleteTargetId) return;
 
+    const target = notes.find(n => n.id === deleteTargetId);
+    if (!target) return;
+
     const newNotes = notes.filter(n => n.id !== deleteTargetId);
+    const newTrash = [{ ...target, deletedAt: Date.now() }, ...trashedNotes];
     
     if (newNotes.length === 0) {
       const freshNote = createNewNote();
       set({ 
         notes: [freshNote], 
+        trashedNotes: newTrash,
         activeNoteId: freshNote.id, 
         deleteTargetId: null 
       });
-      saveNotesToStorage([freshNote]);
+      get().markNotesDirty([deleteTargetId, freshNote.id]);
+      get().saveNotes();
       return;
     }
 
@@ -191,11 +876,83 @@ export const useNoteStore = create<NoteStore>((set, get) => ({
 
     set({ 
       notes: newNotes, 
+      trashedNotes: newTrash,
       activeNoteId: nextActiveId, 
       deleteTargetId: null 
     });
     
-    saveNotesToStorage(newNotes);
+    get().markNotesDirty([deleteTargetId]);
+    get().saveNotes();
+  },
+
+  togglePinned: (id) => {
+    const note = get().notes.find(n => n.id === id);
+    if (!note) return;
+    set(state => ({ notes: state.notes.map(n => n.id === id ? { ...n, pinned: !n.pinned } : n) }));
+    get().markNotesDirty([id], { edited: false });
+    get().saveNotes();
+  },
+
+  toggleFavorite: (id) => {
+    const note = get().notes.find(n => n.id === id);
+    if (!note) return;
+    set(state => ({ notes: state.notes.map(n => n.id === id ? { ...n, favorite: !n.favorite } : n) }));
+    get().markNotesDirty([id], { edited: false });
+    get().saveNotes();
+  },
+
+  restoreNote: (id) => {
+    const { trashedNotes, notes } = get();
+    const note = trashedNotes.find(n => n.id === id);
+    if (!note) return;
+
+    const { deletedAt, ...restored } = note;
+    const updatedNotes = [restored, ...notes].sort((a, b) => b.createdAt - a.createdAt);
+
+    set({
+      notes: updatedNotes,
+      trashedNotes: trashedNotes.filter(n => n.id !== id),
+      activeNoteId: id,
+      sidebarView: 'notes'
+    });
+    get().markNotesDirty([id]);
+    get().saveNotes();
+  },
+
+  purgeNote: (id) => {
+    const { trashedNotes } = get();
+    const note = trashedNotes.find(n => n.id === id);
+    if (!note) return;
+
+    note.attachments.forEach(att => URL.revokeObjectURL(att.url));
+    set({ trashedNotes: trashedNotes.filter(n => n.id !== id) });
+    get().markNotesDeleted([id]);
+    get().saveNotes();
+  },
+
+  emptyTrash: () => {
+    const { trashedNotes } = get();
+    if (trashedNotes.length === 0) return;
+
+    trashedNotes.forEach(n => n.attachments.forEach(att => URL.revokeObjectURL(att.url)));
+    set({ trashedNotes: [] });
+    get().markNotesDeleted(trashedNotes.map(n => n.id));
+    get().saveNotes();
+  },
+
+  purgeExpiredTrash: () => {
+    const retentionDays = getTrashRetentionDays();
+    if (retentionDays === 0) return;
+
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const { trashedNotes } = get();
+    const expired = trashedNotes.filter(n => (n.deletedAt || 0) < cutoff);
+    if (expired.length === 0) return;
+
+    expired.forEach(n => n.attachments.forEach(att => URL.revokeObjectURL(att.url)));
+    set({ trashedNotes: trashedNotes.filter(n => !expired.includes(n)) });
+    get().markNotesDeleted(expired.map(n => n.id));
+    get().saveNotes();
   },
 
   duplicateNote: (id) => {
@@ -203,13 +960,16 @@ export const useNoteStore = create<NoteStore>((set, get) => ({
     const noteToCopy = notes.find(n => n.id === id);
     if (!noteToCopy) return;
 
+    // The copy is an ordinary note: not a daily note, not pinned or favourited
+    const { dailyDate: _dailyDate, pinned: _pinned, favorite: _favorite, ...fields } = noteToCopy;
     const newNote: NoteSession = {
-      ...noteToCopy,
+      ...fields,
       id: generateId(),
       title: noteToCopy.title ? `${noteToCopy.title} (Copy)` : 'Untitled Copy',
       createdAt: Date.now(),
       status: AppStatus.IDLE,
       error: null,
+      // Same content hashes: the copy only adds references in the blob store, not new binaries
       attachments: noteToCopy.attachments.map(att => ({
         ...att,
         url: URL.createObjectURL(att.file)
@@ -219,7 +979,8 @@ export const useNoteStore = create<NoteStore>((set, get) => ({
 
     const updatedNotes = [newNote, ...notes];
     set({ notes: updatedNotes });
-    saveNotesToStorage(updatedNotes);
+    get().markNotesDirty([newNote.id]);
+    get().saveNotes();
   },
 
   generateNoteContent: async () => {
@@ -228,6 +989,7 @@ export const useNoteStore = create<NoteStore>((set, get) => ({
     
     if (!activeNote || activeNote.status === AppStatus.PROCESSING) return;
 
+    await get().snapshotNote(activeNote.id, 'ai');
     get().updateActiveNote({ status: AppStatus.PROCESSING, error: null });
 
     try {
@@ -252,7 +1014,8 @@ export const useNoteStore = create<NoteStore>((set, get) => ({
       const updatedNotes = get().notes.map(n => n.id === activeNoteId ? updatedNote : n);
       set({ notes: updatedNotes });
       
-      await saveNotesToStorage(updatedNotes);
+      get().markNotesDirty([updatedNote.id]);
+      await get().saveNotes();
       
     } catch (err: any) {
       console.error(err);
@@ -263,7 +1026,8 @@ export const useNoteStore = create<NoteStore>((set, get) => ({
     }
   },
 
-  generateWeeklySummary: async (isAutoTrigger = false) => {
+  // Covers every note, or only those in `folderId` and its subfolders; the summary is filed there too
+  generateWeeklySummary: async (isAutoTrigger = false, folderId = null) => {
     set({ searchQuery: '' });
     
     const now = new Date();
@@ -278,43 +1042,60 @@ export const useNoteStore = create<NoteStore>((set, get) => ({
     friday.setDate(monday.getDate() + 4);
     friday.setHours(23,59,59,999);
 
-    const { notes } = get();
+    const { notes, folders } = get();
+    const folderIds = folderId ? folderSubtreeIds(folders, folderId) : null;
     const weeklyNotes = notes.filter(n => {
-      const noteDate = new Date(n.createdAt);
+      const noteDate = n.dailyDate ? parseDayKey(n.dailyDate) : new Date(n.createdAt);
+      if (folderIds && !(n.folderId && folderIds.has(n.folderId))) return false;
       return noteDate >= monday && noteDate <= friday && n.title !== 'Weekly Summary'; 
     });
 
     if (weeklyNotes.length === 0) {
-      if (!isAutoTrigger) alert("No notes found for this week (Mon-Fri).");
+      if (!isAutoTrigger) alert(folderIds ? "No notes found in this folder for this week (Mon-Fri)." : "No notes found for this week (Mon-Fri).");
       return;
     }
 
     let aggregatedContent = `
     <h1>Weekly Notes Aggregation (${monday.toLocaleDateString()} - ${friday.toLocaleDateString()})</h1>
-    <p>Please summarize the following notes created this week:</p>
+    <p>Please summarize the following notes created this week, grouped by day:</p>
     <hr/>
     `;
 
-    weeklyNotes.forEach(n => {
-      let contentToUse = n.inputText;
-      const separatorMarker = '<hr style="margin: 2em 0; border: 0; border-top: 2px dashed #e2e8f0;"/>';
-      const splitIndex = contentToUse.indexOf(separatorMarker);
-      
-      if (splitIndex !== -1) {
-        contentToUse = contentToUse.substring(0, splitIndex);
-      }
-      
-      aggregatedContent += `
-        <h3>Date: ${new Date(n.createdAt).toLocaleDateString()} - Title: ${n.title || 'Untitled'}</h3>
-        <div style="border-left: 2px solid #ccc; padding-left: 10px; margin-bottom: 20px;">
-          ${contentToUse}
-        </div>
-        <hr/>
-      `;
+    // One section per day, oldest first; the day's daily note leads its section
+    const days = new Map<string, NoteSession[]>();
+    [...weeklyNotes]
+      .sort((a, b) => (a.dailyDate ? 0 : 1) - (b.dailyDate ? 0 : 1) || a.createdAt - b.createdAt)
+      .forEach(n => {
+        const key = noteDayKey(n);
+        const dayNotes = days.get(key);
+        if (dayNotes) dayNotes.push(n);
+        else days.set(key, [n]);
+      });
+
+    Array.from(days.keys()).sort().forEach(key => {
+      aggregatedContent += `<h2>${formatDayHeading(parseDayKey(key))}</h2>`;
+      days.get(key)!.forEach(n => {
+        let contentToUse = n.inputText;
+        const separatorMarker = '<hr style="margin: 2em 0; border: 0; border-top: 2px dashed #e2e8f0;"/>';
+        const splitIndex = contentToUse.indexOf(separatorMarker);
+        
+        if (splitIndex !== -1) {
+          contentToUse = contentToUse.substring(0, splitIndex);
+        }
+        
+        aggregatedContent += `
+          <h3>${n.dailyDate ? 'Daily note' : `Title: ${n.title || 'Untitled'}`}</h3>
+          <div style="border-left: 2px solid #ccc; padding-left: 10px; margin-bottom: 20px;">
+            ${contentToUse}
+          </div>
+        `;
+      });
+      aggregatedContent += `<hr/>`;
     });
 
     const summaryNote = createNewNote('Weekly Summary');
     summaryNote.role = 'weekly';
+    if (folderId) summaryNote.folderId = folderId;
     summaryNote.status = AppStatus.PROCESSING;
     summaryNote.inputText = `<p class="text-slate-400 italic">🤖 Analyzing your notes and generating Weekly Summary...</p>`; 
 
@@ -324,6 +1105,7 @@ export const useNoteStore = create<NoteStore>((set, get) => ({
       activeNoteId: summaryNote.id,
       isSidebarOpen: window.innerWidth >= 1024 
     });
+    get().markNotesDirty([summaryNote.id]);
 
     try {
       const markdown = await generateSmartNote(aggregatedContent, [], 'weekly');
@@ -339,12 +1121,14 @@ export const useNoteStore = create<NoteStore>((set, get) => ({
 
       const finalNotes = get().notes.map(n => n.id === summaryNote.id ? updatedSummaryNote : n);
       set({ notes: finalNotes });
-      await saveNotesToStorage(finalNotes);
+      get().markNotesDirty([summaryNote.id]);
+      await get().saveNotes();
       
     } catch (error: any) {
       console.error("Weekly Summary Failed", error);
       const failedNotes = get().notes.map(n => n.id === summaryNote.id ? { ...n, status: AppStatus.ERROR, error: error.message } : n);
       set({ notes: failedNotes });
+      get().markNotesDirty([summaryNote.id]);
     }
   },
 
@@ -399,6 +1183,55 @@ export const useNoteStore = create<NoteStore>((set, get) => ({
 
   clearChatHistory: () => {
     get().updateActiveNote({ chatHistory: [] });
+  },
+
+  snapshotNote: async (noteId, reason) => {
+    const note = get().notes.find(n => n.id === noteId);
+    if (!note) return;
+
+    const written = await saveRevision({
+      id: generateId(),
+      noteId,
+      title: note.title,
+      role: note.role,
+      inputText: note.inputText,
+      createdAt: Date.now(),
+      reason
+    });
+
+    const { isHistoryOpen, activeNoteId } = get();
+    if (written && isHistoryOpen && activeNoteId === noteId) get().refreshRevisions();
+  },
+
+  refreshRevisions: async () => {
+    const { activeNoteId } = get();
+    if (!activeNoteId) return;
+    const revisions = await loadRevisions(activeNoteId);
+    // Ignore the result if the user switched notes while loading
+    if (get().activeNoteId === activeNoteId) set({ revisions });
+  },
+
+  restoreRevision: async (revision) => {
+    const { activeNoteId } = get();
+    if (activeNoteId !== revision.noteId) return;
+
+    // Keep the version being replaced, so a restore can itself be undone
+    await get().snapshotNote(revision.noteId, 'restore');
+
+    // Revisions from before inline images moved to the blob store still embed them as data URLs
+    let inputText = revision.inputText;
+    const extracted = await extractDataUrlImages(inputText);
+    if (extracted) {
+      extracted.blobs.forEach((blob, hash) => registerBlob(hash, blob));
+      inputText = extracted.html;
+    }
+
+    get().updateActiveNote({
+      title: revision.title,
+      role: revision.role,
+      inputText
+    });
+    get().saveNotes();
   }
 
 }));
\ No newline at end of file
@@ -10,6 +10,7 @@ export interface NoteResult {
 
 export interface ImagePreview {
   file: File;
+  hash: string; // SHA-256 of the content, key in the blob store
   url: string;
   type: 'image' | 'pdf' | 'audio' | 'doc' | 'sheet' | 'slide' | 'text';
 }
@@ -34,12 +35,51 @@ export interface ChatMessage {
 export interface NoteSession {
   id: string;
   title: string;
-  inputText: string; // Contains HTML content with inline base64 images
+  inputText: string; // HTML content; inline images reference the blob store by hash (data-blob-hash)
   attachments: ImagePreview[];
   result: NoteResult | null;
   status: AppStatus;
   error: string | null;
   createdAt: number;
+  updatedAt: number; // Last change; a write never replaces a stored version with a newer updatedAt
+  editedAt?: number; // Last edit of the note itself (not pinning, syncing, restoring...); updatedAt on older notes
   role: NoteRole;
   chatHistory: ChatMessage[];
-}
\ No newline at end of file
+  tags?: string[];
+  folderId?: string; // Unset (or pointing at a folder that no longer exists) means unfiled
+  dailyDate?: string; // "2024-05-01" on the daily note of that date
+  pinned?: boolean; // Kept at the top of the sidebar
+  favorite?: boolean;
+  deletedAt?: number; // Set while the note sits in the trash
+}
+
+// A folder in the sidebar tree; folders nest through parentId
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null; // null at the top level
+  createdAt: number;
+}
+
+// Starting point for a new note. `titlePattern` and `html` may contain {date}, {time},
+// {datetime} and {weekday}, filled in when the note is created.
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  role: NoteRole;
+  titlePattern: string;
+  html: string;
+}
+
+export type RevisionReason = 'ai' | 'idle' | 'title' | 'role' | 'restore' | 'external';
+
+// Snapshot of a note's editable content, kept in the 'revisions' store
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  title: string;
+  role: NoteRole;
+  inputText: string;
+  createdAt: number;
+  reason: RevisionReason;
+}
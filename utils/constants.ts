@@ -1,4 +1,4 @@
-import { NoteSession, AppStatus } from '../types';
+import { NoteSession, AppStatus, ImagePreview } from '../types';
 
 export const RESET_AI_STYLE = `
   color: #1e293b; 
@@ -19,28 +19,64 @@ export const RESET_AI_STYLE = `
   --tw-prose-td-borders: #e2e8f0;
 `.replace(/\n/g, ' ');
 
+export const detectAttachmentType = (file: File): ImagePreview['type'] => {
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  
+  if (file.type === 'application/pdf') return 'pdf';
+  if (file.type.startsWith('audio/')) return 'audio';
+  if (ext === 'doc' || ext === 'docx') return 'doc';
+  if (ext === 'xls' || ext === 'xlsx') return 'sheet';
+  if (ext === 'ppt' || ext === 'pptx' || ext === 'potx') return 'slide';
+  if (ext === 'txt') return 'text';
+  return 'image';
+};
+
 export const generateId = () => Math.random().toString(36).substr(2, 9);
 
-export const createNewNote = (title: string = ''): NoteSession => {
-  const now = new Date();
-  const dateStr = now.getFullYear() + '-' + 
-    String(now.getMonth() + 1).padStart(2, '0') + '-' + 
-    String(now.getDate()).padStart(2, '0') + ' ' + 
-    String(now.getHours()).padStart(2, '0') + ':' + 
-    String(now.getMinutes()).padStart(2, '0') + ':' + 
-    String(now.getSeconds()).padStart(2, '0');
+// 2024-05-01 09:30:00, local time
+export const formatDateTime = (date: Date): string =>
+  date.getFullYear() + '-' + 
+  String(date.getMonth() + 1).padStart(2, '0') + '-' + 
+  String(date.getDate()).padStart(2, '0') + ' ' + 
+  String(date.getHours()).padStart(2, '0') + ':' + 
+  String(date.getMinutes()).padStart(2, '0') + ':' + 
+  String(date.getSeconds()).padStart(2, '0');
 
+// Date and time styled as metadata, the first line of a new note
+export const dateStampHtml = (dateStr: string) =>
+  `<p style="color: #94a3b8; font-size: 0.9em;">📅 ${dateStr}</p>`;
+
+export const createNewNote = (title: string = ''): NoteSession => {
   return {
     id: generateId(),
     title: title,
     // Automatically insert date and time styled as metadata
-    inputText: `<p style="color: #94a3b8; font-size: 0.9em;">📅 ${dateStr}</p><p><br/></p>`,
+    inputText: `${dateStampHtml(formatDateTime(new Date()))}<p><br/></p>`,
     attachments: [],
     result: null,
     status: AppStatus.IDLE,
     error: null,
     createdAt: Date.now(),
+    updatedAt: Date.now(),
     role: 'autosar', // Default role
     chatHistory: [] // Init chat history
   };
 };
+
+// Trashed notes older than this are purged on startup. 0 keeps them forever.
+export const TRASH_RETENTION_KEY = 'trash_retention_days';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const getTrashRetentionDays = (): number => {
+  const stored = parseInt(localStorage.getItem(TRASH_RETENTION_KEY) || '', 10);
+  return Number.isFinite(stored) && stored >= 0 ? stored : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const ATTACHMENT_WARNING_KEY = 'attachment_warning_mb';
+export const DEFAULT_ATTACHMENT_WARNING_MB = 20;
+
+// Attachments larger than this ask for confirmation before they are added (0 = never ask)
+export const getAttachmentWarningMb = (): number => {
+  const stored = parseFloat(localStorage.getItem(ATTACHMENT_WARNING_KEY) || '');
+  return Number.isFinite(stored) && stored >= 0 ? stored : DEFAULT_ATTACHMENT_WARNING_MB;
+};
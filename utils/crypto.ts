@@ -0,0 +1,53 @@
+// WebCrypto primitives for the encrypted vault: PBKDF2-SHA-256 key derivation and AES-GCM.
+// Every encryption uses a fresh random 96-bit IV stored next to the ciphertext.
+
+export const PBKDF2_ITERATIONS = 600000;
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+
+export interface SealedData {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+export const generateSalt = (): Uint8Array<ArrayBuffer> => crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+
+// The key is non-extractable: it only ever exists inside WebCrypto for this session
+export const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptBytes = async (key: CryptoKey, bytes: BufferSource): Promise<SealedData> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv, data };
+};
+
+// Rejects (OperationError) if the key is wrong or the data was tampered with
+export const decryptBytes = (key: CryptoKey, sealed: SealedData): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+
+export const encryptJson = (key: CryptoKey, value: unknown): Promise<SealedData> =>
+  encryptBytes(key, new TextEncoder().encode(JSON.stringify(value)));
+
+export const decryptJson = async <T>(key: CryptoKey, sealed: SealedData): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await decryptBytes(key, sealed)));
+
+// Blobs are stored as IV followed by ciphertext
+export const encryptBlob = async (key: CryptoKey, blob: Blob): Promise<Blob> => {
+  const { iv, data } = await encryptBytes(key, await blob.arrayBuffer());
+  return new Blob([iv, data]);
+};
+
+export const decryptBlob = async (key: CryptoKey, blob: Blob, type: string): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const plain = await decryptBytes(key, { iv: bytes.slice(0, IV_BYTES), data: bytes.slice(IV_BYTES).buffer });
+  return new Blob([plain], { type });
+};
@@ -0,0 +1,45 @@
+// Calendar days are local dates, keyed as "2024-05-01"
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const dayKey = (date: Date | number): string => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// The day a note belongs to: a daily note's own day, otherwise the day it was created
+export const noteDayKey = (note: { dailyDate?: string; createdAt: number }) => note.dailyDate ?? dayKey(note.createdAt);
+
+// Local midnight of the day
+export const parseDayKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const isValidDayKey = (key: unknown): key is string =>
+  typeof key === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(key) && dayKey(parseDayKey(key)) === key;
+
+// "Monday, May 1"
+export const formatDayHeading = (date: Date) =>
+  date.toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric' });
+
+// The 6 weeks (Monday first) shown for a month, padded with days of the neighbouring months
+export const monthGrid = (year: number, month: number): Date[] => {
+  const first = new Date(year, month, 1);
+  const offset = (first.getDay() + 6) % 7;
+  return Array.from({ length: 42 }, (_, i) => new Date(year, month, 1 - offset + i));
+};
+
+// Sidebar timestamp: "14:05" today, "Yesterday 14:05", "May 1, 14:05" this year, "May 1, 2023" before
+export const formatNoteDate = (timestamp: number, now: Date = new Date()): string => {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const today = dayKey(now);
+  if (dayKey(date) === today) return time;
+  const yesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+  if (dayKey(date) === dayKey(yesterday)) return `Yesterday ${time}`;
+  if (date.getFullYear() === now.getFullYear()) {
+    return `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })}, ${time}`;
+  }
+  return date.toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+};
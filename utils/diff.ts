@@ -0,0 +1,122 @@
+// Word-level diff of two note HTML documents, rendered as HTML with <ins>/<del> markup.
+
+export interface DiffChunk {
+  type: 'equal' | 'insert' | 'delete';
+  value: string;
+}
+
+// Above this many LCS cells we diff line by line instead of word by word, and if the lines
+// still exceed it, the changed middle is reported as one deletion plus one insertion
+const MAX_LCS_CELLS = 2_000_000;
+
+const BLOCK_TAGS = ['P', 'DIV', 'BR', 'LI', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'BLOCKQUOTE', 'PRE', 'TR', 'HR'];
+
+// Extracts readable text from note HTML, keeping block boundaries as newlines
+export const htmlToPlainText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  let text = '';
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent || '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as HTMLElement;
+    if (el.tagName === 'IMG') {
+      text += ' [image] ';
+      return;
+    }
+    const isBlock = BLOCK_TAGS.includes(el.tagName);
+    if (isBlock && text && !text.endsWith('\n')) text += '\n';
+    el.childNodes.forEach(walk);
+    if (isBlock && !text.endsWith('\n')) text += '\n';
+  };
+  walk(doc.body);
+  return text.replace(/\u00a0/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const tokenize = (text: string, byLine: boolean) =>
+  (byLine ? text.split(/(\n)/) : text.split(/(\s+)/)).filter(t => t.length > 0);
+
+// Token-level edit script turning `a` into `b`: one chunk per token
+export const diffTokenOps = (a: string[], b: string[]): DiffChunk[] => {
+  // Trim the common prefix/suffix so the LCS table only covers the changed middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  const ops: DiffChunk[] = a.slice(0, start).map(value => ({ type: 'equal', value }));
+  if (n * m > MAX_LCS_CELLS) {
+    midA.forEach(value => ops.push({ type: 'delete', value }));
+    midB.forEach(value => ops.push({ type: 'insert', value }));
+    a.slice(endA).forEach(value => ops.push({ type: 'equal', value }));
+    return ops;
+  }
+
+  // lcs[i][j] = LCS length of midA[i:] and midB[j:]
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) { ops.push({ type: 'equal', value: midA[i] }); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) { ops.push({ type: 'delete', value: midA[i] }); i++; }
+    else { ops.push({ type: 'insert', value: midB[j] }); j++; }
+  }
+  while (i < n) ops.push({ type: 'delete', value: midA[i++] });
+  while (j < m) ops.push({ type: 'insert', value: midB[j++] });
+  a.slice(endA).forEach(value => ops.push({ type: 'equal', value }));
+
+  return ops;
+};
+
+// Same as diffTokenOps, with consecutive tokens of the same type joined into one chunk
+export const diffTokens = (a: string[], b: string[]): DiffChunk[] => {
+  const chunks: DiffChunk[] = [];
+  for (const op of diffTokenOps(a, b)) {
+    const last = chunks[chunks.length - 1];
+    if (last && last.type === op.type) last.value += op.value;
+    else chunks.push({ ...op });
+  }
+  return chunks;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br/>');
+
+/**
+ * Diff of `oldHtml` -> `newHtml`: removed words are wrapped in <del>, added ones in <ins>.
+ * Empty if the texts are the same.
+ */
+export const htmlDiff = (oldHtml: string, newHtml: string): string => {
+  const oldText = htmlToPlainText(oldHtml);
+  const newText = htmlToPlainText(newHtml);
+
+  let a = tokenize(oldText, false);
+  let b = tokenize(newText, false);
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    a = tokenize(oldText, true);
+    b = tokenize(newText, true);
+  }
+
+  const chunks = diffTokens(a, b);
+  if (chunks.every(chunk => chunk.type === 'equal')) return '';
+  return chunks.map(chunk => {
+    const html = escapeHtml(chunk.value);
+    if (chunk.type === 'insert') return `<ins class="bg-green-100 text-green-800 no-underline">${html}</ins>`;
+    if (chunk.type === 'delete') return `<del class="bg-red-100 text-red-700">${html}</del>`;
+    return html;
+  }).join('');
+};
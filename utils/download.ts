@@ -0,0 +1,34 @@
+// Triggers a browser download for an in-memory file
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Strips characters that are not allowed in file names on Windows/macOS/Linux
+export const sanitizeFileName = (name: string, fallback: string = 'untitled') => {
+  const clean = name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').replace(/\s+/g, ' ').trim().slice(0, 120);
+  return clean || fallback;
+};
+
+export const todayStamp = () => new Date().toISOString().slice(0, 10);
+
+// Attachments may share a name within a note ("image.png" pasted twice); keep all of them.
+// `used` holds the names already taken (lower-cased) and is updated.
+export const uniqueFileName = (name: string, used: Set<string>) => {
+  let candidate = name.replace(/[\\/]/g, '_') || 'attachment';
+  const dot = candidate.lastIndexOf('.');
+  const base = dot > 0 ? candidate.slice(0, dot) : candidate;
+  const ext = dot > 0 ? candidate.slice(dot) : '';
+  let counter = 2;
+  while (used.has(candidate.toLowerCase())) {
+    candidate = `${base} (${counter++})${ext}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
@@ -0,0 +1,9 @@
+// The Electron window runs with nodeIntegration and without context isolation, so the
+// renderer can reach ipcRenderer directly. In a plain browser these are unavailable.
+
+export const isElectron = (): boolean => !!(window as any).process?.versions?.electron;
+
+export const getIpcRenderer = () => {
+  if (!isElectron()) throw new Error("This feature is only available in the desktop app.");
+  return (window as any).require('electron').ipcRenderer;
+};
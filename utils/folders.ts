@@ -0,0 +1,39 @@
+import { Folder } from '../types';
+
+// Folders directly inside `parentId` (null: the top level), by name. A folder whose parent no
+// longer exists is shown at the top level.
+export const childFolders = (folders: Folder[], parentId: string | null): Folder[] => {
+  const ids = new Set(folders.map(folder => folder.id));
+  return folders
+    .filter(folder => (folder.parentId && ids.has(folder.parentId) ? folder.parentId : null) === parentId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// The folder and every folder nested in it, at any depth
+export const folderSubtreeIds = (folders: Folder[], rootId: string): Set<string> => {
+  const ids = new Set([rootId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const folder of folders) {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        grew = true;
+      }
+    }
+  }
+  return ids;
+};
+
+// "Parent / Child" path of a folder, for labels
+export const folderPath = (folders: Folder[], id: string): string => {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let folder = folders.find(f => f.id === id);
+  while (folder && !seen.has(folder.id)) {
+    seen.add(folder.id);
+    names.unshift(folder.name);
+    folder = folders.find(f => f.id === folder!.parentId);
+  }
+  return names.join(' / ');
+};
@@ -0,0 +1,84 @@
+import { hashBlob } from './hash';
+
+// Inline images are stored in the blob store and referenced from note HTML by content hash:
+//
+//   <img data-blob-hash="<sha256>" src="">
+//
+// The src is only filled with an object URL while the image is on screen, and stripped again
+// before the HTML is saved, so note content never carries base64 payloads.
+
+export const INLINE_IMAGE_ATTR = 'data-blob-hash';
+
+const HASH_ATTR_REGEX = new RegExp(`${INLINE_IMAGE_ATTR}="([0-9a-f]{64})"`);
+
+// All inline image hashes referenced by a note's HTML, each once
+export const extractInlineImageHashes = (html: string): string[] => {
+  const hashes = new Set<string>();
+  for (const match of (html || '').matchAll(new RegExp(HASH_ATTR_REGEX, 'g'))) hashes.add(match[1]);
+  return Array.from(hashes);
+};
+
+/**
+ * Rewrites the src of every blob-backed <img>. `srcFor` returns null to leave a tag untouched.
+ */
+export const replaceInlineImageSrc = (html: string, srcFor: (hash: string) => string | null): string =>
+  html.replace(/<img\b[^>]*>/gi, tag => {
+    const match = tag.match(HASH_ATTR_REGEX);
+    if (!match) return tag;
+    const src = srcFor(match[1]);
+    if (src === null) return tag;
+    return /\ssrc="[^"]*"/i.test(tag)
+      ? tag.replace(/\ssrc="[^"]*"/i, () => ` src="${src}"`)
+      : tag.replace(/^<img/i, () => `<img src="${src}"`);
+  });
+
+// Strips the ephemeral object URLs so the HTML can be saved or compared
+export const dehydrateInlineImages = (html: string): string => replaceInlineImageSrc(html, () => '');
+
+// For documents that must stand alone (print, export): the image bytes inside the HTML
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.substring(5, header.indexOf(';'));
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * Replaces embedded `data:image/...;base64` images with blob references.
+ * Returns null when the HTML contains none, otherwise the new HTML and the extracted blobs.
+ */
+export const extractDataUrlImages = async (html: string): Promise<{ html: string; blobs: Map<string, Blob> } | null> => {
+  const dataImageRegex = /<img\b[^>]*\ssrc="(data:image\/[^;"]+;base64,[^"]+)"[^>]*>/gi;
+  const matches = Array.from(html.matchAll(dataImageRegex));
+  if (matches.length === 0) return null;
+
+  const hashesByUrl = new Map<string, string>();
+  const blobs = new Map<string, Blob>();
+  for (const match of matches) {
+    if (hashesByUrl.has(match[1])) continue;
+    try {
+      const blob = dataUrlToBlob(match[1]);
+      const hash = await hashBlob(blob);
+      blobs.set(hash, blob);
+      hashesByUrl.set(match[1], hash);
+    } catch (err) {
+      console.warn("Could not convert an embedded image", err);
+    }
+  }
+
+  const newHtml = html.replace(dataImageRegex, (tag, dataUrl) => {
+    const hash = hashesByUrl.get(dataUrl);
+    if (!hash) return tag;
+    return tag.replace(dataUrl, () => '').replace(/^<img/i, () => `<img ${INLINE_IMAGE_ATTR}="${hash}"`);
+  });
+  return { html: newHtml, blobs };
+};
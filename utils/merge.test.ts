@@ -0,0 +1,75 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { mergeHtml, mergeTokens, mergeValue } from './merge';
+
+describe('mergeValue', () => {
+  it('takes the side that changed', () => {
+    expect(mergeValue('a', 'b', 'a')).toEqual({ value: 'b', conflict: false });
+    expect(mergeValue('a', 'a', 'c')).toEqual({ value: 'c', conflict: false });
+  });
+
+  it('reports different changes on both sides as a conflict, keeping the local value', () => {
+    expect(mergeValue('a', 'b', 'c')).toEqual({ value: 'b', conflict: true });
+  });
+
+  it('compares structured values by content', () => {
+    expect(mergeValue(['x'], ['x', 'y'], ['x', 'y'])).toEqual({ value: ['x', 'y'], conflict: false });
+  });
+});
+
+describe('mergeTokens', () => {
+  it('combines edits to different tokens', () => {
+    const result = mergeTokens(['a', 'b', 'c'], ['A', 'b', 'c'], ['a', 'b', 'C']);
+    expect(result).toEqual({ value: ['A', 'b', 'C'], conflict: false });
+  });
+
+  it('keeps insertions of both sides at different places', () => {
+    const result = mergeTokens(['a', 'b'], ['a', 'x', 'b'], ['a', 'b', 'y']);
+    expect(result).toEqual({ value: ['a', 'x', 'b', 'y'], conflict: false });
+  });
+
+  it('accepts the same edit made on both sides', () => {
+    const result = mergeTokens(['a', 'b'], ['a', 'B'], ['a', 'B']);
+    expect(result).toEqual({ value: ['a', 'B'], conflict: false });
+  });
+
+  it('reports different edits of the same token as a conflict', () => {
+    const result = mergeTokens(['a', 'b'], ['a', 'local'], ['a', 'remote']);
+    expect(result).toEqual({ value: ['a', 'local'], conflict: true });
+  });
+
+  it('reports different insertions at the same spot as a conflict', () => {
+    const result = mergeTokens(['a'], ['a', 'x'], ['a', 'y']);
+    expect(result.conflict).toBe(true);
+  });
+});
+
+describe('mergeHtml', () => {
+  const base = '<p>One</p><p>Two</p><p>Three</p>';
+
+  it('merges edits to different paragraphs', () => {
+    const local = '<p>One, edited here</p><p>Two</p><p>Three</p>';
+    const remote = '<p>One</p><p>Two</p><p>Three, edited there</p>';
+    expect(mergeHtml(base, local, remote)).toEqual({
+      value: '<p>One, edited here</p><p>Two</p><p>Three, edited there</p>',
+      conflict: false
+    });
+  });
+
+  it('keeps a paragraph added on one side and removed on none', () => {
+    const local = '<p>One</p><p>Two</p><p>Three</p><p>Four</p>';
+    const remote = '<p>One</p><p>Three</p>';
+    expect(mergeHtml(base, local, remote)).toEqual({ value: '<p>One</p><p>Three</p><p>Four</p>', conflict: false });
+  });
+
+  it('reports different edits of the same paragraph as a conflict', () => {
+    const local = '<p>One</p><p>Two, mine</p><p>Three</p>';
+    const remote = '<p>One</p><p>Two, theirs</p><p>Three</p>';
+    expect(mergeHtml(base, local, remote)).toEqual({ value: local, conflict: true });
+  });
+
+  it('takes the other side when only it changed', () => {
+    const remote = '<p>One</p><p>Two</p>';
+    expect(mergeHtml(base, base, remote)).toEqual({ value: remote, conflict: false });
+  });
+});
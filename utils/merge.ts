@@ -0,0 +1,116 @@
+import { diffTokenOps } from './diff';
+
+// Three-way merge of note HTML at the level of top-level blocks (paragraphs, headings, lists).
+// Edits to different blocks combine; different edits to the same block are a conflict.
+
+// Replaces base[start, end) with `tokens`
+interface Hunk {
+  start: number;
+  end: number;
+  tokens: string[];
+  side: 'local' | 'remote';
+}
+
+export interface MergeResult<T> {
+  value: T;
+  conflict: boolean; // When true, `value` is the local version
+}
+
+// Top-level nodes of an HTML fragment, serialized one per token
+export const splitHtmlBlocks = (html: string): string[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.body.childNodes).map(node => {
+    if (node.nodeType === Node.ELEMENT_NODE) return (node as Element).outerHTML;
+    const wrapper = doc.createElement('div');
+    wrapper.appendChild(node.cloneNode());
+    return wrapper.innerHTML;
+  }).filter(token => token.length > 0);
+};
+
+const hunksOf = (base: string[], other: string[], side: Hunk['side']): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let pos = 0;
+  let open: Hunk | null = null;
+  for (const op of diffTokenOps(base, other)) {
+    if (op.type === 'equal') {
+      open = null;
+      pos++;
+      continue;
+    }
+    if (!open) {
+      open = { start: pos, end: pos, tokens: [], side };
+      hunks.push(open);
+    }
+    if (op.type === 'delete') {
+      open.end++;
+      pos++;
+    } else {
+      open.tokens.push(op.value);
+    }
+  }
+  return hunks;
+};
+
+const sameTokens = (a: string[], b: string[]) => a.length === b.length && a.every((token, i) => token === b[i]);
+
+export const mergeTokens = (base: string[], local: string[], remote: string[]): MergeResult<string[]> => {
+  const hunks = [...hunksOf(base, local, 'local'), ...hunksOf(base, remote, 'remote')]
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const merged: string[] = [];
+  let conflict = false;
+  let pos = 0;
+  let i = 0;
+  while (i < hunks.length) {
+    // Hunks whose base ranges overlap, or that insert at the same spot, are resolved together
+    const group = [hunks[i++]];
+    let end = group[0].end;
+    while (i < hunks.length && (hunks[i].start < end || (hunks[i].start === group[0].start && hunks[i].start === end))) {
+      end = Math.max(end, hunks[i].end);
+      group.push(hunks[i++]);
+    }
+    const start = group[0].start;
+
+    // Each side's version of base[start, end)
+    const render = (side: Hunk['side']) => {
+      const tokens: string[] = [];
+      let cursor = start;
+      group.filter(h => h.side === side).forEach(h => {
+        tokens.push(...base.slice(cursor, h.start), ...h.tokens);
+        cursor = h.end;
+      });
+      tokens.push(...base.slice(cursor, end));
+      return tokens;
+    };
+
+    merged.push(...base.slice(pos, start));
+    const sides = new Set(group.map(h => h.side));
+    if (sides.size === 1) {
+      merged.push(...render(group[0].side));
+    } else {
+      const ours = render('local');
+      const theirs = render('remote');
+      if (!sameTokens(ours, theirs)) conflict = true;
+      merged.push(...ours);
+    }
+    pos = end;
+  }
+  merged.push(...base.slice(pos));
+
+  return conflict ? { value: local, conflict } : { value: merged, conflict };
+};
+
+export const mergeHtml = (base: string, local: string, remote: string): MergeResult<string> => {
+  if (local === remote || base === remote) return { value: local, conflict: false };
+  if (base === local) return { value: remote, conflict: false };
+  const { value, conflict } = mergeTokens(splitHtmlBlocks(base), splitHtmlBlocks(local), splitHtmlBlocks(remote));
+  return { value: conflict ? local : value.join(''), conflict };
+};
+
+// Merge of a plain value: whichever side changed it wins; both changing it differently is a conflict
+export const mergeValue = <T>(base: T, local: T, remote: T): MergeResult<T> => {
+  const same = (a: T, b: T) => JSON.stringify(a) === JSON.stringify(b);
+  if (same(local, remote) || same(base, remote)) return { value: local, conflict: false };
+  if (same(base, local)) return { value: remote, conflict: false };
+  return { value: local, conflict: true };
+};
@@ -0,0 +1,20 @@
+import { ChatMessage, NoteResult } from '../types';
+
+// Checks for note fields that come from outside the app (files, backups, sync targets)
+
+export const isNoteResult = (value: any): value is NoteResult =>
+  !!value && typeof value.markdown === 'string' && Number.isFinite(value.timestamp);
+
+export const toChatMessage = (value: any): ChatMessage | null =>
+  value && typeof value.id === 'string' && (value.role === 'user' || value.role === 'model')
+    && typeof value.text === 'string' && Number.isFinite(value.timestamp)
+    ? { id: value.id, role: value.role, text: value.text, timestamp: value.timestamp, ...(value.isError ? { isError: true } : {}) }
+    : null;
+
+// The valid messages of a chat history, or [] if it is not a list
+export const readChatHistory = (value: unknown): ChatMessage[] =>
+  Array.isArray(value) ? value.map(toChatMessage).filter((msg): msg is ChatMessage => !!msg) : [];
+
+// The non-empty string tags, or [] if it is not a list
+export const readTags = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '') : [];
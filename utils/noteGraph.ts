@@ -0,0 +1,181 @@
+import { NoteRole, NoteSession } from '../types';
+import { extractNoteLinkIds } from './noteLinks';
+
+// Graph of the workspace for the graph view: one node per note, edges for [[links]], shared
+// tags and shared attachments, and a force-directed layout that stays cheap for thousands of
+// notes.
+
+export type GraphEdgeKind = 'link' | 'tag' | 'attachment';
+
+export interface GraphNode {
+  id: string;
+  title: string;
+  role: NoteRole;
+  createdAt: number;
+  degree: number;
+  // Layout state, in world coordinates
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface GraphEdge {
+  source: number; // Index into nodes
+  target: number;
+  kind: GraphEdgeKind;
+}
+
+export interface NoteGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+// Notes are immutable in the store, so a note object's links only need to be parsed once
+const linkCache = new WeakMap<NoteSession, string[]>();
+const linkedIds = (note: NoteSession) => {
+  let ids = linkCache.get(note);
+  if (!ids) {
+    ids = extractNoteLinkIds(note.inputText);
+    linkCache.set(note, ids);
+  }
+  return ids;
+};
+
+// Everything buildNoteGraph reads from the notes: equal keys give the same graph, so edits
+// that change none of it (most typing) need no rebuild
+export const graphInputKey = (notes: NoteSession[]) => JSON.stringify(notes.map(note => [
+  note.id, note.title, note.role, note.createdAt, note.tags || [], note.attachments.map(att => att.hash), linkedIds(note)
+]));
+
+/**
+ * Builds the graph for `notes`. Notes sharing a tag or an attachment are chained in list order
+ * rather than connected pairwise, so a tag on n notes adds n - 1 edges instead of n².
+ * Two notes are joined by at most one edge; a link wins over the weaker kinds.
+ * `previous` positions are kept for notes already laid out.
+ */
+export const buildNoteGraph = (
+  notes: NoteSession[],
+  kinds: GraphEdgeKind[],
+  previous: Map<string, { x: number; y: number }> = new Map()
+): NoteGraph => {
+  const index = new Map(notes.map((note, i) => [note.id, i]));
+  const nodes: GraphNode[] = notes.map((note, i) => {
+    // New notes start on a sunflower spiral, which spreads them evenly without overlaps
+    const angle = i * 2.39996;
+    const radius = 12 * Math.sqrt(i + 1);
+    const pos = previous.get(note.id) || { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+    return { id: note.id, title: note.title || 'Untitled Note', role: note.role, createdAt: note.createdAt, degree: 0, x: pos.x, y: pos.y, vx: 0, vy: 0 };
+  });
+
+  const edges: GraphEdge[] = [];
+  const joined = new Set<string>();
+  const addEdge = (a: number, b: number, kind: GraphEdgeKind) => {
+    if (a === b) return;
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+    if (joined.has(key)) return;
+    joined.add(key);
+    edges.push({ source: a, target: b, kind });
+    nodes[a].degree++;
+    nodes[b].degree++;
+  };
+
+  if (kinds.includes('link')) {
+    notes.forEach((note, i) => linkedIds(note).forEach(id => {
+      const target = index.get(id);
+      if (target !== undefined) addEdge(i, target, 'link');
+    }));
+  }
+
+  const chainGroups = (kind: GraphEdgeKind, keysOf: (note: NoteSession) => string[]) => {
+    const groups = new Map<string, number[]>();
+    notes.forEach((note, i) => new Set(keysOf(note)).forEach(key => {
+      const members = groups.get(key);
+      if (members) members.push(i);
+      else groups.set(key, [i]);
+    }));
+    groups.forEach(members => members.slice(1).forEach((member, j) => addEdge(members[j], member, kind)));
+  };
+  if (kinds.includes('tag')) chainGroups('tag', note => note.tags || []);
+  if (kinds.includes('attachment')) chainGroups('attachment', note => note.attachments.map(att => att.hash).filter(Boolean));
+
+  return { nodes, edges };
+};
+
+const REPULSION_RADIUS = 40;
+const REPULSION_STRENGTH = 30;
+const LINK_DISTANCE: Record<GraphEdgeKind, number> = { link: 50, tag: 70, attachment: 70 };
+const SPRING_STRENGTH = 0.04;
+const GRAVITY = 0.002;
+const DAMPING = 0.6;
+
+/**
+ * Advances the layout by one step; `alpha` (1 down to 0) scales how far nodes may move.
+ * Repulsion only acts between nodes in neighbouring grid cells, which keeps a step close to
+ * linear in the number of nodes; distant clusters are held together by gravity instead.
+ */
+export const stepLayout = ({ nodes, edges }: NoteGraph, alpha: number) => {
+  // Numeric cell keys; the layout never grows anywhere near 2^16 cells across
+  const cellKey = (cx: number, cy: number) => cx * 65536 + cy;
+  const cells = new Map<number, number[]>();
+  const cellX = new Int32Array(nodes.length);
+  const cellY = new Int32Array(nodes.length);
+  nodes.forEach((node, i) => {
+    cellX[i] = Math.floor(node.x / REPULSION_RADIUS);
+    cellY[i] = Math.floor(node.y / REPULSION_RADIUS);
+    const key = cellKey(cellX[i], cellY[i]);
+    const cell = cells.get(key);
+    if (cell) cell.push(i);
+    else cells.set(key, [i]);
+  });
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const cell = cells.get(cellKey(cellX[i] + dx, cellY[i] + dy));
+        if (!cell) continue;
+        for (const j of cell) {
+          if (j === i) continue;
+          const other = nodes[j];
+          let ox = node.x - other.x;
+          let oy = node.y - other.y;
+          let distanceSq = ox * ox + oy * oy;
+          if (distanceSq >= REPULSION_RADIUS * REPULSION_RADIUS) continue;
+          if (distanceSq < 0.0001) {
+            // Exactly on top of each other: push apart in an arbitrary but stable direction
+            ox = Math.cos(i);
+            oy = Math.sin(i);
+            distanceSq = 1;
+          }
+          const distance = Math.sqrt(distanceSq);
+          const push = REPULSION_STRENGTH * (1 - distance / REPULSION_RADIUS) * alpha / distance;
+          node.vx += ox * push;
+          node.vy += oy * push;
+        }
+      }
+    }
+  }
+
+  for (const edge of edges) {
+    const a = nodes[edge.source];
+    const b = nodes[edge.target];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const distance = Math.hypot(dx, dy) || 1;
+    const pull = (distance - LINK_DISTANCE[edge.kind]) * SPRING_STRENGTH * alpha;
+    const fx = (dx / distance) * pull;
+    const fy = (dy / distance) * pull;
+    a.vx += fx;
+    a.vy += fy;
+    b.vx -= fx;
+    b.vy -= fy;
+  }
+
+  for (const node of nodes) {
+    node.vx = (node.vx - node.x * GRAVITY * alpha) * DAMPING;
+    node.vy = (node.vy - node.y * GRAVITY * alpha) * DAMPING;
+    node.x += node.vx;
+    node.y += node.vy;
+  }
+};
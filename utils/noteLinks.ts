@@ -0,0 +1,37 @@
+import { NoteSession } from '../types';
+
+// Links between notes ("[[Note title]]" while typing) are stored by note ID, so they survive renames:
+//
+//   <a data-note-link="<id>" contenteditable="false" class="...">Note title</a>
+//
+// The text is the target's title when the link was made and is refreshed whenever the note is
+// shown; the ID is what counts.
+
+export const NOTE_LINK_ATTR = 'data-note-link';
+
+const NOTE_LINK_REGEX = new RegExp(`${NOTE_LINK_ATTR}="([^"]+)"`, 'g');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const noteLinkHtml = (id: string, title: string) =>
+  `<a ${NOTE_LINK_ATTR}="${escapeHtml(id)}" contenteditable="false" class="text-indigo-600 bg-indigo-50 rounded px-1 no-underline cursor-pointer hover:bg-indigo-100">${escapeHtml(title || 'Untitled Note')}</a>`;
+
+// IDs of every note the HTML links to, each once
+export const extractNoteLinkIds = (html: string): string[] => {
+  const ids = new Set<string>();
+  for (const match of (html || '').matchAll(NOTE_LINK_REGEX)) ids.add(match[1]);
+  return Array.from(ids);
+};
+
+// Notes whose content links to `id`, newest first as in `notes`
+export const findBacklinks = (notes: NoteSession[], id: string): NoteSession[] =>
+  notes.filter(note => note.id !== id && extractNoteLinkIds(note.inputText).includes(id));
+
+// Shows each link under its target's current title; links to missing notes keep their text
+export const hydrateNoteLinks = (root: HTMLElement, titleOf: (id: string) => string | undefined) => {
+  root.querySelectorAll<HTMLElement>(`a[${NOTE_LINK_ATTR}]`).forEach(link => {
+    const title = titleOf(link.getAttribute(NOTE_LINK_ATTR)!);
+    if (title !== undefined && link.textContent !== (title || 'Untitled Note')) link.textContent = title || 'Untitled Note';
+  });
+};
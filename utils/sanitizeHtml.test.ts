@@ -0,0 +1,37 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from './sanitizeHtml';
+
+describe('sanitizeHtml', () => {
+  it('keeps formatting, inline images and note links', () => {
+    const html = '<p style="color: red;"><strong>Bold</strong> <a href="https://example.com" target="_blank" rel="noopener noreferrer">link</a></p>'
+      + '<img data-blob-hash="abc" src="" alt="Chart"><a data-note-link="n1" contenteditable="false">Other note</a>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('drops active content along with what it contains', () => {
+    expect(sanitizeHtml('<p>a</p><script>alert(1)</script><iframe srcdoc="<p>x</p>"></iframe><form><input></form><p>b</p>'))
+      .toBe('<p>a</p><p>b</p>');
+    expect(sanitizeHtml('<object data="x.pdf"><embed src="x.pdf"></object>text')).toBe('text');
+  });
+
+  it('removes event handlers and unknown attributes', () => {
+    expect(sanitizeHtml('<img src="https://example.com/a.png" onerror="alert(1)" data-x="1"><p onclick="alert(1)">x</p>'))
+      .toBe('<img src="https://example.com/a.png"><p>x</p>');
+  });
+
+  it('only keeps http(s), mailto, blob and data image URLs', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<a href="data:text/html,<b>x</b>">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<img src="data:image/png;base64,AAAA">')).toBe('<img src="data:image/png;base64,AAAA">');
+    expect(sanitizeHtml('<a href="mailto:me@example.com">x</a>')).toBe('<a href="mailto:me@example.com">x</a>');
+  });
+
+  it('unwraps unknown elements and keeps their text', () => {
+    expect(sanitizeHtml('<custom-tag><em>kept</em></custom-tag>')).toBe('<em>kept</em>');
+  });
+
+  it('drops styles that load from elsewhere', () => {
+    expect(sanitizeHtml('<p style="background: url(https://example.com/track)">x</p>')).toBe('<p>x</p>');
+  });
+});
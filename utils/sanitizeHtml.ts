@@ -0,0 +1,83 @@
+// Allowlist sanitizer for HTML from outside the app (imported files and pages). Known
+// formatting elements and attributes are kept; unknown elements are unwrapped, keeping their
+// content; active content (scripts, frames, plugins, forms) is dropped with its content.
+// Everything else, event handlers included, is removed.
+// Parsing happens in an inert document, so nothing runs or loads while cleaning.
+
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'div', 'span', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr',
+  'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del', 'ins', 'sub', 'sup', 'mark', 'small', 'font',
+  'code', 'pre', 'kbd', 'blockquote', 'q', 'cite', 'abbr',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'table', 'caption', 'colgroup', 'col', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+  'a', 'img', 'figure', 'figcaption'
+]);
+
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'form', 'input',
+  'button', 'select', 'textarea', 'template', 'noscript', 'link', 'meta', 'base', 'svg', 'math'
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(['class', 'style', 'title', 'lang', 'dir', 'align']);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(['href', 'target', 'data-note-link', 'contenteditable']),
+  img: new Set(['src', 'alt', 'width', 'height', 'data-blob-hash']),
+  font: new Set(['color', 'size', 'face']),
+  td: new Set(['colspan', 'rowspan', 'valign']),
+  th: new Set(['colspan', 'rowspan', 'valign']),
+  col: new Set(['span', 'width']),
+  colgroup: new Set(['span', 'width']),
+  ol: new Set(['start', 'type'])
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+// Fragment links and the empty src of inline images (filled in when shown) are fine too
+const isSafeUrl = (value: string, attribute: string) => {
+  const url = value.trim();
+  if (url === '') return attribute === 'src';
+  if (url.startsWith('#')) return attribute === 'href';
+  if (/^data:/i.test(url)) return attribute === 'src' && /^data:image\//i.test(url);
+  return /^(https?|mailto|blob):/i.test(url);
+};
+
+// CSS cannot run scripts, but url() would fetch from elsewhere and old engines knew expression()
+const isSafeStyle = (value: string) => !/url\s*\(|expression\s*\(|@import/i.test(value);
+
+const cleanElement = (element: Element) => {
+  const tag = element.tagName.toLowerCase();
+  const allowed = TAG_ATTRIBUTES[tag];
+  for (const { name, value } of Array.from(element.attributes)) {
+    const keep = (GLOBAL_ATTRIBUTES.has(name) || !!allowed?.has(name))
+      && (!URL_ATTRIBUTES.has(name) || isSafeUrl(value, name))
+      && (name !== 'style' || isSafeStyle(value));
+    if (!keep) element.removeAttribute(name);
+  }
+  if (tag === 'a' && element.getAttribute('target')) element.setAttribute('rel', 'noopener noreferrer');
+};
+
+const cleanChildren = (parent: ParentNode) => {
+  for (const node of Array.from(parent.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) continue;
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      node.remove(); // Comments, processing instructions
+      continue;
+    }
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove();
+      continue;
+    }
+    cleanChildren(element);
+    if (ALLOWED_TAGS.has(tag)) cleanElement(element);
+    else element.replaceWith(...Array.from(element.childNodes));
+  }
+};
+
+export const sanitizeHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  cleanChildren(doc.body);
+  return doc.body.innerHTML;
+};
@@ -0,0 +1,37 @@
+import { NoteSession } from '../types';
+
+export type NoteSortMode = 'created' | 'updated' | 'title' | 'generated';
+
+export const NOTE_SORT_MODE_KEY = 'note_sort_mode';
+
+export const NOTE_SORT_LABELS: Record<NoteSortMode, string> = {
+  created: 'Date created',
+  updated: 'Last modified',
+  title: 'Title',
+  generated: 'Last AI generation'
+};
+
+export const getNoteSortMode = (): NoteSortMode => {
+  const stored = localStorage.getItem(NOTE_SORT_MODE_KEY) as NoteSortMode | null;
+  return stored && Object.hasOwn(NOTE_SORT_LABELS, stored) ? stored : 'created';
+};
+
+// "Last modified" as shown to the user
+export const lastEditedAt = (note: NoteSession) => note.editedAt ?? note.updatedAt;
+
+export const saveNoteSortMode = (mode: NoteSortMode) => localStorage.setItem(NOTE_SORT_MODE_KEY, mode);
+
+const compareBy: Record<NoteSortMode, (a: NoteSession, b: NoteSession) => number> = {
+  created: (a, b) => b.createdAt - a.createdAt,
+  updated: (a, b) => lastEditedAt(b) - lastEditedAt(a),
+  // Untitled notes (usually just created) come first
+  title: (a, b) => a.title.localeCompare(b.title, undefined, { numeric: true, sensitivity: 'base' }),
+  // Never generated go last
+  generated: (a, b) => (b.result?.timestamp || 0) - (a.result?.timestamp || 0)
+};
+
+// Pinned notes first, each group in the order of `mode`; ties fall back to newest first
+export const sortNotes = (notes: NoteSession[], mode: NoteSortMode): NoteSession[] =>
+  [...notes].sort((a, b) =>
+    Number(!!b.pinned) - Number(!!a.pinned) || compareBy[mode](a, b) || b.createdAt - a.createdAt
+  );
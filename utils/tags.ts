@@ -0,0 +1,22 @@
+import { NoteSession } from '../types';
+
+// "#Project  X " -> "Project X"; empty if nothing is left
+export const normalizeTag = (raw: string): string => raw.replace(/^#+/, '').replace(/\s+/g, ' ').trim();
+
+// Every tag in use with the number of notes carrying it, most used first
+export const countTags = (notes: NoteSession[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  notes.forEach(note => (note.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// Tags differing only in case are the same tag; the spelling already in use wins
+export const findTag = (tags: string[], tag: string): string | undefined =>
+  tags.find(existing => existing.toLowerCase() === tag.toLowerCase());
+
+export const matchesTagFilter = (note: NoteSession, filter: string[], mode: 'and' | 'or'): boolean => {
+  if (filter.length === 0) return true;
+  const tags = note.tags || [];
+  return mode === 'and' ? filter.every(tag => tags.includes(tag)) : filter.some(tag => tags.includes(tag));
+};
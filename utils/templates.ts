@@ -0,0 +1,123 @@
+import { NoteSession, NoteTemplate } from '../types';
+import { createNewNote, dateStampHtml, formatDateTime, generateId } from './constants';
+import { INLINE_IMAGE_ATTR } from './inlineImages';
+
+// Custom templates used to be kept here, unencrypted; they are moved into storage once
+const LEGACY_TEMPLATES_KEY = 'note_templates';
+
+const DATE_STAMP = dateStampHtml('{datetime}');
+
+const section = (heading: string, body: string = '<p><br/></p>') => `<h3>${heading}</h3>${body}`;
+const emptyList = (tag: 'ul' | 'ol') => `<${tag}><li><p><br/></p></li></${tag}>`;
+
+// Shipped with the app; they cannot be edited, but can be duplicated into a custom template
+export const BUILT_IN_TEMPLATES: NoteTemplate[] = [
+  {
+    id: 'builtin-bug-triage',
+    name: 'Bug triage (AutoSAR)',
+    role: 'autosar',
+    titlePattern: 'Bug triage {date}',
+    html: DATE_STAMP
+      + section('Symptom')
+      + section('Affected module / layer', '<p>SWC / RTE / BSW module, ECU, software version</p>')
+      + section('Steps to reproduce', emptyList('ol'))
+      + section('Expected vs. actual')
+      + section('DEM / DET error codes')
+      + section('Logs and traces')
+      + section('Root cause hypothesis')
+      + section('Next steps', emptyList('ul'))
+  },
+  {
+    id: 'builtin-design-review',
+    name: 'Design review',
+    role: 'general',
+    titlePattern: 'Design review {date}',
+    html: DATE_STAMP
+      + '<p><strong>Participants:</strong> </p>'
+      + section('Context')
+      + section('Proposal')
+      + section('Alternatives considered', emptyList('ul'))
+      + section('Risks and open questions', emptyList('ul'))
+      + section('Decisions', emptyList('ul'))
+      + section('Action items', emptyList('ul'))
+  },
+  {
+    id: 'builtin-one-on-one',
+    name: '1:1 meeting',
+    role: 'general',
+    titlePattern: '1:1 {date}',
+    html: DATE_STAMP
+      + section('Check-in')
+      + section('Updates since last time', emptyList('ul'))
+      + section('Blockers', emptyList('ul'))
+      + section('Feedback')
+      + section('Action items', emptyList('ul'))
+  },
+  {
+    id: 'builtin-spec-reading',
+    name: 'Spec reading (NotebookLM)',
+    role: 'notebooklm',
+    titlePattern: 'Spec reading {date}',
+    html: DATE_STAMP
+      + '<p><strong>Document:</strong> title, release, chapter</p>'
+      + section('Key requirements', emptyList('ul'))
+      + section('Terms and definitions', emptyList('ul'))
+      + section('Questions', emptyList('ul'))
+      + section('Summary')
+  }
+];
+
+export const isBuiltInTemplate = (id: string) => BUILT_IN_TEMPLATES.some(template => template.id === id);
+
+export const isValidTemplate = (template: any): template is NoteTemplate =>
+  !!template && typeof template.id === 'string' && typeof template.name === 'string'
+    && typeof template.titlePattern === 'string' && typeof template.html === 'string';
+
+export const readLegacyTemplates = (): NoteTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LEGACY_TEMPLATES_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isValidTemplate) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const clearLegacyTemplates = () => localStorage.removeItem(LEGACY_TEMPLATES_KEY);
+
+// Fills in {date}, {time}, {datetime} and {weekday}; other braces are left alone
+export const expandTemplateText = (text: string, date: Date = new Date()) => {
+  const datetime = formatDateTime(date);
+  const values: Record<string, string> = {
+    date: datetime.slice(0, 10),
+    time: datetime.slice(11, 16),
+    datetime,
+    weekday: date.toLocaleDateString('en-US', { weekday: 'long' })
+  };
+  return text.replace(/\{(date|time|datetime|weekday)\}/g, (_, key: string) => values[key]);
+};
+
+export const createNoteFromTemplate = (template: NoteTemplate): NoteSession => {
+  const now = new Date();
+  return {
+    ...createNewNote(expandTemplateText(template.titlePattern, now).trim()),
+    inputText: expandTemplateText(template.html, now),
+    role: template.role
+  };
+};
+
+// A custom template that starts out as a copy of `source`
+export const copyTemplate = (source: Pick<NoteTemplate, 'name' | 'role' | 'titlePattern' | 'html'>): NoteTemplate => ({
+  id: generateId(),
+  name: source.name,
+  role: source.role,
+  titlePattern: source.titlePattern,
+  html: source.html
+});
+
+// Inline images are left out: their blobs belong to the note and are removed along with it
+export const templateFromNote = (note: NoteSession): NoteTemplate => copyTemplate({
+  name: note.title || 'Untitled template',
+  role: note.role === 'weekly' ? 'general' : note.role,
+  titlePattern: note.title,
+  html: note.inputText.replace(new RegExp(`<img\\b[^>]*${INLINE_IMAGE_ATTR}[^>]*>`, 'gi'), '')
+});